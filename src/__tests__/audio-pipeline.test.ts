@@ -0,0 +1,316 @@
+import { jest } from '@jest/globals';
+import * as dgram from 'dgram';
+import { AudioPipeline } from '../audio-pipeline';
+import { AudioProcessor } from '../audio-processor';
+import { MemoryManager } from '../security';
+import { encodePacket } from '../packet-codec';
+import { encodeRtpPacket } from '../rtp-codec';
+import { AudioFormat, AudioPacket, SubtitleData, SubtitleDisplay } from '../types';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('AudioPipeline - UDP to Output Behavior', () => {
+  let pipeline: AudioPipeline;
+  let audioProcessor: {
+    createStream: jest.Mock;
+    processChunk: jest.Mock;
+    finalizeStream: jest.Mock;
+  };
+  let client: dgram.Socket;
+
+  beforeEach(async () => {
+    audioProcessor = {
+      createStream: jest.fn(() => Promise.resolve()),
+      processChunk: jest.fn(() => Promise.resolve()),
+      finalizeStream: jest.fn(() => Promise.resolve()),
+    };
+
+    pipeline = new AudioPipeline(
+      {
+        port: 0,
+        enabled: true,
+        bindAddress: '0.0.0.0',
+        socket: { ipv6Only: false, reuseAddr: false },
+        receiverId: 'receiver-1',
+        advertisedHost: 'receiver.local',
+        acceptLegacyPackets: false,
+        requireAuth: false,
+        requireEncryption: false,
+        keyGraceMs: 5000,
+        nack: { enabled: false, retryIntervalMs: 40, maxRetries: 3, maxWaitMs: 250 },
+        fecEnabled: true,
+        reassembly: { timeoutMs: 200, maxBytes: 4194304 },
+        inactivity: { idleTimeoutMs: 0, firstPacketTimeoutMs: 0 },
+        sourcePolicy: 'address',
+        rtp: { enabled: true, port: 0, payloadTypes: { 96: { encoding: 'L16', clockRate: 16000, channels: 1 } }, reportIntervalMs: 0 },
+        tcp: { enabled: true, port: 0, maxFrameBytes: 1048576, maxConnections: 64, idleTimeoutMs: 30000, preferred: false },
+      },
+      { targetBufferMs: 40, minBufferMs: 10, maxBufferMs: 100, adaptiveMode: false },
+      audioProcessor as unknown as AudioProcessor,
+      new MemoryManager()
+    );
+    await pipeline.start();
+    client = dgram.createSocket('udp4');
+  });
+
+  afterEach(async () => {
+    client.close();
+    await pipeline.stop();
+  });
+
+  function sendPacket(packet: AudioPacket): void {
+    const port = Number(pipeline.getEndpoint().split(':')[1]);
+    client.send(encodePacket(packet), port, '127.0.0.1');
+  }
+
+  async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition() && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+
+  it('should advertise the bound UDP endpoint', () => {
+    expect(pipeline.getEndpoint()).toMatch(/^receiver\.local:\d+$/);
+  });
+
+  it('should open an output stream when a session starts', async () => {
+    await pipeline.startSession('pipeline-1', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 44100,
+    });
+
+    expect(audioProcessor.createStream).toHaveBeenCalledWith('pipeline-1', 'pcm', 44100);
+    expect(pipeline.hasSession('pipeline-1')).toBe(true);
+    expect(pipeline.getBufferSize('pipeline-1')).toBe(40);
+  });
+
+  it('should play UDP packets through the sync manager and jitter buffer', async () => {
+    await pipeline.startSession('pipeline-2', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 44100,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      sendPacket(createTestAudioPacket('pipeline-2', i, i === 2));
+    }
+
+    await waitFor(() => audioProcessor.finalizeStream.mock.calls.length > 0);
+
+    expect(audioProcessor.processChunk).toHaveBeenCalledTimes(3);
+    const played = audioProcessor.processChunk.mock.calls.map(call => (call[1] as Buffer).toString());
+    expect(played).toEqual(['test-audio-data-0', 'test-audio-data-1', 'test-audio-data-2']);
+    expect(audioProcessor.processChunk).toHaveBeenCalledWith('pipeline-2', expect.any(Buffer), 'pcm');
+    expect(audioProcessor.finalizeStream).toHaveBeenCalledWith('pipeline-2');
+    expect(pipeline.hasSession('pipeline-2')).toBe(false);
+  });
+
+  it('should keep final statistics for SESSION_END after the sender finished', async () => {
+    await pipeline.startSession('pipeline-3', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 44100,
+    });
+
+    const completed = new Promise(resolve => pipeline.once('sessionComplete', resolve));
+    sendPacket(createTestAudioPacket('pipeline-3', 0, true));
+    await completed;
+
+    const result = await pipeline.endSession('pipeline-3');
+    expect(result.statistics?.totalPackets).toBe(1);
+
+    // Results are handed out once
+    const again = await pipeline.endSession('pipeline-3');
+    expect(again.statistics).toBeNull();
+  });
+
+  it('should drain sessions the UDP server timed out and report why they ended', async () => {
+    await pipeline.startSession('pipeline-timeout', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 44100,
+    });
+    sendPacket(createTestAudioPacket('pipeline-timeout', 0, false));
+    await waitFor(() => audioProcessor.processChunk.mock.calls.length === 1);
+
+    const completed = new Promise<unknown[]>(resolve => pipeline.once('sessionComplete', (...args: unknown[]) => resolve(args)));
+    pipeline['udpServer']['endSession']('pipeline-timeout', 'TIMEOUT');
+    const [sessionId, result, reason] = await completed;
+
+    expect([sessionId, reason]).toEqual(['pipeline-timeout', 'TIMEOUT']);
+    expect(result).toEqual(expect.objectContaining({ statistics: expect.objectContaining({ totalPackets: 1 }) }));
+    expect(audioProcessor.finalizeStream).toHaveBeenCalledWith('pipeline-timeout');
+  });
+
+  it('should keep statistics when the output stream fails to finalize', async () => {
+    await pipeline.startSession('pipeline-save-error', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 44100,
+    });
+    audioProcessor.finalizeStream.mockImplementation(() => Promise.reject(new Error('ENOSPC')));
+
+    const completed = new Promise(resolve => pipeline.once('sessionComplete', resolve));
+    sendPacket(createTestAudioPacket('pipeline-save-error', 0, true));
+    await completed;
+
+    const result = await pipeline.endSession('pipeline-save-error');
+    expect(result.statistics?.totalPackets).toBe(1);
+  });
+
+  it('should end a session over its memory limit and keep its statistics for SESSION_END', async () => {
+    await pipeline.startSession('pipeline-memory', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 44100,
+    });
+    jest.spyOn(pipeline['memoryManager'], 'canAllocate').mockReturnValue(false);
+
+    const completed = new Promise<unknown[]>(resolve => pipeline.once('sessionComplete', (...args: unknown[]) => resolve(args)));
+    sendPacket(createTestAudioPacket('pipeline-memory', 0, true));
+    const [sessionId, , reason] = await completed;
+
+    expect([sessionId, reason]).toEqual(['pipeline-memory', 'ERROR']);
+    expect(audioProcessor.processChunk).not.toHaveBeenCalled();
+    const result = await pipeline.endSession('pipeline-memory');
+    expect(result.statistics?.totalPackets).toBe(1);
+  });
+
+  it('should tear down a session immediately on endSession', async () => {
+    await pipeline.startSession('pipeline-4', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 44100,
+    });
+
+    const result = await pipeline.endSession('pipeline-4');
+
+    expect(result.statistics?.totalPackets).toBe(0);
+    expect(audioProcessor.finalizeStream).toHaveBeenCalledWith('pipeline-4');
+    expect(pipeline.getActiveSessions()).toEqual([]);
+  });
+
+  it('should drop queued audio on cancel but keep statistics for SESSION_END', async () => {
+    await pipeline.startSession('pipeline-cancel', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 44100,
+    });
+
+    await pipeline.cancelSession('pipeline-cancel');
+
+    expect(pipeline.hasSession('pipeline-cancel')).toBe(false);
+    const result = await pipeline.endSession('pipeline-cancel');
+    expect(result.statistics?.totalPackets).toBe(0);
+  });
+
+  it('should forward subtitle events to registered displays', async () => {
+    const display: SubtitleDisplay = {
+      show: jest.fn(),
+      hide: jest.fn(),
+    };
+    pipeline.addSubtitleDisplay(display);
+
+    const showListener = jest.fn();
+    pipeline.on('showSubtitle', showListener);
+
+    const subtitle: SubtitleData = { text: 'Hello', startTime: 0, endTime: 500, ttsOffset: 0 };
+    // Subtitle timing is driven by the sync manager
+    pipeline['syncManager'].emit('showSubtitle', 'pipeline-5', subtitle);
+    pipeline['syncManager'].emit('hideSubtitle', 'pipeline-5', subtitle);
+
+    expect(display.show).toHaveBeenCalledWith('pipeline-5', subtitle);
+    expect(display.hide).toHaveBeenCalledWith('pipeline-5', subtitle);
+    expect(showListener).toHaveBeenCalledWith('pipeline-5', subtitle);
+  });
+
+  it('should report retransmissions as recovered or late against their playout deadline', async () => {
+    await pipeline.startSession('pipeline-6', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 44100,
+    });
+
+    const outcomes: string[] = [];
+    pipeline.on('lossRecovery', (outcome: string) => outcomes.push(outcome));
+
+    const first = createTestAudioPacket('pipeline-6', 0, false);
+    const sync = { ttsGenerated: first.timestamp, packetSent: first.timestamp, packetReceived: Date.now(), scheduledPlayback: 0 };
+    const network = { avgLatency: 0, jitterMs: 0, packetLoss: 0, bandwidth: 0 };
+    const udpServer = pipeline['udpServer'];
+    udpServer.emit('audioPacket', first, sync, network, { recovery: null });
+    udpServer.emit('audioPacket', createTestAudioPacket('pipeline-6', 1, false), sync, network, { recovery: 'retransmission' });
+    udpServer.emit('audioPacket', createTestAudioPacket('pipeline-6', 2, false), sync, network, { recovery: 'fec' });
+    udpServer.emit('audioPacket', { ...first, sequenceNumber: 3, playbackTime: first.timestamp - 1000 }, sync, network, {
+      recovery: 'retransmission',
+    });
+    udpServer.emit('packetsLost', 'pipeline-6', 2);
+
+    expect(outcomes).toEqual(['recovered', 'fec', 'late', 'lost']);
+  });
+
+  it('should play RTP sessions through the same path and drain them on RTCP BYE', async () => {
+    await pipeline.startSession('pipeline-rtp', {
+      remoteAddress: '127.0.0.1',
+      remotePort: 9001,
+      format: 'pcm',
+      sampleRate: 16000,
+      transport: 'rtp',
+    });
+    const port = Number(pipeline.getRtpEndpoint()!.split(':')[1]);
+
+    // 20ms of 16 kHz L16 per packet, the first sample of each carrying its index
+    for (let i = 0; i < 3; i++) {
+      const payload = Buffer.alloc(640);
+      payload.writeInt16BE(i * 8192, 0);
+      client.send(encodeRtpPacket({
+        marker: i === 0, payloadType: 96, sequenceNumber: 65534 + i, timestamp: i * 320, ssrc: 0xabc, payload,
+      }), port, '127.0.0.1');
+    }
+    await waitFor(() => audioProcessor.processChunk.mock.calls.length === 3);
+    // BYE multiplexed on the RTP port
+    client.send(Buffer.from([0x81, 203, 0x00, 0x01, 0x00, 0x00, 0x0a, 0xbc]), port, '127.0.0.1');
+    await waitFor(() => audioProcessor.finalizeStream.mock.calls.length > 0);
+
+    const played = audioProcessor.processChunk.mock.calls.map(call => (call[1] as Buffer).readFloatLE(0));
+    expect(played).toEqual([0, 0.25, 0.5]);
+    expect(audioProcessor.finalizeStream).toHaveBeenCalledWith('pipeline-rtp');
+
+    const result = await pipeline.endSession('pipeline-rtp');
+    expect(result.statistics).toEqual(expect.objectContaining({ totalPackets: 3, lostPackets: 0 }));
+  });
+
+  it('should ignore packets for sessions it did not start', async () => {
+    sendPacket(createTestAudioPacket('unknown-session', 0, false));
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(audioProcessor.processChunk).not.toHaveBeenCalled();
+  });
+});
+
+// Helper functions
+function createTestAudioPacket(sessionId: string, sequenceNumber: number, isLast: boolean): AudioPacket {
+  const now = Date.now();
+  return {
+    sessionId,
+    sequenceNumber,
+    timestamp: now,
+    playbackTime: now + sequenceNumber * 20,
+    audioData: Buffer.from('test-audio-data-' + sequenceNumber),
+    format: AudioFormat.PCM,
+    sampleRate: 44100,
+    isLast
+  };
+}
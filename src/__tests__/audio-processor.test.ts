@@ -185,6 +185,46 @@ describe('AudioProcessor - Audio Streaming Behavior', () => {
     });
   });
 
+  describe('Stream Abort', () => {
+    it('should close speaker outputs with a flush instead of playing out', async () => {
+      const sessionId = 'test-session-123';
+      const mockClose = jest.fn();
+      const mockEnd = jest.fn();
+
+      const stream = await audioProcessor.createStream(sessionId, 'pcm', 44100);
+      stream.output = { close: mockClose, end: mockEnd } as unknown as Writable;
+
+      await audioProcessor.abortStream(sessionId);
+
+      expect(mockClose).toHaveBeenCalledWith(true);
+      expect(mockEnd).not.toHaveBeenCalled();
+    });
+
+    it('should kill child process outputs', async () => {
+      const sessionId = 'test-session-123';
+      const mockKill = jest.fn();
+
+      const stream = await audioProcessor.createStream(sessionId, 'pcm', 44100);
+      stream.output = { kill: mockKill } as Partial<ChildProcess> as ChildProcess;
+
+      await audioProcessor.abortStream(sessionId);
+
+      expect(mockKill).toHaveBeenCalled();
+    });
+
+    it('should not save aborted audio to file', async () => {
+      const fs = await import('fs');
+      audioProcessor = new AudioProcessor({ ...mockConfig, saveToFile: true }, mockMemoryManager);
+
+      await audioProcessor.createStream('session-1', 'pcm', 44100);
+      await audioProcessor.processChunk('session-1', Buffer.from('audio'), 'pcm');
+      await audioProcessor.abortStream('session-1');
+
+      expect(fs.promises.writeFile).not.toHaveBeenCalled();
+      await expect(audioProcessor.processChunk('session-1', Buffer.from('audio'), 'pcm')).rejects.toThrow();
+    });
+  });
+
   describe('Output Type Behavior', () => {
     it('should create speaker output for PCM format', async () => {
       const mockSpeaker = jest.mocked(Speaker);
@@ -307,6 +347,30 @@ describe('AudioProcessor - Audio Streaming Behavior', () => {
       ).rejects.toThrow('Audio device not found');
     });
 
+    it('should report the output device unavailable until an output opens again', async () => {
+      const mockSpeaker = jest.mocked(Speaker);
+      mockSpeaker.mockImplementationOnce(() => {
+        throw new Error('Audio device not found');
+      });
+
+      await expect(audioProcessor.createStream('session-1', 'pcm', 44100)).rejects.toThrow();
+      expect(audioProcessor.getOutputStatus()).toEqual({
+        type: 'speaker',
+        device: null,
+        available: false,
+        openOutputs: 0,
+        lastError: 'Audio device not found',
+        lastErrorAt: expect.any(Number),
+      });
+
+      await audioProcessor.createStream('session-2', 'pcm', 44100);
+      expect(audioProcessor.getOutputStatus()).toEqual(expect.objectContaining({
+        available: true,
+        openOutputs: 1,
+        lastError: null,
+      }));
+    });
+
     it('should handle write errors gracefully', async () => {
       const sessionId = 'test-session-123';
       const audioData = Buffer.from('test-audio-data');
@@ -1,20 +1,59 @@
 import { jest } from '@jest/globals';
 import { AudioReceiver } from '../index';
-import { createClient } from 'redis';
+import { createClient, createCluster } from 'redis';
 import express, { Request, Response } from 'express';
+import { config } from '../config';
+import { RedisStreamConsumer } from '../stream-consumer';
+import { deriveSessionKey } from '../packet-codec';
+import { logger } from '../logger';
+import {
+  audioLatency,
+  audioChunkSequenceEvents,
+  redisMessagesRejected,
+  deadLetterMessages,
+  voiceServiceHealth,
+  voiceServiceUptime,
+  sessionIllegalTransitions,
+} from '../metrics';
 
 // Mock dependencies
 jest.mock('redis');
 jest.mock('../logger');
 jest.mock('../metrics', () => ({
   setupMetrics: jest.fn(),
+  audioLatency: { observe: jest.fn() },
+  voiceServiceHealth: { set: jest.fn() },
+  voiceServiceUptime: { set: jest.fn() },
+  sessionIllegalTransitions: { inc: jest.fn() },
+  audioChunkSequenceEvents: { inc: jest.fn() },
+  redisMessagesRejected: { inc: jest.fn() },
+  deadLetterMessages: { inc: jest.fn() },
+  udpPacketsRejected: { inc: jest.fn() },
+  udpAuthFailures: { inc: jest.fn() },
+  udpNacksSent: { inc: jest.fn() },
+  udpPacketRecovery: { inc: jest.fn() },
+  udpIncompleteFrames: { inc: jest.fn() },
+  udpSourceViolations: { inc: jest.fn() },
+  udpSourceRebinds: { inc: jest.fn() },
+  rtpReceiverReports: { inc: jest.fn() },
+  tcpAudioConnections: { set: jest.fn() },
+  udpSessionTimeouts: { inc: jest.fn() },
 }));
 jest.mock('../audio-processor', () => ({
   AudioProcessor: jest.fn().mockImplementation(() => ({
     createStream: jest.fn(),
     processChunk: jest.fn(),
     finalizeStream: jest.fn(),
+    abortStream: jest.fn(() => Promise.resolve()),
     cleanup: jest.fn(),
+    getOutputStatus: jest.fn(() => ({
+      type: 'speaker',
+      device: null,
+      available: true,
+      openOutputs: 0,
+      lastError: null,
+      lastErrorAt: null,
+    })),
   }))
 }));
 jest.mock('../resilience', () => ({
@@ -23,9 +62,49 @@ jest.mock('../resilience', () => ({
     scheduleReconnect: jest.fn(),
     handleError: jest.fn(),
     resetRetryCount: jest.fn(),
+    getCircuitState: jest.fn(() => 'CLOSED'),
     getMetrics: jest.fn(),
   }))
 }));
+jest.mock('../audio-pipeline', () => ({
+  AudioPipeline: jest.fn().mockImplementation(() => ({
+    start: jest.fn(() => Promise.resolve()),
+    stop: jest.fn(() => Promise.resolve()),
+    on: jest.fn(),
+    addSubtitleDisplay: jest.fn(),
+    startSession: jest.fn(() => Promise.resolve()),
+    getAuthFailures: jest.fn(() => []),
+    rotateSessionKey: jest.fn(() => true),
+    endSession: jest.fn(() => Promise.resolve({
+      statistics: {
+        totalPackets: 10,
+        lostPackets: 1,
+        avgLatency: 12,
+        jitterMs: 3,
+        audioDuration: 1000,
+        startTime: 1,
+        endTime: 1001,
+      },
+      droppedChunks: 0,
+    })),
+    getEndpoint: jest.fn(() => 'receiver.local:8001'),
+    getMulticastEndpoint: jest.fn(() => '239.10.0.1:8001'),
+    getRtpEndpoint: jest.fn(() => 'receiver.local:5004'),
+    getTcpEndpoint: jest.fn(() => 'receiver.local:8002'),
+    getBufferSize: jest.fn(() => 100),
+    getActiveSessions: jest.fn(() => []),
+    hasSession: jest.fn(() => false),
+    cancelSession: jest.fn(() => Promise.resolve()),
+  })),
+  LoggingSubtitleDisplay: jest.fn(),
+}));
+jest.mock('../stream-consumer', () => ({
+  RedisStreamConsumer: jest.fn().mockImplementation(() => ({
+    start: jest.fn(() => Promise.resolve()),
+    stop: jest.fn(() => Promise.resolve()),
+    on: jest.fn(),
+  }))
+}));
 jest.mock('express', () => {
   const mockApp = {
     use: jest.fn(),
@@ -43,13 +122,62 @@ jest.mock('express', () => {
 jest.mock('../config', () => ({
   config: {
     redis: {
+      mode: 'standalone',
       host: 'localhost',
       port: 6379,
       get password(): string | undefined { return process.env.REDIS_PASSWORD; },
+      tls: { enabled: false, rejectUnauthorized: true },
+      sentinel: { masterName: 'mymaster', nodes: [] },
+      cluster: { nodes: [] },
     },
     channels: {
       responses: 'chip.voice.responses',
       health: 'chip.health.*',
+      sessions: 'chip.sessions',
+      sessionReplies: 'chip.sessions.replies',
+    },
+    udp: {
+      port: 8001,
+      enabled: true,
+      bindAddress: '0.0.0.0',
+      socket: { ipv6Only: false, reuseAddr: false },
+      receiverId: 'receiver-1',
+      advertisedHost: 'receiver.local',
+      acceptLegacyPackets: false,
+      requireAuth: false,
+      requireEncryption: false,
+      keyGraceMs: 5000,
+      nack: { enabled: false, retryIntervalMs: 40, maxRetries: 3, maxWaitMs: 250 },
+      fecEnabled: true,
+      reassembly: { timeoutMs: 200, maxBytes: 4194304 },
+      inactivity: { idleTimeoutMs: 30000, firstPacketTimeoutMs: 10000 },
+      sourcePolicy: 'address',
+      rtp: { enabled: true, port: 5004, payloadTypes: {}, reportIntervalMs: 5000 },
+      tcp: { enabled: true, port: 8002, maxFrameBytes: 1048576, maxConnections: 64, idleTimeoutMs: 30000, preferred: false },
+    },
+    ingestion: {
+      mode: 'pubsub',
+      streamKey: 'chip.voice.responses.stream',
+      consumerGroup: 'audio-receivers',
+      consumerName: 'receiver-1',
+      batchSize: 10,
+      blockMs: 1000,
+      claimIdleMs: 30000,
+      reorderWindow: 4,
+      reorderTimeoutMs: 50,
+    },
+    deadLetter: {
+      get mode(): string { return process.env.DEAD_LETTER_MODE || 'off'; },
+      channel: 'chip.voice.deadletter',
+      streamKey: 'chip.voice.deadletter.stream',
+      maxStreamLength: 1000,
+      maxPayloadBytes: 64,
+    },
+    dependencies: {
+      services: ['voice'],
+      heartbeatIntervalMs: 5000,
+      degradedAfterMissed: 2,
+      downAfterMissed: 4,
     },
     metrics: {
       enabled: true,
@@ -67,6 +195,9 @@ jest.mock('../config', () => ({
       reconnectMaxAttempts: 10,
       reconnectBaseDelay: 1000,
       reconnectMaxDelay: 30000,
+      healthCheckInterval: 5000,
+      interruptedStreamPolicy: 'finalize',
+      interruptedStreamGraceMs: 10000,
     },
     logging: {
       level: 'info',
@@ -83,6 +214,7 @@ describe('AudioReceiver - Server Connection Behavior', () => {
   let mockConnect: jest.Mock;
   let mockSubscribe: jest.Mock;
   let mockDisconnect: jest.Mock;
+  let mockPublish: jest.Mock;
   let originalExit: typeof process.exit;
 
   beforeEach(() => {
@@ -96,6 +228,7 @@ describe('AudioReceiver - Server Connection Behavior', () => {
     mockConnect = jest.fn(() => Promise.resolve());
     mockSubscribe = jest.fn(() => Promise.resolve());
     mockDisconnect = jest.fn(() => Promise.resolve());
+    mockPublish = jest.fn(() => Promise.resolve(1));
     
     mockRedisClient = {
       connect: mockConnect,
@@ -103,6 +236,8 @@ describe('AudioReceiver - Server Connection Behavior', () => {
       pSubscribe: jest.fn(() => Promise.resolve()),
       unsubscribe: jest.fn(() => Promise.resolve()),
       disconnect: mockDisconnect,
+      publish: mockPublish,
+      duplicate: jest.fn(() => mockRedisClient),
       on: jest.fn().mockReturnThis(),
       off: jest.fn().mockReturnThis(),
       isOpen: true,
@@ -131,6 +266,7 @@ describe('AudioReceiver - Server Connection Behavior', () => {
         socket: {
           host: 'localhost',
           port: 6379,
+          reconnectStrategy: false,
         },
         password: undefined,
       });
@@ -142,7 +278,8 @@ describe('AudioReceiver - Server Connection Behavior', () => {
 
       expect(mockSubscribe).toHaveBeenCalledWith('chip.voice.responses', expect.any(Function));
       expect(mockSubscribe).toHaveBeenCalledWith('chip.health.*', expect.any(Function));
-      expect(mockSubscribe).toHaveBeenCalledTimes(2);
+      expect(mockSubscribe).toHaveBeenCalledWith('chip.sessions', expect.any(Function));
+      expect(mockSubscribe).toHaveBeenCalledTimes(3);
     });
 
     it('should handle Redis connection errors', async () => {
@@ -162,21 +299,113 @@ describe('AudioReceiver - Server Connection Behavior', () => {
       expect(errorHandler).toHaveBeenCalledWith(testError);
     });
 
-    it('should handle Redis disconnection and attempt reconnection', async () => {
-      let disconnectHandler: () => void;
-      mockRedisClient.on.mockImplementation((event: string, handler: (...args: unknown[]) => void) => {
-        if (event === 'disconnect') {
-          disconnectHandler = handler;
+    // Clients do not reconnect by themselves, so a lost connection is an error on a closed client
+    function dropConnection(): void {
+      const handlers = (event: string): ((...args: unknown[]) => void)[] => mockRedisClient.on.mock.calls
+        .filter(([name]: [string]) => name === event)
+        .map(([, handler]: [string, (...args: unknown[]) => void]) => handler);
+
+      handlers('ready').forEach(handler => handler());
+      mockRedisClient.isOpen = false;
+      handlers('error').forEach(handler => handler(new Error('Socket closed unexpectedly')));
+    }
+
+    it('should schedule a reconnect when a ready connection is lost', async () => {
+      await audioReceiver.start();
+
+      dropConnection();
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const resilienceManager = (audioReceiver as any).resilienceManager;
+      expect(resilienceManager.scheduleReconnect).toHaveBeenCalledWith(expect.any(Function));
+    });
+
+    it('should not reconnect on errors that leave the connection open', async () => {
+      await audioReceiver.start();
+
+      mockRedisClient.on.mock.calls
+        .filter(([event]: [string]) => event === 'error')
+        .forEach(([, handler]: [string, (error: Error) => void]) => handler(new Error('READONLY')));
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((audioReceiver as any).resilienceManager.scheduleReconnect).not.toHaveBeenCalled();
+    });
+
+    it('should schedule a reconnect when a cluster node connection fails', async () => {
+      config.redis.mode = 'cluster';
+      const mockCluster = { ...mockRedisClient, masters: [], on: jest.fn() };
+      mockCluster.duplicate = jest.fn(() => ({ ...mockCluster, on: jest.fn() }));
+      jest.mocked(createCluster).mockReturnValue(mockCluster as unknown as ReturnType<typeof createCluster>);
+
+      try {
+        await audioReceiver.start();
+
+        // The cluster client stays open and never emits 'ready'; it forwards the node's error
+        const errorHandlers: ((error: Error) => void)[] = mockCluster.on.mock.calls
+          .filter(([event]: [string]) => event === 'error')
+          .map(([, handler]: [string, (error: Error) => void]) => handler);
+        errorHandlers.forEach(handler => handler(new Error('Socket closed unexpectedly')));
+        errorHandlers.forEach(handler => handler(new Error('Socket closed unexpectedly')));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const resilienceManager = (audioReceiver as any).resilienceManager;
+        expect(createCluster).toHaveBeenCalled();
+        expect(resilienceManager.scheduleReconnect).toHaveBeenCalledTimes(1);
+      } finally {
+        config.redis.mode = 'standalone';
+      }
+    });
+
+    it('should resubscribe and finalize interrupted streams after reconnecting', async () => {
+      let messageHandler: ((message: string) => void) | undefined;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (mockSubscribe as any).mockImplementation((channel: string, handler: (message: string) => void) => {
+        if (channel === 'chip.voice.responses') {
+          messageHandler = handler;
         }
+        return Promise.resolve();
       });
 
       await audioReceiver.start();
 
-      // Simulate disconnection
-      disconnectHandler!();
+      await messageHandler!(JSON.stringify({
+        id: 'msg-reconnect',
+        type: 'AUDIO_OUTPUT',
+        service: 'cartesia',
+        sessionId: 'session-cut',
+        timestamp: new Date().toISOString(),
+        data: {
+          audio: Buffer.from('first-chunk').toString('base64'),
+          format: 'pcm',
+        },
+        metadata: {
+          sampleRate: 44100,
+          isFirst: true,
+          isFinal: false,
+        },
+      }));
+
+      dropConnection();
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const resilienceManager = (audioReceiver as any).resilienceManager;
+      expect(resilienceManager.scheduleReconnect).toHaveBeenCalledWith(expect.any(Function));
+      const reconnect = resilienceManager.scheduleReconnect.mock.calls[0][0];
+      mockRedisClient.isOpen = true;
+      await reconnect();
 
-      // Verify reconnection is scheduled (through resilience manager)
-      expect(mockRedisClient.on).toHaveBeenCalledWith('disconnect', expect.any(Function));
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockAudioProcessor = (audioReceiver as any).audioProcessor;
+      expect(mockSubscribe).toHaveBeenCalledTimes(6);
+      expect(mockAudioProcessor.finalizeStream).toHaveBeenCalledWith('session-cut');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((audioReceiver as any).streamReconciler.getStatus()).toEqual(
+        expect.objectContaining({
+          policy: 'finalize',
+          reconnects: 1,
+          streams: [expect.objectContaining({ sessionId: 'session-cut', outcome: 'finalized' })],
+        })
+      );
     });
 
     it('should reset retry count on successful connection', async () => {
@@ -253,6 +482,68 @@ describe('AudioReceiver - Server Connection Behavior', () => {
       // Send message with missing required fields
       expect(() => messageHandler!('{}')).not.toThrow();
     });
+
+    it('should reject AUDIO_OUTPUT without metadata before touching the output', async () => {
+      let messageHandler: ((message: string) => void) | undefined;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (mockSubscribe as any).mockImplementation((channel: string, handler: (message: string) => void) => {
+        if (channel === 'chip.voice.responses') {
+          messageHandler = handler;
+        }
+        return Promise.resolve();
+      });
+
+      await audioReceiver.start();
+
+      messageHandler!(JSON.stringify({
+        id: 'msg-no-metadata',
+        type: 'AUDIO_OUTPUT',
+        service: 'cartesia',
+        sessionId: 'session-123',
+        timestamp: new Date().toISOString(),
+        data: {
+          audio: Buffer.from('test audio').toString('base64'),
+          format: 'pcm',
+        },
+      }));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockAudioProcessor = (audioReceiver as any).audioProcessor;
+      expect(mockAudioProcessor.createStream).not.toHaveBeenCalled();
+      expect(redisMessagesRejected.inc).toHaveBeenCalledWith({
+        channel: 'chip.voice.responses',
+        reason: 'invalid_schema',
+      });
+    });
+
+    it('should reject messages from an unsupported major protocol version', async () => {
+      let messageHandler: ((message: string) => void) | undefined;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (mockSubscribe as any).mockImplementation((channel: string, handler: (message: string) => void) => {
+        if (channel === 'chip.voice.responses') {
+          messageHandler = handler;
+        }
+        return Promise.resolve();
+      });
+
+      await audioReceiver.start();
+
+      messageHandler!(JSON.stringify({
+        version: '2.0',
+        id: 'msg-v2',
+        type: 'STATUS',
+        service: 'cartesia',
+        sessionId: 'session-123',
+        timestamp: new Date().toISOString(),
+        data: { status: 'QUEUED' },
+      }));
+
+      expect(redisMessagesRejected.inc).toHaveBeenCalledWith({
+        channel: 'chip.voice.responses',
+        reason: 'unsupported_version',
+      });
+    });
   });
 
   describe('Health Monitoring', () => {
@@ -329,6 +620,126 @@ describe('AudioReceiver - Server Connection Behavior', () => {
     });
   });
 
+  describe('Heartbeat Publishing', () => {
+    function publishedHeartbeats(): Array<Record<string, unknown>> {
+      return mockPublish.mock.calls
+        .filter((call: unknown[]) => call[0] === 'chip.health.*')
+        .map((call: unknown[]) => JSON.parse(call[1] as string));
+    }
+
+    it('should announce itself on the health channel once connected', async () => {
+      await audioReceiver.start();
+
+      const [heartbeat] = publishedHeartbeats();
+      expect(heartbeat).toEqual({
+        service: 'audio-receiver',
+        status: 'healthy',
+        timestamp: expect.any(Number),
+        details: {
+          uptime: expect.any(Number),
+          memoryUsage: 0,
+          memoryLimit: expect.any(Number),
+          activeRequests: 0,
+          activeStreams: 0,
+          circuitState: 'CLOSED',
+          outputDevice: expect.objectContaining({ type: 'speaker', available: true }),
+        },
+      });
+    });
+
+    it('should publish on the configured health check interval', async () => {
+      jest.useFakeTimers();
+      try {
+        await audioReceiver.start();
+        const initial = publishedHeartbeats().length;
+
+        jest.advanceTimersByTime(10000);
+
+        expect(publishedHeartbeats().length).toBe(initial + 2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should report unhealthy while the circuit breaker is open', async () => {
+      await audioReceiver.start();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (audioReceiver as any).resilienceManager.getCircuitState.mockReturnValue('OPEN');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (audioReceiver as any).publishHeartbeat();
+
+      const heartbeats = publishedHeartbeats();
+      expect(heartbeats[heartbeats.length - 1]).toEqual(expect.objectContaining({ status: 'unhealthy' }));
+    });
+  });
+
+  describe('Dependency Health', () => {
+    let healthHandler: ((message: string) => void) | undefined;
+
+    beforeEach(async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (mockSubscribe as any).mockImplementation((channel: string, handler: (message: string) => void) => {
+        if (channel === 'chip.health.*') {
+          healthHandler = handler;
+        }
+        return Promise.resolve();
+      });
+
+      await audioReceiver.start();
+    });
+
+    function getHealthResponse(): Record<string, unknown> {
+      const mockApp = jest.mocked(express)();
+      const getMock = mockApp.get as jest.Mock;
+      const getCall = getMock.mock.calls.find((call: unknown[]) => call[0] === '/health');
+      const handler = getCall![1] as (req: Request, res: Response) => void;
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      };
+      handler({} as unknown as Request, mockRes as unknown as Response);
+      return mockRes.json.mock.calls[0][0] as Record<string, unknown>;
+    }
+
+    it('should drive the voice service gauges from heartbeats', () => {
+      healthHandler!(JSON.stringify({
+        service: 'voice',
+        status: 'healthy',
+        timestamp: Date.now(),
+        details: { uptime: 120000, memoryUsage: 0, activeRequests: 1 },
+      }));
+
+      expect(voiceServiceHealth.set).toHaveBeenCalledWith(1);
+      expect(voiceServiceUptime.set).toHaveBeenCalledWith(120);
+    });
+
+    it('should report dependency states in /health', () => {
+      healthHandler!(JSON.stringify({
+        service: 'voice',
+        status: 'unhealthy',
+        timestamp: Date.now(),
+        details: { uptime: 1000, memoryUsage: 0, activeRequests: 0 },
+      }));
+
+      expect(getHealthResponse().dependencies).toEqual({
+        voice: expect.objectContaining({ state: 'degraded', missedHeartbeats: 0 }),
+      });
+      expect(voiceServiceHealth.set).toHaveBeenCalledWith(0.5);
+    });
+
+    it('should not track its own heartbeats as a dependency', () => {
+      healthHandler!(JSON.stringify({
+        service: 'audio-receiver',
+        status: 'healthy',
+        timestamp: Date.now(),
+        details: { uptime: 1000, memoryUsage: 0, activeRequests: 0 },
+      }));
+
+      expect(Object.keys(getHealthResponse().dependencies as object)).toEqual(['voice']);
+    });
+  });
+
   describe('Graceful Shutdown', () => {
     it('should prepare for graceful shutdown on start', async () => {
       await audioReceiver.start();
@@ -360,6 +771,22 @@ describe('AudioReceiver - Server Connection Behavior', () => {
       exitSpy.mockRestore();
     });
 
+    it('should publish a final unhealthy heartbeat before disconnecting', async () => {
+      await audioReceiver.start();
+      mockPublish.mockClear();
+      const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const sigintHandler = process.listeners('SIGINT')[process.listeners('SIGINT').length - 1] as any;
+      await sigintHandler('SIGINT');
+
+      expect(mockPublish).toHaveBeenCalledWith('chip.health.*', expect.any(String));
+      const heartbeat = JSON.parse(mockPublish.mock.calls[0][1] as string);
+      expect(heartbeat).toEqual(expect.objectContaining({ service: 'audio-receiver', status: 'unhealthy' }));
+
+      exitSpy.mockRestore();
+    });
+
     it('should handle cleanup errors gracefully', async () => {
       await audioReceiver.start();
 
@@ -429,6 +856,7 @@ describe('AudioReceiver - Server Connection Behavior', () => {
         socket: {
           host: 'localhost',
           port: 6379,
+          reconnectStrategy: false,
         },
         password: 'test-password',
       });
@@ -624,4 +1052,849 @@ describe('AudioReceiver - Server Connection Behavior', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Session Lifecycle', () => {
+    let messageHandler: ((message: string) => Promise<void>) | undefined;
+
+    beforeEach(async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (mockSubscribe as any).mockImplementation((channel: string, handler: (message: string) => Promise<void>) => {
+        if (channel === 'chip.voice.responses') {
+          messageHandler = handler;
+        }
+        return Promise.resolve();
+      });
+
+      await audioReceiver.start();
+    });
+
+    function statusMessage(sessionId: string, status: string, percentage?: number): string {
+      return JSON.stringify({
+        id: `status-${status}`,
+        type: 'STATUS',
+        service: 'voice',
+        sessionId,
+        timestamp: new Date().toISOString(),
+        data: {
+          status,
+          progress: percentage === undefined ? undefined : { current: percentage, total: 100, percentage },
+        },
+      });
+    }
+
+    function audioMessage(sessionId: string, isFirst: boolean): string {
+      return JSON.stringify({
+        id: `audio-${isFirst ? 'first' : 'next'}`,
+        type: 'AUDIO_OUTPUT',
+        service: 'cartesia',
+        sessionId,
+        timestamp: new Date().toISOString(),
+        data: {
+          audio: Buffer.from('chunk').toString('base64'),
+          format: 'pcm',
+        },
+        metadata: {
+          sampleRate: 44100,
+          isFirst,
+          isFinal: false,
+        },
+      });
+    }
+
+    it('should track status transitions with progress', async () => {
+      await messageHandler!(statusMessage('session-life', 'queued'));
+      await messageHandler!(statusMessage('session-life', 'processing', 10));
+      await messageHandler!(statusMessage('session-life', 'processing', 40));
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const lifecycle = (audioReceiver as any).sessionLifecycle.getSession('session-life');
+      expect(lifecycle.state).toBe('processing');
+      expect(lifecycle.progress).toBe(40);
+      expect(lifecycle.transitions.map((t: { state: string }) => t.state)).toEqual(['queued', 'processing']);
+    });
+
+    it('should stop and flush audio immediately when a session is cancelled', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockAudioProcessor = (audioReceiver as any).audioProcessor;
+
+      await messageHandler!(statusMessage('session-cancel', 'streaming'));
+      await messageHandler!(audioMessage('session-cancel', true));
+      await messageHandler!(statusMessage('session-cancel', 'cancelled'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockAudioProcessor.abortStream).toHaveBeenCalledWith('session-cancel');
+      expect(mockAudioProcessor.finalizeStream).not.toHaveBeenCalled();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((audioReceiver as any).activeStreams.has('session-cancel')).toBe(false);
+
+      // Chunks still in flight for the cancelled utterance are dropped
+      mockAudioProcessor.processChunk.mockClear();
+      await messageHandler!(audioMessage('session-cancel', false));
+      expect(mockAudioProcessor.processChunk).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the UDP pipeline session', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const audioPipeline = (audioReceiver as any).audioPipeline;
+      audioPipeline.hasSession.mockReturnValue(true);
+
+      await messageHandler!(statusMessage('session-udp', 'cancelled'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(audioPipeline.cancelSession).toHaveBeenCalledWith('session-udp');
+    });
+
+    it('should log and count illegal transitions', async () => {
+      await messageHandler!(statusMessage('session-illegal', 'completed'));
+      await messageHandler!(statusMessage('session-illegal', 'streaming'));
+
+      expect(sessionIllegalTransitions.inc).toHaveBeenCalledWith({ from: 'completed', to: 'streaming' });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((audioReceiver as any).sessionLifecycle.getState('session-illegal')).toBe('completed');
+    });
+
+    it('should count transitions to unknown statuses under a single label', async () => {
+      await messageHandler!(statusMessage('session-unknown', 'queued'));
+      await messageHandler!(statusMessage('session-unknown', 'warming-up-7f3a'));
+
+      expect(sessionIllegalTransitions.inc).toHaveBeenCalledWith({ from: 'queued', to: 'unknown' });
+    });
+  });
+
+  describe('Latency Tracking', () => {
+    let messageHandler: ((message: string) => Promise<void>) | undefined;
+
+    beforeEach(async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (mockSubscribe as any).mockImplementation((channel: string, handler: (message: string) => Promise<void>) => {
+        if (channel === 'chip.voice.responses') {
+          messageHandler = handler;
+        }
+        return Promise.resolve();
+      });
+
+      await audioReceiver.start();
+    });
+
+    function audioMessage(isFirst: boolean, isFinal: boolean): string {
+      return JSON.stringify({
+        id: 'msg-latency',
+        type: 'AUDIO_OUTPUT',
+        service: 'cartesia',
+        sessionId: 'session-latency',
+        timestamp: new Date().toISOString(),
+        data: {
+          audio: Buffer.from('chunk').toString('base64'),
+          format: 'pcm',
+        },
+        metadata: {
+          correlationId: 'corr-latency',
+          sampleRate: 44100,
+          isFirst,
+          isFinal,
+        },
+      });
+    }
+
+    function requestTimeline(sessionId: string): { status: jest.Mock; json: jest.Mock } {
+      const mockApp = jest.mocked(express)();
+      const getMock = mockApp.get as jest.Mock;
+      const getCall = getMock.mock.calls.find((call: unknown[]) => call[0] === '/sessions/:id/timeline');
+      const handler = getCall![1] as (req: Request, res: Response) => void;
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      };
+      handler({ params: { id: sessionId } } as unknown as Request, mockRes as unknown as Response);
+      return mockRes;
+    }
+
+    it('should observe time-to-first-audio and total latency', async () => {
+      messageHandler!(audioMessage(true, false));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      messageHandler!(audioMessage(false, true));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(audioLatency.observe).toHaveBeenCalledWith({ format: 'pcm', stage: 'first_audio' }, expect.any(Number));
+      expect(audioLatency.observe).toHaveBeenCalledWith({ format: 'pcm', stage: 'total' }, expect.any(Number));
+    });
+
+    it('should serve the session timeline', async () => {
+      messageHandler!(audioMessage(true, false));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const res = requestTimeline('session-latency');
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        sessionId: 'session-latency',
+        timelines: [expect.objectContaining({
+          correlationId: 'corr-latency',
+          chunks: 1,
+          firstByteAt: expect.any(Number),
+          finalizedAt: null,
+        })],
+      }));
+    });
+
+    it('should return 404 for sessions without a timeline and 400 for invalid IDs', () => {
+      expect(requestTimeline('unknown-session').status).toHaveBeenCalledWith(404);
+      expect(requestTimeline('../etc/passwd').status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('Chunk Sequencing', () => {
+    let messageHandler: ((message: string) => void) | undefined;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let mockAudioProcessor: any;
+
+    beforeEach(async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (mockSubscribe as any).mockImplementation((channel: string, handler: (message: string) => void) => {
+        if (channel === 'chip.voice.responses') {
+          messageHandler = handler;
+        }
+        return Promise.resolve();
+      });
+
+      await audioReceiver.start();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      mockAudioProcessor = (audioReceiver as any).audioProcessor;
+    });
+
+    function sequencedMessage(sequence: number, isFinal = false, correlationId?: string): string {
+      return JSON.stringify({
+        id: `msg-seq-${sequence}`,
+        type: 'AUDIO_OUTPUT',
+        service: 'cartesia',
+        sessionId: 'session-seq',
+        timestamp: new Date().toISOString(),
+        data: {
+          audio: Buffer.from(`chunk-${sequence}`).toString('base64'),
+          format: 'pcm',
+        },
+        metadata: {
+          sampleRate: 44100,
+          isFirst: sequence === 0,
+          isFinal,
+          sequence,
+          correlationId,
+        },
+      });
+    }
+
+    function playedChunks(): string[] {
+      return mockAudioProcessor.processChunk.mock.calls.map((call: unknown[]) => (call[1] as Buffer).toString());
+    }
+
+    async function settle(ms = 10): Promise<void> {
+      await new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    it('should hold chunks until a late isFirst arrives', async () => {
+      messageHandler!(sequencedMessage(1));
+      messageHandler!(sequencedMessage(2));
+      await settle();
+      expect(mockAudioProcessor.processChunk).not.toHaveBeenCalled();
+
+      messageHandler!(sequencedMessage(0));
+      await settle();
+
+      expect(mockAudioProcessor.createStream).toHaveBeenCalledTimes(1);
+      expect(playedChunks()).toEqual(['chunk-0', 'chunk-1', 'chunk-2']);
+    });
+
+    it('should drop duplicate chunks', async () => {
+      messageHandler!(sequencedMessage(0));
+      messageHandler!(sequencedMessage(1));
+      messageHandler!(sequencedMessage(1));
+      await settle();
+
+      expect(playedChunks()).toEqual(['chunk-0', 'chunk-1']);
+      expect(audioChunkSequenceEvents.inc).toHaveBeenCalledWith({ event: 'duplicate' });
+    });
+
+    it('should report a gap and continue after the reorder timeout', async () => {
+      messageHandler!(sequencedMessage(0));
+      messageHandler!(sequencedMessage(2, true));
+      await settle(100);
+
+      expect(playedChunks()).toEqual(['chunk-0', 'chunk-2']);
+      expect(audioChunkSequenceEvents.inc).toHaveBeenCalledWith({ event: 'lost' }, 1);
+      expect(mockAudioProcessor.finalizeStream).toHaveBeenCalledWith('session-seq');
+    });
+
+    it('should number the next utterance from zero again after a cancel', async () => {
+      function statusMessage(status: string): string {
+        return JSON.stringify({
+          id: `status-${status}`,
+          type: 'STATUS',
+          service: 'voice',
+          sessionId: 'session-seq',
+          timestamp: new Date().toISOString(),
+          data: { status },
+        });
+      }
+
+      await messageHandler!(statusMessage('streaming'));
+      messageHandler!(sequencedMessage(0));
+      messageHandler!(sequencedMessage(1));
+      await settle();
+      await messageHandler!(statusMessage('cancelled'));
+      await settle();
+
+      await messageHandler!(statusMessage('queued'));
+      messageHandler!(sequencedMessage(0));
+      messageHandler!(sequencedMessage(1));
+      await settle();
+
+      expect(playedChunks()).toEqual(['chunk-0', 'chunk-1', 'chunk-0', 'chunk-1']);
+      expect(audioChunkSequenceEvents.inc).not.toHaveBeenCalledWith({ event: 'duplicate' });
+    });
+
+    it('should hold chunks of the next utterance that overtake its first chunk', async () => {
+      messageHandler!(sequencedMessage(0, false, 'utterance-1'));
+      messageHandler!(sequencedMessage(1, false, 'utterance-1'));
+      await settle();
+
+      messageHandler!(sequencedMessage(1, false, 'utterance-2'));
+      messageHandler!(sequencedMessage(0, false, 'utterance-2'));
+      await settle();
+
+      expect(playedChunks()).toEqual(['chunk-0', 'chunk-1', 'chunk-0', 'chunk-1']);
+      expect(audioChunkSequenceEvents.inc).not.toHaveBeenCalledWith({ event: 'duplicate' });
+    });
+
+    it('should play unsequenced chunks as they arrive', async () => {
+      messageHandler!(JSON.stringify({
+        id: 'msg-unsequenced',
+        type: 'AUDIO_OUTPUT',
+        service: 'cartesia',
+        sessionId: 'session-plain',
+        timestamp: new Date().toISOString(),
+        data: {
+          audio: Buffer.from('plain').toString('base64'),
+          format: 'pcm',
+        },
+        metadata: {
+          sampleRate: 44100,
+          isFirst: true,
+          isFinal: false,
+        },
+      }));
+      await settle();
+
+      expect(playedChunks()).toEqual(['plain']);
+    });
+  });
+
+  describe('Session Negotiation', () => {
+    let sessionHandler: ((message: string) => Promise<void>) | undefined;
+
+    beforeEach(async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (mockSubscribe as any).mockImplementation((channel: string, handler: (message: string) => Promise<void>) => {
+        if (channel === 'chip.sessions') {
+          sessionHandler = handler;
+        }
+        return Promise.resolve();
+      });
+
+      await audioReceiver.start();
+      // Only session replies matter here, not the startup heartbeat
+      mockPublish.mockClear();
+    });
+
+    it('should prepare the UDP path and reply with SESSION_READY on SESSION_START', async () => {
+      await sessionHandler!(JSON.stringify({
+        type: 'SESSION_START',
+        sessionId: 'udp-session-1',
+        audioStreamPort: 8001,
+        clientEndpoint: '10.0.1.100:9001',
+        expectedFormat: 'pcm',
+        sampleRate: 44100,
+      }));
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const audioPipeline = (audioReceiver as any).audioPipeline;
+      expect(audioPipeline.startSession).toHaveBeenCalledWith('udp-session-1', {
+        remoteAddress: '10.0.1.100',
+        remotePort: 9001,
+        format: 'pcm',
+        sampleRate: 44100,
+        transport: 'udp',
+      });
+
+      expect(mockPublish).toHaveBeenCalledWith('chip.sessions.replies', expect.any(String));
+      const reply = JSON.parse(mockPublish.mock.calls[0][1] as string);
+      expect(reply).toEqual({
+        type: 'SESSION_READY',
+        sessionId: 'udp-session-1',
+        receiverReady: true,
+        udpEndpoint: 'receiver.local:8001',
+        transport: 'udp',
+        bufferSize: 100,
+        encrypted: false,
+        fec: null,
+        multicast: false,
+        receiverId: 'receiver-1',
+      });
+    });
+
+    it('should reject SESSION_START with an invalid client endpoint', async () => {
+      await sessionHandler!(JSON.stringify({
+        type: 'SESSION_START',
+        sessionId: 'udp-session-2',
+        audioStreamPort: 8001,
+        clientEndpoint: 'not-an-endpoint',
+        expectedFormat: 'pcm',
+        sampleRate: 44100,
+      }));
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((audioReceiver as any).audioPipeline.startSession).not.toHaveBeenCalled();
+      const reply = JSON.parse(mockPublish.mock.calls[0][1] as string);
+      expect(reply.type).toBe('SESSION_READY');
+      expect(reply.receiverReady).toBe(false);
+    });
+
+    describe('UDP session negotiation', () => {
+      const sessionStart = (sessionId: string, extra: Record<string, unknown> = {}): string => JSON.stringify({
+        type: 'SESSION_START',
+        sessionId,
+        audioStreamPort: 8001,
+        clientEndpoint: '10.0.1.100:9001',
+        expectedFormat: 'pcm',
+        sampleRate: 44100,
+        ...extra,
+      });
+
+      afterEach(() => {
+        delete config.udp!.authSecret;
+        config.udp!.requireAuth = false;
+        config.udp!.requireEncryption = false;
+        config.udp!.fecEnabled = true;
+        config.udp!.tcp.preferred = false;
+      });
+
+      it('should pass the key sent in SESSION_START to the pipeline', async () => {
+        const key = Buffer.alloc(32, 7);
+
+        await sessionHandler!(sessionStart('udp-auth-1', { authKey: key.toString('base64') }));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        expect((audioReceiver as any).audioPipeline.startSession).toHaveBeenCalledWith('udp-auth-1',
+          expect.objectContaining({ authKey: key }));
+        expect(JSON.parse(mockPublish.mock.calls[0][1] as string).receiverReady).toBe(true);
+      });
+
+      it('should derive the key from UDP_AUTH_SECRET when none is sent', async () => {
+        config.udp!.authSecret = 'a-shared-secret-of-32-characters';
+
+        await sessionHandler!(sessionStart('udp-auth-2'));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        expect((audioReceiver as any).audioPipeline.startSession).toHaveBeenCalledWith('udp-auth-2',
+          expect.objectContaining({ authKey: deriveSessionKey('a-shared-secret-of-32-characters', 'udp-auth-2') }));
+      });
+
+      it('should pass the payload key to the pipeline and acknowledge rotations', async () => {
+        const key = Buffer.alloc(32, 3);
+        const next = Buffer.alloc(32, 4);
+
+        await sessionHandler!(sessionStart('udp-enc-1', {
+          encryption: { algorithm: 'aes-256-gcm', keyId: 0, key: key.toString('base64') },
+        }));
+        await sessionHandler!(JSON.stringify({
+          type: 'SESSION_REKEY',
+          sessionId: 'udp-enc-1',
+          keyId: 1,
+          key: next.toString('base64'),
+        }));
+        await sessionHandler!(JSON.stringify({
+          type: 'SESSION_REKEY',
+          sessionId: 'udp-enc-1',
+          keyId: 2,
+          key: Buffer.alloc(16).toString('base64'),
+        }));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const audioPipeline = (audioReceiver as any).audioPipeline;
+        expect(audioPipeline.startSession).toHaveBeenCalledWith('udp-enc-1', expect.objectContaining({
+          encryption: { algorithm: 'aes-256-gcm', keyId: 0, key },
+        }));
+        expect(audioPipeline.rotateSessionKey).toHaveBeenCalledTimes(1);
+        expect(audioPipeline.rotateSessionKey).toHaveBeenCalledWith('udp-enc-1', 1, next);
+
+        const replies = mockPublish.mock.calls.map(call => JSON.parse(call[1] as string));
+        expect(replies[0]).toEqual(expect.objectContaining({ type: 'SESSION_READY', receiverReady: true, encrypted: true }));
+        expect(replies.slice(1)).toEqual([
+          { type: 'SESSION_REKEYED', sessionId: 'udp-enc-1', keyId: 1, accepted: true, receiverId: 'receiver-1' },
+          { type: 'SESSION_REKEYED', sessionId: 'udp-enc-1', keyId: 2, accepted: false, receiverId: 'receiver-1' },
+        ]);
+      });
+
+      it('should accept offered FEC unless it is disabled', async () => {
+        const fec = { scheme: 'xor', groupSize: 5 };
+
+        await sessionHandler!(sessionStart('udp-fec-1', { fec }));
+        config.udp!.fecEnabled = false;
+        await sessionHandler!(sessionStart('udp-fec-2', { fec }));
+        await sessionHandler!(sessionStart('udp-fec-3', { fec: { scheme: 'rs', groupSize: 5 } }));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const audioPipeline = (audioReceiver as any).audioPipeline;
+        expect(audioPipeline.startSession).toHaveBeenCalledTimes(2);
+        expect(audioPipeline.startSession).toHaveBeenCalledWith('udp-fec-1', expect.objectContaining({ fec }));
+        expect(audioPipeline.startSession).toHaveBeenLastCalledWith('udp-fec-2', expect.objectContaining({ fec: undefined }));
+
+        const replies = mockPublish.mock.calls.map(call => JSON.parse(call[1] as string));
+        expect(replies.filter(reply => reply.type === 'SESSION_READY').map(reply => reply.fec)).toEqual([fec, null]);
+      });
+
+      it('should answer multicast sessions with the group and ignore sessions for other receivers', async () => {
+        await sessionHandler!(sessionStart('udp-mc-1', { multicast: true, receivers: ['receiver-1', 'receiver-2'] }));
+        await sessionHandler!(sessionStart('udp-mc-2', { multicast: true, receivers: ['receiver-2'] }));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const audioPipeline = (audioReceiver as any).audioPipeline;
+        expect(audioPipeline.startSession).toHaveBeenCalledTimes(1);
+        expect(audioPipeline.startSession).toHaveBeenCalledWith('udp-mc-1', expect.objectContaining({ remoteAddress: '10.0.1.100' }));
+
+        const replies = mockPublish.mock.calls.map(call => JSON.parse(call[1] as string));
+        expect(replies).toEqual([expect.objectContaining({
+          type: 'SESSION_READY',
+          sessionId: 'udp-mc-1',
+          udpEndpoint: '239.10.0.1:8001',
+          multicast: true,
+          receiverId: 'receiver-1',
+        })]);
+      });
+
+      it('should refuse plaintext sessions when encryption is required', async () => {
+        config.udp!.requireEncryption = true;
+
+        await sessionHandler!(sessionStart('udp-enc-2'));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        expect((audioReceiver as any).audioPipeline.startSession).not.toHaveBeenCalled();
+        expect(JSON.parse(mockPublish.mock.calls[0][1] as string).receiverReady).toBe(false);
+      });
+
+      it('should refuse sessions with a short key or without one when authentication is required', async () => {
+        await sessionHandler!(sessionStart('udp-auth-3', { authKey: Buffer.alloc(8).toString('base64') }));
+        config.udp!.requireAuth = true;
+        await sessionHandler!(sessionStart('udp-auth-4'));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        expect((audioReceiver as any).audioPipeline.startSession).not.toHaveBeenCalled();
+        const replies = mockPublish.mock.calls.map(call => JSON.parse(call[1] as string));
+        expect(replies.map(reply => [reply.sessionId, reply.receiverReady])).toEqual([
+          ['udp-auth-3', false],
+          ['udp-auth-4', false],
+        ]);
+      });
+
+      it('should hand RTP sessions to the RTP server and refuse them when authentication is required', async () => {
+        await sessionHandler!(sessionStart('rtp-1', { transport: 'rtp', ssrc: 0x1234abcd }));
+        config.udp!.requireAuth = true;
+        await sessionHandler!(sessionStart('rtp-2', { transport: 'rtp' }));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const audioPipeline = (audioReceiver as any).audioPipeline;
+        expect(audioPipeline.startSession).toHaveBeenCalledTimes(1);
+        expect(audioPipeline.startSession).toHaveBeenCalledWith('rtp-1', {
+          remoteAddress: '10.0.1.100',
+          remotePort: 9001,
+          format: 'pcm',
+          sampleRate: 44100,
+          transport: 'rtp',
+          ssrc: 0x1234abcd,
+        });
+
+        const replies = mockPublish.mock.calls.map(call => JSON.parse(call[1] as string));
+        expect(replies).toEqual([
+          expect.objectContaining({ sessionId: 'rtp-1', receiverReady: true, udpEndpoint: 'receiver.local:5004', transport: 'rtp' }),
+          expect.objectContaining({ sessionId: 'rtp-2', receiverReady: false, transport: 'rtp' }),
+        ]);
+      });
+
+      it('should take the first transport offered unless TCP is preferred, and send no parity over TCP', async () => {
+        const fec = { scheme: 'xor', groupSize: 4 };
+        await sessionHandler!(sessionStart('tcp-1', { transports: ['tcp', 'udp'], fec }));
+        await sessionHandler!(sessionStart('tcp-2', { transports: ['udp', 'tcp'] }));
+        config.udp!.tcp.preferred = true;
+        await sessionHandler!(sessionStart('tcp-3', { transports: ['udp', 'tcp'] }));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const audioPipeline = (audioReceiver as any).audioPipeline;
+        expect(audioPipeline.startSession.mock.calls.map((call: unknown[]) => [call[0], (call[1] as { transport: string }).transport]))
+          .toEqual([['tcp-1', 'tcp'], ['tcp-2', 'udp'], ['tcp-3', 'tcp']]);
+        expect(audioPipeline.startSession).toHaveBeenCalledWith('tcp-1', expect.objectContaining({ fec: undefined }));
+
+        const replies = mockPublish.mock.calls.map(call => JSON.parse(call[1] as string));
+        expect(replies).toEqual([
+          expect.objectContaining({ sessionId: 'tcp-1', udpEndpoint: 'receiver.local:8002', transport: 'tcp', fec: null }),
+          expect.objectContaining({ sessionId: 'tcp-2', udpEndpoint: 'receiver.local:8001', transport: 'udp' }),
+          expect.objectContaining({ sessionId: 'tcp-3', udpEndpoint: 'receiver.local:8002', transport: 'tcp' }),
+        ]);
+      });
+
+      it('should fall back to a later offer when an earlier transport is disabled', async () => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const audioPipeline = (audioReceiver as any).audioPipeline;
+        audioPipeline.getTcpEndpoint.mockReturnValue(null);
+
+        await sessionHandler!(sessionStart('tcp-4', { transports: ['tcp', 'udp'] }));
+        await sessionHandler!(sessionStart('tcp-5', { transport: 'tcp' }));
+
+        expect(audioPipeline.startSession).toHaveBeenCalledTimes(1);
+        const replies = mockPublish.mock.calls.map(call => JSON.parse(call[1] as string));
+        expect(replies).toEqual([
+          expect.objectContaining({ sessionId: 'tcp-4', receiverReady: true, transport: 'udp' }),
+          expect.objectContaining({ sessionId: 'tcp-5', receiverReady: false, transport: 'tcp' }),
+        ]);
+      });
+    });
+
+    it('should tear down the session and report statistics on SESSION_END', async () => {
+      await sessionHandler!(JSON.stringify({
+        type: 'SESSION_END',
+        sessionId: 'udp-session-3',
+        reason: 'COMPLETED',
+      }));
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((audioReceiver as any).audioPipeline.endSession).toHaveBeenCalledWith('udp-session-3');
+
+      const reply = JSON.parse(mockPublish.mock.calls[0][1] as string);
+      expect(reply.type).toBe('SESSION_END');
+      expect(reply.reason).toBe('COMPLETED');
+      expect(reply.statistics).toEqual(expect.objectContaining({
+        totalPackets: 10,
+        lostPackets: 1,
+        jitterMs: 3,
+      }));
+    });
+
+    it('should report sessions the pipeline timed out with a TIMEOUT SESSION_END', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const audioPipeline = (audioReceiver as any).audioPipeline;
+      const handler = (event: string): ((...args: unknown[]) => void) =>
+        audioPipeline.on.mock.calls.find((call: unknown[]) => call[0] === event)[1] as (...args: unknown[]) => void;
+
+      handler('sessionComplete')('udp-session-4', { statistics: null, droppedChunks: 0 }, 'COMPLETED');
+      handler('sessionComplete')('udp-session-5', { statistics: null, droppedChunks: 0 }, 'TIMEOUT');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(audioPipeline.endSession).toHaveBeenCalledTimes(1);
+      expect(audioPipeline.endSession).toHaveBeenCalledWith('udp-session-5');
+      expect(mockPublish).toHaveBeenCalledTimes(1);
+      const reply = JSON.parse(mockPublish.mock.calls[0][1] as string);
+      expect(reply).toEqual(expect.objectContaining({ type: 'SESSION_END', sessionId: 'udp-session-5', reason: 'TIMEOUT' }));
+      expect(reply.statistics).toEqual(expect.objectContaining({ totalPackets: 10 }));
+    });
+
+    it('should ignore control messages with invalid session IDs', async () => {
+      await sessionHandler!(JSON.stringify({
+        type: 'SESSION_START',
+        sessionId: '../etc/passwd',
+        clientEndpoint: '10.0.1.100:9001',
+      }));
+
+      expect(mockPublish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Dead Letters', () => {
+    let messageHandler: ((message: string) => void) | undefined;
+    let sessionHandler: ((message: string) => Promise<void>) | undefined;
+
+    beforeEach(async () => {
+      process.env.DEAD_LETTER_MODE = 'pubsub';
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (mockSubscribe as any).mockImplementation((channel: string, handler: (message: string) => void) => {
+        if (channel === 'chip.voice.responses') {
+          messageHandler = handler;
+        } else if (channel === 'chip.sessions') {
+          sessionHandler = handler as (message: string) => Promise<void>;
+        }
+        return Promise.resolve();
+      });
+
+      await audioReceiver.start();
+      mockPublish.mockClear();
+    });
+
+    afterEach(() => {
+      delete process.env.DEAD_LETTER_MODE;
+    });
+
+    function deadLetters(): Record<string, unknown>[] {
+      return mockPublish.mock.calls
+        .filter(call => call[0] === 'chip.voice.deadletter')
+        .map(call => JSON.parse(call[1] as string) as Record<string, unknown>);
+    }
+
+    it('should dead-letter unparseable messages with the reason and payload', async () => {
+      messageHandler!('not json');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(deadLetters()).toEqual([
+        expect.objectContaining({
+          reason: 'invalid_json',
+          source: 'chip.voice.responses',
+          sourceType: 'pubsub',
+          payload: 'not json',
+          truncated: false,
+          receiver: 'audio-receiver',
+        }),
+      ]);
+      expect(deadLetterMessages.inc).toHaveBeenCalledWith({ reason: 'invalid_json' });
+    });
+
+    it('should dead-letter chunks that fail processing with a truncated payload', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockAudioProcessor = (audioReceiver as any).audioProcessor;
+      mockAudioProcessor.processChunk.mockRejectedValueOnce(new Error('device lost'));
+
+      messageHandler!(JSON.stringify({
+        id: 'msg-broken',
+        type: 'AUDIO_OUTPUT',
+        service: 'cartesia',
+        sessionId: 'session-dlq',
+        timestamp: new Date().toISOString(),
+        data: {
+          audio: Buffer.from('audio that cannot be played').toString('base64'),
+          format: 'pcm',
+        },
+        metadata: { sampleRate: 44100, isFirst: true, isFinal: false },
+      }));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const [entry] = deadLetters();
+      expect(entry).toEqual(expect.objectContaining({
+        reason: 'processing_failed',
+        detail: 'device lost',
+        sessionId: 'session-dlq',
+        messageId: 'msg-broken',
+        truncated: true,
+      }));
+      expect((entry.payload as string).length).toBe(64);
+    });
+
+    it('should keep session keys of a rejected SESSION_START out of logs and dead letters', async () => {
+      const authKey = Buffer.alloc(32, 1).toString('base64');
+      const encryptionKey = Buffer.alloc(32, 2).toString('base64');
+
+      // Dead-lettered payloads are cut at 64 bytes here, so the key goes first
+      await sessionHandler!(JSON.stringify({
+        authKey,
+        type: 'SESSION_START',
+        sessionId: 'session-keys',
+        audioStreamPort: 8001,
+        clientEndpoint: '10.0.1.100:9001',
+        expectedFormat: 'pcm',
+        encryption: { algorithm: 'aes-256-gcm', keyId: 1, key: encryptionKey },
+      }));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const [entry] = deadLetters();
+      expect(entry).toEqual(expect.objectContaining({ reason: 'invalid_schema', source: 'chip.sessions' }));
+      expect(entry.payload).toContain('"authKey":"[REDACTED]"');
+      expect(entry.payload).not.toContain(authKey);
+
+      const logged = JSON.stringify([jest.mocked(logger.warn).mock.calls, jest.mocked(logger.error).mock.calls]);
+      expect(logged).toContain('session-keys');
+      expect(logged).not.toContain(authKey);
+      expect(logged).not.toContain(encryptionKey);
+    });
+
+    it('should keep the authKey of a SESSION_START with an invalid session ID out of dead letters', async () => {
+      const authKey = Buffer.alloc(32, 3).toString('base64');
+
+      await sessionHandler!(JSON.stringify({
+        authKey,
+        type: 'SESSION_START',
+        sessionId: '../bad',
+        audioStreamPort: 8001,
+        clientEndpoint: '10.0.1.100:9001',
+        expectedFormat: 'pcm',
+        sampleRate: 44100,
+      }));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const [entry] = deadLetters();
+      expect(entry).toEqual(expect.objectContaining({ reason: 'invalid_session_id', sessionId: '../bad' }));
+      expect(entry.payload).toContain('"authKey":"[REDACTED]"');
+      expect(entry.payload).not.toContain(authKey);
+    });
+  });
+
+  describe('Redis Streams Ingestion', () => {
+    beforeEach(() => {
+      config.ingestion.mode = 'streams';
+    });
+
+    afterEach(() => {
+      config.ingestion.mode = 'pubsub';
+    });
+
+    function getEntryHandler(): (message: string, replayed: boolean) => Promise<void> {
+      const mockConsumer = jest.mocked(RedisStreamConsumer);
+      return mockConsumer.mock.calls[mockConsumer.mock.calls.length - 1][2];
+    }
+
+    it('should consume voice responses through a consumer group instead of SUBSCRIBE', async () => {
+      await audioReceiver.start();
+
+      expect(mockSubscribe).not.toHaveBeenCalledWith('chip.voice.responses', expect.any(Function));
+      expect(RedisStreamConsumer).toHaveBeenCalledWith(mockRedisClient, config.ingestion, expect.any(Function));
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((audioReceiver as any).streamConsumer.start).toHaveBeenCalled();
+    });
+
+    it('should resume a stream whose first chunk was acknowledged before a restart', async () => {
+      await audioReceiver.start();
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockAudioProcessor = (audioReceiver as any).audioProcessor;
+      const createStreamSpy = jest.spyOn(mockAudioProcessor, 'createStream');
+      const processChunkSpy = jest.spyOn(mockAudioProcessor, 'processChunk');
+
+      await getEntryHandler()(JSON.stringify({
+        id: 'msg-5',
+        type: 'AUDIO_OUTPUT',
+        service: 'cartesia',
+        sessionId: 'session-resume',
+        timestamp: new Date().toISOString(),
+        data: {
+          audio: Buffer.from('middle-chunk').toString('base64'),
+          format: 'pcm',
+        },
+        metadata: {
+          sampleRate: 44100,
+          isFirst: false,
+          isFinal: false,
+        },
+      }), true);
+
+      expect(createStreamSpy).toHaveBeenCalledWith('session-resume', 'pcm', 44100);
+      expect(processChunkSpy).toHaveBeenCalledWith('session-resume', expect.any(Buffer), 'pcm');
+    });
+
+    it('should stop the consumer on shutdown', async () => {
+      await audioReceiver.start();
+      const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const streamConsumer = (audioReceiver as any).streamConsumer;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const sigintHandler = process.listeners('SIGINT')[process.listeners('SIGINT').length - 1] as any;
+      await sigintHandler('SIGINT');
+
+      expect(streamConsumer.stop).toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+  });
+});
@@ -187,6 +187,18 @@ describe('Configuration Behavior', () => {
       expect(freshConfig.channels.responses).toBe('custom.voice.channel');
       expect(freshConfig.channels.health).toBe('custom.health.channel');
     });
+
+    it('should configure session negotiation channels', () => {
+      process.env.SESSION_CHANNEL = 'custom.sessions';
+      delete process.env.SESSION_REPLY_CHANNEL;
+
+      // Dynamic require is necessary for testing environment-based configuration
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { config: freshConfig } = require('../config') as { config: Config };
+
+      expect(freshConfig.channels.sessions).toBe('custom.sessions');
+      expect(freshConfig.channels.sessionReplies).toBe('chip.sessions.replies');
+    });
   });
 
   describe('Resilience Configuration', () => {
@@ -224,6 +236,17 @@ describe('Configuration Behavior', () => {
     });
   });
 
+  describe('Heartbeat Configuration', () => {
+    it('should reject heartbeat intervals below one second', () => {
+      process.env.HEALTH_CHECK_INTERVAL = '100';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+
+      expect(() => freshValidateConfig()).toThrow('HEALTH_CHECK_INTERVAL must be at least 1000ms');
+    });
+  });
+
   describe('Audio Configuration', () => {
     it('should configure audio device from environment', () => {
       process.env.AUDIO_DEVICE = 'Headphones (High Definition Audio Device)';
@@ -278,6 +301,264 @@ describe('Configuration Behavior', () => {
       
       expect(freshConfig.redis.password).toBeUndefined();
     });
+
+    it('should parse Sentinel and Cluster node lists', () => {
+      process.env.REDIS_MODE = 'sentinel';
+      process.env.REDIS_SENTINELS = 'sentinel-1:26380, sentinel-2';
+      process.env.REDIS_CLUSTER_NODES = '[::1]:7000';
+
+      // Dynamic require is necessary for testing environment-based configuration
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { config: freshConfig } = require('../config') as { config: Config };
+
+      expect(freshConfig.redis.sentinel.nodes).toEqual([
+        { host: 'sentinel-1', port: 26380 },
+        { host: 'sentinel-2', port: 26379 },
+      ]);
+      expect(freshConfig.redis.cluster.nodes).toEqual([{ host: '::1', port: 7000 }]);
+    });
+
+    it('should require nodes for the selected topology', () => {
+      process.env.REDIS_MODE = 'sentinel';
+      delete process.env.REDIS_SENTINELS;
+
+      // Dynamic require is necessary for testing environment-based configuration
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+
+      expect(() => freshValidateConfig()).toThrow('REDIS_SENTINELS is required when REDIS_MODE=sentinel');
+    });
+
+    it('should reject TLS options without REDIS_TLS and incomplete client certificates', () => {
+      process.env.REDIS_TLS_SERVERNAME = 'redis.example.com';
+
+      // Dynamic require is necessary for testing environment-based configuration
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const first = require('../config') as { validateConfig: () => void };
+      expect(() => first.validateConfig()).toThrow('REDIS_TLS must be true when Redis TLS options are set');
+
+      jest.resetModules();
+      process.env.REDIS_TLS = 'true';
+      process.env.REDIS_TLS_CERT = '/etc/redis/client.pem';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const second = require('../config') as { validateConfig: () => void };
+      expect(() => second.validateConfig()).toThrow('REDIS_TLS_CERT and REDIS_TLS_KEY must be set together');
+    });
+
+    it('should reject missing TLS files', () => {
+      process.env.REDIS_TLS = 'true';
+      process.env.REDIS_TLS_CA = '/nonexistent/ca.pem';
+
+      // Dynamic require is necessary for testing environment-based configuration
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+
+      expect(() => freshValidateConfig()).toThrow('REDIS_TLS_CA file not found: /nonexistent/ca.pem');
+    });
+
+    it('should require a password for an ACL username', () => {
+      process.env.REDIS_USERNAME = 'receiver';
+      delete process.env.REDIS_PASSWORD;
+
+      // Dynamic require is necessary for testing environment-based configuration
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+
+      expect(() => freshValidateConfig()).toThrow('REDIS_PASSWORD is required when REDIS_USERNAME is set');
+    });
+  });
+
+  describe('Dead Letter Configuration', () => {
+    it('should be off by default and reject unknown modes', () => {
+      delete process.env.DEAD_LETTER_MODE;
+      // Dynamic require is necessary for testing environment-based configuration
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { config: freshConfig } = require('../config') as { config: Config };
+      expect(freshConfig.deadLetter.mode).toBe('off');
+
+      jest.resetModules();
+      process.env.DEAD_LETTER_MODE = 'kafka';
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+      expect(() => freshValidateConfig()).toThrow('Invalid DEAD_LETTER_MODE');
+    });
+  });
+
+  describe('UDP Authentication Configuration', () => {
+    it('should reject auth secrets shorter than 16 bytes', () => {
+      process.env.UDP_AUTH_SECRET = 'too-short';
+      process.env.UDP_REQUIRE_AUTH = 'true';
+
+      // Dynamic require is necessary for testing environment-based configuration
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { config: freshConfig, validateConfig: freshValidateConfig } = require('../config') as {
+        config: Config;
+        validateConfig: () => void;
+      };
+
+      expect(freshConfig.udp?.requireAuth).toBe(true);
+      expect(() => freshValidateConfig()).toThrow('UDP_AUTH_SECRET must be at least 16 bytes');
+    });
+  });
+
+  describe('UDP Socket Configuration', () => {
+    it('should reject bind addresses that are not IP addresses', () => {
+      process.env.UDP_BIND_ADDRESS = 'voice-vlan';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+
+      expect(() => freshValidateConfig()).toThrow('UDP_BIND_ADDRESS must be an IPv4 or IPv6 address');
+    });
+
+    it('should only allow IPv6-only sockets on an IPv6 address', () => {
+      process.env.UDP_BIND_ADDRESS = '10.0.0.5';
+      process.env.UDP_IPV6_ONLY = 'true';
+      process.env.UDP_RECV_BUFFER_BYTES = '1048576';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { config: freshConfig, validateConfig: freshValidateConfig } = require('../config') as {
+        config: Config;
+        validateConfig: () => void;
+      };
+
+      expect(freshConfig.udp?.socket.receiveBufferSize).toBe(1048576);
+      expect(() => freshValidateConfig()).toThrow('UDP_IPV6_ONLY requires an IPv6 UDP_BIND_ADDRESS');
+    });
+  });
+
+  describe('UDP Multicast Configuration', () => {
+    it('should parse the group and its interfaces', () => {
+      process.env.UDP_MULTICAST_GROUP = '239.10.0.1';
+      process.env.UDP_MULTICAST_INTERFACES = '10.0.5.2, 10.0.6.2';
+      process.env.UDP_MULTICAST_LOOPBACK = 'true';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { config: freshConfig, validateConfig: freshValidateConfig } = require('../config') as {
+        config: Config;
+        validateConfig: () => void;
+      };
+
+      expect(freshConfig.udp?.multicast).toEqual({
+        group: '239.10.0.1',
+        interfaces: ['10.0.5.2', '10.0.6.2'],
+        ttl: 1,
+        loopback: true,
+      });
+      expect(() => freshValidateConfig()).not.toThrow();
+    });
+
+    it('should reject unicast groups and sockets bound to a unicast address', () => {
+      process.env.UDP_MULTICAST_GROUP = '10.0.0.1';
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: unicastGroup } = require('../config') as { validateConfig: () => void };
+      expect(() => unicastGroup()).toThrow('UDP_MULTICAST_GROUP must be an IPv4 (224.0.0.0/4) or IPv6 (ff00::/8) multicast address');
+
+      jest.resetModules();
+      process.env.UDP_MULTICAST_GROUP = 'ff15::1234';
+      process.env.UDP_BIND_ADDRESS = '0.0.0.0';
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: wrongFamily } = require('../config') as { validateConfig: () => void };
+      expect(() => wrongFamily()).toThrow('UDP_MULTICAST_GROUP needs UDP_BIND_ADDRESS');
+    });
+  });
+
+  describe('UDP RTP Configuration', () => {
+    it('should parse dynamic payload types', () => {
+      process.env.UDP_RTP_ENABLED = 'true';
+      process.env.UDP_RTP_PAYLOAD_TYPES = '96=opus/48000/2, 97=L16/16000';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { config: freshConfig, validateConfig: freshValidateConfig } = require('../config') as {
+        config: Config;
+        validateConfig: () => void;
+      };
+
+      expect(freshConfig.udp?.rtp).toEqual({
+        enabled: true,
+        port: 5004,
+        payloadTypes: {
+          96: { encoding: 'opus', clockRate: 48000, channels: 2 },
+          97: { encoding: 'L16', clockRate: 16000, channels: 1 },
+        },
+        reportIntervalMs: 5000,
+      });
+      expect(() => freshValidateConfig()).not.toThrow();
+    });
+
+    it('should reject static or malformed payload type mappings', () => {
+      process.env.UDP_RTP_ENABLED = 'true';
+      process.env.UDP_RTP_PAYLOAD_TYPES = '8=PCMA/8000';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+
+      expect(() => freshValidateConfig()).toThrow('UDP_RTP_PAYLOAD_TYPES must be a comma-separated list');
+    });
+  });
+
+  describe('UDP Session Inactivity Configuration', () => {
+    it('should default to a shorter timeout before the first packet', () => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { config: freshConfig } = require('../config') as { config: Config };
+
+      expect(freshConfig.udp?.inactivity).toEqual({ idleTimeoutMs: 30000, firstPacketTimeoutMs: 10000 });
+    });
+
+    it('should reject a first-packet timeout longer than the idle timeout', () => {
+      process.env.UDP_SESSION_IDLE_TIMEOUT_MS = '5000';
+      process.env.UDP_SESSION_FIRST_PACKET_TIMEOUT_MS = '8000';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+
+      expect(() => freshValidateConfig()).toThrow('UDP_SESSION_FIRST_PACKET_TIMEOUT_MS must not exceed UDP_SESSION_IDLE_TIMEOUT_MS');
+    });
+  });
+
+  describe('UDP TCP Fallback Configuration', () => {
+    it('should read the TCP fallback settings', () => {
+      process.env.UDP_TCP_ENABLED = 'true';
+      process.env.UDP_TCP_PORT = '9443';
+      process.env.UDP_TCP_PREFERRED = 'true';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { config: freshConfig, validateConfig: freshValidateConfig } = require('../config') as {
+        config: Config;
+        validateConfig: () => void;
+      };
+
+      expect(freshConfig.udp?.tcp).toEqual({
+        enabled: true,
+        port: 9443,
+        maxFrameBytes: 1048576,
+        maxConnections: 64,
+        idleTimeoutMs: 30000,
+        preferred: true,
+      });
+      expect(() => freshValidateConfig()).not.toThrow();
+    });
+
+    it('should reject frame limits below the largest datagram', () => {
+      process.env.UDP_TCP_ENABLED = 'true';
+      process.env.UDP_TCP_MAX_FRAME_BYTES = '1500';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+
+      expect(() => freshValidateConfig()).toThrow('UDP_TCP_MAX_FRAME_BYTES must be at least 65536');
+    });
+
+    it('should require room for at least one connection', () => {
+      process.env.UDP_TCP_ENABLED = 'true';
+      process.env.UDP_TCP_MAX_CONNECTIONS = '0';
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig: freshValidateConfig } = require('../config') as { validateConfig: () => void };
+
+      expect(() => freshValidateConfig()).toThrow('UDP_TCP_MAX_CONNECTIONS must be at least 1');
+    });
   });
 
   describe('Configuration Immutability', () => {
@@ -0,0 +1,127 @@
+import { jest } from '@jest/globals';
+import { DeadLetterQueue, DeadLetterInput } from '../dead-letter';
+import { DeadLetterConfig } from '../types';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('DeadLetterQueue - Dead-Letter Destination', () => {
+  const options: DeadLetterConfig = {
+    mode: 'stream',
+    channel: 'dlq',
+    streamKey: 'dlq.stream',
+    maxStreamLength: 500,
+    maxPayloadBytes: 16,
+  };
+
+  const input: DeadLetterInput = {
+    reason: 'invalid_schema',
+    detail: 'metadata: is required',
+    source: 'voice.responses',
+    sourceType: 'pubsub',
+    payload: '{"type":"AUDIO_OUTPUT"}',
+    sessionId: 'session-1',
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let client: any;
+  let stored: { id: string; message: Record<string, string> }[];
+
+  beforeEach(() => {
+    stored = [];
+    client = {
+      isOpen: true,
+      publish: jest.fn(() => Promise.resolve(1)),
+      xAdd: jest.fn((key: string, _id: string, message: Record<string, string>) => {
+        if (key === 'dlq.stream') {
+          stored.push({ id: `${stored.length + 1}-0`, message });
+        }
+        return Promise.resolve(`${stored.length}-0`);
+      }),
+      xRevRange: jest.fn(() => Promise.resolve([...stored].reverse())),
+      xRange: jest.fn((_key: string, id: string) => Promise.resolve(stored.filter(entry => entry.id === id))),
+      xDel: jest.fn((_key: string, id: string) => {
+        const before = stored.length;
+        stored = stored.filter(entry => entry.id !== id);
+        return Promise.resolve(before - stored.length);
+      }),
+    };
+  });
+
+  function queue(overrides: Partial<DeadLetterConfig> = {}): DeadLetterQueue {
+    return new DeadLetterQueue({ ...options, ...overrides }, () => client, 'receiver-test');
+  }
+
+  it('should XADD entries with a capped stream length and truncate large payloads', async () => {
+    const deadLettered = jest.fn();
+    const dlq = queue();
+    dlq.on('deadLettered', deadLettered);
+
+    const entry = await dlq.send(input);
+
+    expect(client.xAdd).toHaveBeenCalledWith('dlq.stream', '*', { entry: expect.any(String) }, {
+      TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: 500 },
+    });
+    expect(entry).toEqual(expect.objectContaining({
+      reason: 'invalid_schema',
+      payload: '{"type":"AUDIO_O',
+      payloadBytes: 23,
+      truncated: true,
+      receiver: 'receiver-test',
+      messageId: null,
+    }));
+    expect(deadLettered).toHaveBeenCalledWith(entry);
+  });
+
+  it('should publish entries in pubsub mode and do nothing when off', async () => {
+    await queue({ mode: 'pubsub' }).send(input);
+    await queue({ mode: 'off' }).send(input);
+
+    expect(client.publish).toHaveBeenCalledTimes(1);
+    expect(client.publish).toHaveBeenCalledWith('dlq', expect.stringContaining('"reason":"invalid_schema"'));
+  });
+
+  it('should never throw when the destination fails', async () => {
+    client.xAdd.mockRejectedValueOnce(new Error('OOM'));
+
+    await expect(queue().send(input)).resolves.toBeNull();
+  });
+
+  it('should list the newest entries first', async () => {
+    const dlq = queue({ maxPayloadBytes: 1024 });
+    await dlq.send(input);
+    await dlq.send({ ...input, reason: 'invalid_json' });
+
+    const entries = await dlq.list(10);
+
+    expect(entries.map(({ id, entry }) => [id, entry.reason])).toEqual([
+      ['2-0', 'invalid_json'],
+      ['1-0', 'invalid_schema'],
+    ]);
+  });
+
+  it('should re-inject payloads to their source and remove the entry', async () => {
+    const dlq = queue({ maxPayloadBytes: 1024 });
+    await dlq.send(input);
+    await dlq.send({ ...input, source: 'voice.stream', sourceType: 'stream' });
+
+    await dlq.reinject('1-0');
+    await dlq.reinject('2-0', { keep: true });
+
+    expect(client.publish).toHaveBeenCalledWith('voice.responses', input.payload);
+    expect(client.xAdd).toHaveBeenCalledWith('voice.stream', '*', { message: input.payload });
+    expect(stored.map(entry => entry.id)).toEqual(['2-0']);
+  });
+
+  it('should refuse to re-inject truncated payloads', async () => {
+    const dlq = queue();
+    await dlq.send(input);
+
+    await expect(dlq.reinject('1-0')).rejects.toThrow('was truncated (23 bytes) and cannot be re-injected');
+    await expect(dlq.reinject('9-0')).rejects.toThrow('Dead-letter entry 9-0 not found');
+  });
+
+  it('should require stream mode for inspection', async () => {
+    await expect(queue({ mode: 'pubsub' }).list(10)).rejects.toThrow('requires DEAD_LETTER_MODE=stream');
+  });
+});
@@ -0,0 +1,129 @@
+import { jest } from '@jest/globals';
+import { DependencyMonitor } from '../dependency-monitor';
+import { DependencyConfig, ServiceHealth } from '../types';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('DependencyMonitor - Heartbeat State Machine', () => {
+  const options: DependencyConfig = {
+    services: ['voice'],
+    heartbeatIntervalMs: 1000,
+    degradedAfterMissed: 2,
+    downAfterMissed: 4,
+  };
+
+  let monitor: DependencyMonitor;
+  let stateChanges: Array<[string, string, string]>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    monitor = new DependencyMonitor(options, ['audio-receiver']);
+    stateChanges = [];
+    monitor.on('stateChange', (service: string, state: string, previous: string) => {
+      stateChanges.push([service, previous, state]);
+    });
+    monitor.start();
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    jest.useRealTimers();
+  });
+
+  function heartbeat(service: string, status: ServiceHealth['status'] = 'healthy'): void {
+    monitor.recordHeartbeat({
+      service,
+      status,
+      timestamp: Date.now(),
+      details: { uptime: 5000, memoryUsage: 0, activeRequests: 0 },
+    });
+  }
+
+  it('should start expected services in the unknown state', () => {
+    expect(monitor.getState('voice')).toBe('unknown');
+    expect(monitor.getStatus().voice).toEqual(expect.objectContaining({
+      lastHeartbeat: null,
+      transitions: 0,
+    }));
+  });
+
+  it('should become healthy on a healthy heartbeat', () => {
+    heartbeat('voice');
+
+    expect(monitor.getState('voice')).toBe('healthy');
+    expect(monitor.getStatus().voice.uptime).toBe(5000);
+    expect(stateChanges).toEqual([['voice', 'unknown', 'healthy']]);
+  });
+
+  it('should degrade when the service reports itself unhealthy', () => {
+    heartbeat('voice');
+    heartbeat('voice', 'unhealthy');
+
+    expect(monitor.getState('voice')).toBe('degraded');
+  });
+
+  it('should degrade and then go down as heartbeats are missed', () => {
+    heartbeat('voice');
+
+    jest.advanceTimersByTime(2000);
+    expect(monitor.getState('voice')).toBe('degraded');
+    expect(monitor.getStatus().voice.missedHeartbeats).toBe(2);
+
+    jest.advanceTimersByTime(2000);
+    expect(monitor.getState('voice')).toBe('down');
+    expect(stateChanges).toEqual([
+      ['voice', 'unknown', 'healthy'],
+      ['voice', 'healthy', 'degraded'],
+      ['voice', 'degraded', 'down'],
+    ]);
+  });
+
+  it('should recover when heartbeats resume', () => {
+    heartbeat('voice');
+    jest.advanceTimersByTime(4000);
+    expect(monitor.getState('voice')).toBe('down');
+
+    heartbeat('voice');
+
+    expect(monitor.getState('voice')).toBe('healthy');
+    expect(monitor.getStatus().voice.missedHeartbeats).toBe(0);
+  });
+
+  it('should mark expected services down when they never report', () => {
+    jest.advanceTimersByTime(4000);
+
+    expect(monitor.getState('voice')).toBe('down');
+    expect(stateChanges).toEqual([['voice', 'unknown', 'down']]);
+  });
+
+  it('should track unexpected services once they report', () => {
+    heartbeat('tts-worker');
+
+    expect(monitor.getState('tts-worker')).toBe('healthy');
+    expect(Object.keys(monitor.getStatus())).toEqual(['voice', 'tts-worker']);
+  });
+
+  it('should forget unexpected services once they go down', () => {
+    heartbeat('tts-worker');
+    jest.advanceTimersByTime(4000);
+
+    expect(stateChanges).toContainEqual(['tts-worker', 'degraded', 'down']);
+    expect(Object.keys(monitor.getStatus())).toEqual(['voice']);
+  });
+
+  it('should cap the number of unexpected services tracked', () => {
+    for (let i = 0; i <= DependencyMonitor.MAX_UNCONFIGURED_SERVICES; i++) {
+      heartbeat(`worker-${i}`);
+    }
+
+    expect(Object.keys(monitor.getStatus())).toHaveLength(DependencyMonitor.MAX_UNCONFIGURED_SERVICES + 1);
+    expect(monitor.getState(`worker-${DependencyMonitor.MAX_UNCONFIGURED_SERVICES}`)).toBe('unknown');
+  });
+
+  it('should ignore heartbeats from ignored services', () => {
+    heartbeat('audio-receiver');
+
+    expect(Object.keys(monitor.getStatus())).toEqual(['voice']);
+  });
+});
@@ -0,0 +1,93 @@
+import { buildParityPacket, FecDecoder, FecEncoder, reconstructPacket } from '../fec';
+import { PacketDecodeError } from '../packet-codec';
+import { AudioFormat, AudioPacket } from '../types';
+
+describe('FEC - XOR Parity', () => {
+  const createPacket = (sequenceNumber: number, text: string, isLast = false): AudioPacket => ({
+    sessionId: 'fec-session',
+    sequenceNumber,
+    timestamp: 1700000000000 + sequenceNumber * 20,
+    playbackTime: 1700000000100 + sequenceNumber * 20,
+    audioData: Buffer.from(text),
+    format: AudioFormat.PCM,
+    sampleRate: 16000,
+    isLast,
+  });
+
+  const group = [createPacket(4, 'a'), createPacket(5, 'bbbb'), createPacket(6, 'cc'), createPacket(7, 'ddd', true)];
+
+  it('should rebuild any single packet of a group, header fields included', () => {
+    const parity = buildParityPacket(group);
+
+    expect(parity).toEqual(expect.objectContaining({ sequenceNumber: 4, parity: true, isLast: false }));
+    for (const missing of group) {
+      const received = group.filter(packet => packet !== missing);
+      expect(reconstructPacket(parity, received, missing.sequenceNumber)).toEqual(missing);
+    }
+  });
+
+  it('should emit parity per full group and for a final short group', () => {
+    const encoder = new FecEncoder(3);
+
+    expect(group.map(packet => encoder.push(packet)).map(parity => parity?.sequenceNumber ?? null))
+      .toEqual([null, null, 4, null]);
+    expect(encoder.flush()?.audioData.readUInt8(0)).toBe(1);
+    expect(encoder.flush()).toBeNull();
+  });
+
+  it('should rebuild a lost packet once the rest of its group and the parity are in', () => {
+    const decoder = new FecDecoder(4);
+    const parity = buildParityPacket(group);
+
+    expect(decoder.add(group[0])).toBeNull();
+    expect(decoder.add(parity)).toBeNull();
+    expect(decoder.add(group[1])).toBeNull();
+    expect(decoder.add(group[3])).toEqual(group[2]);
+    expect(decoder.wasRebuilt(6)).toBe(true);
+    expect(decoder.wasRebuilt(5)).toBe(false);
+    expect(decoder.hasParity(7)).toBe(true);
+    expect(decoder.hasParity(8)).toBe(false);
+    expect(decoder.add(group[2])).toBeNull();
+    expect(decoder.getStatistics()).toEqual({ recovered: 1, unrecoverable: 0 });
+  });
+
+  it('should count packets parity could not rebuild', () => {
+    const decoder = new FecDecoder(4);
+
+    decoder.add(group[0]);
+    decoder.add(group[3]);
+    expect(decoder.add(buildParityPacket(group))).toBeNull();
+
+    expect(decoder.close()).toEqual({ recovered: 0, unrecoverable: 2 });
+  });
+
+  it('should reject parity too short to read without keeping it', () => {
+    const decoder = new FecDecoder(4);
+    const truncated = { ...buildParityPacket(group.slice(0, 2)), sequenceNumber: 0, audioData: Buffer.alloc(0) };
+
+    expect(() => decoder.add(truncated)).toThrow(PacketDecodeError);
+    expect(decoder.hasParity(0)).toBe(false);
+    expect(decoder.close()).toEqual({ recovered: 0, unrecoverable: 0 });
+  });
+
+  it('should count a group as unrecoverable when its parity does not add up', () => {
+    const decoder = new FecDecoder(4);
+    const parity = buildParityPacket(group);
+    parity.audioData.writeUInt32BE(0xffff, 1);
+
+    decoder.add(group[0]);
+    decoder.add(group[1]);
+    decoder.add(group[2]);
+    expect(() => decoder.add(parity)).toThrow(expect.objectContaining({ reason: 'bad_parity' }));
+    expect(decoder.close()).toEqual({ recovered: 0, unrecoverable: 1 });
+  });
+
+  it('should ignore parity that is not aligned to a group', () => {
+    const decoder = new FecDecoder(4);
+    const misaligned = buildParityPacket([createPacket(5, 'x'), createPacket(6, 'y')]);
+
+    expect(decoder.add(createPacket(5, 'x'))).toBeNull();
+    expect(decoder.add(misaligned)).toBeNull();
+    expect(decoder.close()).toEqual({ recovered: 0, unrecoverable: 0 });
+  });
+});
@@ -0,0 +1,103 @@
+import { jest } from '@jest/globals';
+import { FragmentReassembler } from '../fragment-reassembler';
+import { fragmentPacket } from '../packet-codec';
+import { AudioFormat, AudioPacket } from '../types';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('FragmentReassembler - Frame Reassembly', () => {
+  let reassembler: FragmentReassembler;
+  let incomplete: [string, number, string][];
+
+  const createFrame = (sessionId: string, sequenceNumber: number, size: number): AudioPacket => ({
+    sessionId,
+    sequenceNumber,
+    timestamp: 1700000000000,
+    playbackTime: 1700000000100,
+    audioData: Buffer.from(Array.from({ length: size }, (_, i) => i % 251)),
+    format: AudioFormat.PCM,
+    sampleRate: 48000,
+    isLast: false,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    reassembler = new FragmentReassembler({ timeoutMs: 100, maxBytes: 4000 });
+    incomplete = [];
+    reassembler.on('incomplete', (sessionId: string, sequenceNumber: number, reason: string) =>
+      incomplete.push([sessionId, sequenceNumber, reason]));
+  });
+
+  afterEach(() => {
+    reassembler.stop();
+    jest.useRealTimers();
+  });
+
+  it('should reassemble fragments arriving in any order and ignore duplicates', () => {
+    const frame = createFrame('s1', 4, 2500);
+    const [first, second, third] = fragmentPacket(frame, 1000);
+
+    expect(reassembler.add(third)).toBeNull();
+    expect(reassembler.add(first)).toBeNull();
+    expect(reassembler.add(first)).toBeNull();
+    expect(reassembler.add(second)).toEqual(frame);
+    expect(reassembler.getBufferedBytes()).toBe(0);
+  });
+
+  it('should pass unfragmented packets through', () => {
+    const frame = createFrame('s1', 0, 100);
+
+    expect(reassembler.add(frame)).toBe(frame);
+  });
+
+  it('should keep data and parity frames with the same sequence number apart', () => {
+    const data = fragmentPacket(createFrame('s1', 8, 1500), 1000);
+    const parity = fragmentPacket({ ...createFrame('s1', 8, 1200), parity: true }, 1000);
+
+    reassembler.add(data[0]);
+    reassembler.add(parity[0]);
+    expect(reassembler.add(parity[1])?.parity).toBe(true);
+    expect(reassembler.add(data[1])?.audioData.length).toBe(1500);
+  });
+
+  it('should drop fragments whose count disagrees with their frame', () => {
+    const [first] = fragmentPacket(createFrame('s1', 1, 2500), 1000);
+    const [, other] = fragmentPacket(createFrame('s1', 1, 1500), 1000);
+
+    reassembler.add(first);
+    expect(reassembler.add(other)).toBeNull();
+    expect(reassembler.getBufferedBytes()).toBe(1000);
+  });
+
+  it('should drop frames whose fragments stop arriving', () => {
+    reassembler.add(fragmentPacket(createFrame('s1', 2, 2500), 1000)[0]);
+
+    jest.advanceTimersByTime(100);
+
+    expect(incomplete).toEqual([['s1', 2, 'timeout']]);
+    expect(reassembler.getBufferedBytes()).toBe(0);
+  });
+
+  it('should evict the oldest frames to stay under the memory cap', () => {
+    reassembler.add(fragmentPacket(createFrame('s1', 1, 3000), 1000)[0]);
+    reassembler.add(fragmentPacket(createFrame('s2', 1, 3000), 1000)[0]);
+    reassembler.add(fragmentPacket(createFrame('s1', 2, 3000), 1000)[0]);
+    reassembler.add(fragmentPacket(createFrame('s1', 2, 3000), 1000)[1]);
+    expect(incomplete).toEqual([]);
+
+    reassembler.add(fragmentPacket(createFrame('s1', 3, 3000), 1000)[0]);
+
+    expect(incomplete).toEqual([['s1', 1, 'evicted']]);
+    expect(reassembler.getBufferedBytes()).toBe(4000);
+  });
+
+  it('should drop the partial frames of a session that ends', () => {
+    reassembler.add(fragmentPacket(createFrame('s1', 1, 2500), 1000)[0]);
+    reassembler.add(fragmentPacket(createFrame('s2', 1, 2500), 1000)[0]);
+
+    expect(reassembler.clearSession('s1')).toBe(1);
+    expect(incomplete).toEqual([['s1', 1, 'session_end']]);
+    expect(reassembler.getBufferedBytes()).toBe(1000);
+  });
+});
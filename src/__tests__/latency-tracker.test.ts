@@ -0,0 +1,102 @@
+import { jest } from '@jest/globals';
+import { LatencyTracker } from '../latency-tracker';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('LatencyTracker - End-to-End Timings', () => {
+  const sentAt = Date.parse('2024-01-01T00:00:00.000Z');
+  let tracker: LatencyTracker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(sentAt + 50);
+    tracker = new LatencyTracker();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should record every stage of a stream keyed by correlationId', () => {
+    tracker.start('session-1', 'corr-1', '2024-01-01T00:00:00.000Z', 'pcm');
+
+    jest.advanceTimersByTime(30);
+    tracker.recordChunkWritten('session-1');
+    jest.advanceTimersByTime(500);
+    tracker.recordChunkWritten('session-1');
+    jest.advanceTimersByTime(20);
+    const timeline = tracker.finish('session-1', 'completed');
+
+    expect(timeline).toEqual({
+      correlationId: 'corr-1',
+      sessionId: 'session-1',
+      format: 'pcm',
+      messageTimestamp: '2024-01-01T00:00:00.000Z',
+      sentAt,
+      receivedAt: sentAt + 50,
+      firstByteAt: sentAt + 80,
+      finalizedAt: sentAt + 600,
+      chunks: 2,
+      timeToFirstAudioMs: 80,
+      totalMs: 600,
+      outcome: 'completed',
+    });
+    expect(tracker.getTimeline('corr-1')).toEqual(timeline);
+  });
+
+  it('should emit firstAudio once and complete on finish', () => {
+    const firstAudio = jest.fn();
+    const complete = jest.fn();
+    tracker.on('firstAudio', firstAudio);
+    tracker.on('complete', complete);
+
+    tracker.start('session-1', 'corr-1', '2024-01-01T00:00:00.000Z', 'pcm');
+    tracker.recordChunkWritten('session-1');
+    tracker.recordChunkWritten('session-1');
+    tracker.finish('session-1', 'cancelled');
+
+    expect(firstAudio).toHaveBeenCalledTimes(1);
+    expect(complete).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'cancelled' }));
+  });
+
+  it('should measure from the receive time when the message timestamp is invalid', () => {
+    tracker.start('session-1', 'corr-1', 'not-a-date', 'mp3');
+    jest.advanceTimersByTime(40);
+    tracker.recordChunkWritten('session-1');
+
+    expect(tracker.getTimeline('corr-1')).toEqual(expect.objectContaining({
+      sentAt: null,
+      timeToFirstAudioMs: 40,
+    }));
+  });
+
+  it('should list all timelines of a session', () => {
+    tracker.start('session-1', 'corr-1', '2024-01-01T00:00:00.000Z', 'pcm');
+    tracker.finish('session-1', 'completed');
+    tracker.start('session-1', 'corr-2', '2024-01-01T00:00:00.000Z', 'pcm');
+    tracker.start('session-2', 'corr-3', '2024-01-01T00:00:00.000Z', 'pcm');
+
+    expect(tracker.getTimelines('session-1').map(t => t.correlationId)).toEqual(['corr-1', 'corr-2']);
+  });
+
+  it('should close an unfinished timeline when the session starts a new stream', () => {
+    tracker.start('session-1', 'corr-1', '2024-01-01T00:00:00.000Z', 'pcm');
+    tracker.start('session-1', 'corr-2', '2024-01-01T00:00:00.000Z', 'pcm');
+
+    expect(tracker.getTimeline('corr-1')?.outcome).toBe('superseded');
+    expect(tracker.getTimeline('corr-2')?.outcome).toBeNull();
+  });
+
+  it('should fall back to a generated key without a correlationId', () => {
+    const timeline = tracker.start('session-1', undefined, '2024-01-01T00:00:00.000Z', 'pcm');
+
+    expect(timeline.correlationId).toMatch(/^session-1:\d+$/);
+  });
+
+  it('should ignore sessions without an active timeline', () => {
+    tracker.recordChunkWritten('unknown');
+
+    expect(tracker.finish('unknown', 'completed')).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  validateVoiceResponse,
+  validateServiceHealth,
+  validateSessionControl,
+  formatIssues,
+  PROTOCOL_VERSION,
+} from '../message-validator';
+
+describe('Message Validator - Runtime Schemas', () => {
+  function audioOutput(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+      id: 'msg-1',
+      type: 'AUDIO_OUTPUT',
+      service: 'voice',
+      sessionId: 'session-1',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      data: { audio: 'dGVzdA==', format: 'pcm' },
+      metadata: { sampleRate: 24000, isFirst: true, isFinal: false },
+      ...overrides,
+    };
+  }
+
+  describe('voice responses', () => {
+    it('should accept a valid AUDIO_OUTPUT and default the version', () => {
+      const result = validateVoiceResponse(JSON.stringify(audioOutput()));
+
+      expect(result.ok).toBe(true);
+      expect(result.ok && result.version).toBe(PROTOCOL_VERSION);
+    });
+
+    it('should reject AUDIO_OUTPUT without metadata', () => {
+      const message = audioOutput();
+      delete message.metadata;
+
+      const result = validateVoiceResponse(JSON.stringify(message));
+
+      expect(result).toEqual({
+        ok: false,
+        reason: 'invalid_schema',
+        errors: [{ path: 'metadata', message: 'is required' }],
+      });
+    });
+
+    it('should report every invalid field with its full path', () => {
+      const result = validateVoiceResponse(JSON.stringify(audioOutput({
+        timestamp: 'yesterday',
+        data: { audio: 'dGVzdA==' },
+        metadata: {
+          sampleRate: '24000',
+          isFirst: true,
+          isFinal: false,
+          sequence: -1,
+          subtitles: { text: 'hi', startTime: 0 },
+        },
+      })));
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.errors.map(issue => issue.path)).toEqual([
+        'timestamp',
+        'data.format',
+        'metadata.sampleRate',
+        'metadata.sequence',
+        'metadata.subtitles.endTime',
+      ]);
+    });
+
+    it('should validate STATUS and ERROR payloads', () => {
+      const status = validateVoiceResponse(JSON.stringify({
+        ...audioOutput({ type: 'STATUS', metadata: undefined }),
+        data: { status: 'processing', progress: { current: 1, total: 2, percentage: 150 } },
+      }));
+      const error = validateVoiceResponse(JSON.stringify({
+        ...audioOutput({ type: 'ERROR', data: undefined, metadata: undefined }),
+        error: { message: 'boom' },
+      }));
+
+      expect(!status.ok && formatIssues(status.errors)).toBe('data.progress.percentage: must be <= 100');
+      expect(!error.ok && formatIssues(error.errors)).toBe('error.code: is required');
+    });
+
+    it('should reject unknown message types', () => {
+      const result = validateVoiceResponse(JSON.stringify(audioOutput({ type: 'TEXT_INPUT' })));
+
+      expect(!result.ok && result.errors).toEqual([
+        { path: 'type', message: expect.stringContaining('unsupported message type "TEXT_INPUT"') },
+      ]);
+    });
+
+    it('should reject invalid JSON and non-object payloads', () => {
+      expect(validateVoiceResponse('not json')).toEqual(expect.objectContaining({ ok: false, reason: 'invalid_json' }));
+      expect(validateVoiceResponse('[]')).toEqual({
+        ok: false,
+        reason: 'invalid_schema',
+        errors: [{ path: '(root)', message: 'expected object, got array' }],
+      });
+    });
+  });
+
+  describe('versioning', () => {
+    it('should accept newer minor versions and ignore unknown fields', () => {
+      const result = validateVoiceResponse(JSON.stringify(audioOutput({ version: '1.7', priority: 'high' })));
+
+      expect(result.ok && result.version).toBe('1.7');
+    });
+
+    it('should reject unsupported major versions without checking the schema', () => {
+      const result = validateVoiceResponse(JSON.stringify({ version: '2.0', type: 'AUDIO_OUTPUT' }));
+
+      expect(result).toEqual({
+        ok: false,
+        reason: 'unsupported_version',
+        errors: [{ path: 'version', message: 'unsupported major version 2, supported: 1' }],
+      });
+    });
+
+    it('should reject malformed version strings', () => {
+      const result = validateVoiceResponse(JSON.stringify(audioOutput({ version: 'v1' })));
+
+      expect(!result.ok && result.errors[0].path).toBe('version');
+    });
+  });
+
+  describe('health and session control', () => {
+    it('should validate heartbeats', () => {
+      const valid = validateServiceHealth(JSON.stringify({
+        service: 'voice',
+        status: 'healthy',
+        timestamp: 1,
+        details: { uptime: 1, memoryUsage: 2, activeRequests: 0 },
+      }));
+      const invalid = validateServiceHealth(JSON.stringify({ service: 'voice', status: 'ok', timestamp: 1 }));
+
+      expect(valid.ok).toBe(true);
+      expect(!invalid.ok && formatIssues(invalid.errors)).toBe(
+        'status: must be one of: healthy, unhealthy; details: is required'
+      );
+    });
+
+    it('should validate SESSION_START and SESSION_END', () => {
+      const start = validateSessionControl(JSON.stringify({
+        type: 'SESSION_START',
+        sessionId: 'session-1',
+        audioStreamPort: 70000,
+        clientEndpoint: '127.0.0.1:5000',
+        expectedFormat: 'wav',
+        sampleRate: 24000,
+      }));
+      const end = validateSessionControl(JSON.stringify({
+        type: 'SESSION_END',
+        sessionId: 'session-1',
+        reason: 'COMPLETED',
+      }));
+
+      expect(!start.ok && start.errors.map(issue => issue.path)).toEqual(['audioStreamPort', 'expectedFormat']);
+      expect(end.ok).toBe(true);
+    });
+
+    it('should validate encryption keys in SESSION_START and SESSION_REKEY', () => {
+      const start = validateSessionControl(JSON.stringify({
+        type: 'SESSION_START',
+        sessionId: 'session-1',
+        audioStreamPort: 8001,
+        clientEndpoint: '127.0.0.1:5000',
+        expectedFormat: 'pcm',
+        sampleRate: 24000,
+        encryption: { algorithm: 'aes-128-cbc', keyId: 0, key: 'not base64!' },
+      }));
+      const rekey = validateSessionControl(JSON.stringify({
+        type: 'SESSION_REKEY',
+        sessionId: 'session-1',
+        keyId: 256,
+        key: Buffer.alloc(32).toString('base64'),
+      }));
+
+      expect(!start.ok && start.errors.map(issue => issue.path)).toEqual(['encryption.algorithm', 'encryption.key']);
+      expect(!rekey.ok && rekey.errors.map(issue => issue.path)).toEqual(['keyId']);
+    });
+
+    it('should validate multicast, receiver lists and transports in SESSION_START', () => {
+      const start = (extra: Record<string, unknown>): ReturnType<typeof validateSessionControl> => validateSessionControl(JSON.stringify({
+        type: 'SESSION_START',
+        sessionId: 'session-1',
+        audioStreamPort: 8001,
+        clientEndpoint: '127.0.0.1:5000',
+        expectedFormat: 'pcm',
+        sampleRate: 24000,
+        ...extra,
+      }));
+
+      expect(start({ multicast: true, receivers: ['living-room', 'kitchen'] }).ok).toBe(true);
+      const invalid = start({ multicast: 'yes', receivers: ['living-room', ''] });
+      expect(!invalid.ok && invalid.errors.map(issue => issue.path)).toEqual(['multicast', 'receivers[1]']);
+
+      expect(start({ transport: 'rtp', ssrc: 0xffffffff }).ok).toBe(true);
+      const transport = start({ transport: 'sctp', ssrc: -1 });
+      expect(!transport.ok && transport.errors.map(issue => issue.path)).toEqual(['transport', 'ssrc']);
+
+      expect(start({ transports: ['tcp', 'udp'] }).ok).toBe(true);
+      const transports = start({ transports: ['udp', 'websocket'] });
+      expect(!transports.ok && transports.errors.map(issue => issue.path)).toEqual(['transports[1]']);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { jest } from '@jest/globals';
+import { NackTracker } from '../nack-tracker';
+import { SequenceRange } from '../packet-codec';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('NackTracker - Selective Retransmission Requests', () => {
+  let tracker: NackTracker;
+  let nacks: SequenceRange[][];
+  let lost: number[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tracker = new NackTracker({ retryIntervalMs: 40, maxRetries: 3, maxWaitMs: 200 });
+    nacks = [];
+    lost = [];
+    tracker.on('nack', (_sessionId: string, ranges: SequenceRange[]) => nacks.push(ranges));
+    tracker.on('lost', (_sessionId: string, count: number) => lost.push(count));
+  });
+
+  afterEach(() => {
+    tracker.stop();
+    jest.useRealTimers();
+  });
+
+  it('should NACK a gap immediately as merged ranges', () => {
+    tracker.missing('s1', 3, 6);
+    tracker.missing('s1', 8, 9);
+
+    expect(nacks).toEqual([[{ start: 3, count: 3 }], [{ start: 8, count: 1 }]]);
+    expect(tracker.getOutstanding('s1')).toBe(4);
+  });
+
+  it('should track a gap across the sequence number wrap by its wire sequences', () => {
+    tracker.missing('s1', 0xfffffffe, 0x100000001);
+
+    expect(nacks).toEqual([[{ start: 0, count: 1 }, { start: 0xfffffffe, count: 2 }]]);
+    expect(tracker.received('s1', 0)).toBe(true);
+  });
+
+  it('should stop asking for sequences once they arrive', () => {
+    tracker.missing('s1', 3, 5);
+
+    expect(tracker.received('s1', 3)).toBe(true);
+    expect(tracker.received('s1', 3)).toBe(false);
+    expect(tracker.received('s1', 9)).toBe(false);
+
+    jest.advanceTimersByTime(40);
+    expect(nacks).toEqual([[{ start: 3, count: 2 }], [{ start: 4, count: 1 }]]);
+  });
+
+  it('should retry up to the limit and give up after the maximum wait', () => {
+    tracker.missing('s1', 3, 4);
+
+    jest.advanceTimersByTime(180);
+    expect(nacks).toHaveLength(3);
+    expect(lost).toEqual([]);
+
+    jest.advanceTimersByTime(20);
+    expect(lost).toEqual([1]);
+    expect(tracker.received('s1', 3)).toBe(false);
+  });
+
+  it('should cap outstanding sequences and report the rest as lost', () => {
+    tracker.missing('s1', 0, 300);
+
+    expect(lost).toEqual([44]);
+    expect(nacks[0]).toEqual([{ start: 44, count: 256 }]);
+  });
+
+  it('should report outstanding sequences as lost when a session is cleared', () => {
+    tracker.missing('s1', 3, 5);
+
+    expect(tracker.clearSession('s1')).toBe(2);
+    expect(lost).toEqual([2]);
+    expect(tracker.getOutstanding('s1')).toBe(0);
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  AEAD_TAG_LENGTH,
+  AUTH_TAG_LENGTH,
+  CIPHER_ALGORITHMS,
+  crc32,
+  decodeNack,
+  decodePacket,
+  deriveSessionKey,
+  encodeLegacyPacket,
+  encodeNack,
+  encodePacket,
+  fragmentPacket,
+  openPayload,
+  packetKeyId,
+  MAX_FRAGMENTS,
+  PacketDecodeError,
+  PACKET_HEADER_SIZE,
+  PayloadKey,
+  verifyPacketTag,
+} from '../packet-codec';
+import { AudioFormat, AudioPacket } from '../types';
+
+describe('Packet Codec - Versioned UDP Wire Format', () => {
+  const packet: AudioPacket = {
+    sessionId: 'session-codec',
+    sequenceNumber: 513,
+    timestamp: 1700000000000,
+    playbackTime: 1700000000100,
+    audioData: Buffer.from('pcm-samples'),
+    format: AudioFormat.OPUS,
+    sampleRate: 48000,
+    isLast: true,
+  };
+
+  function rejectionReason(buffer: Buffer, acceptLegacy = false): string | null {
+    try {
+      decodePacket(buffer, { acceptLegacy });
+      return null;
+    } catch (error) {
+      return error instanceof PacketDecodeError ? error.reason : 'other';
+    }
+  }
+
+  it('should compute the standard CRC32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it('should round-trip packets and expose the checksum', () => {
+    const decoded = decodePacket(encodePacket(packet));
+
+    expect(decoded).toEqual({ ...packet, checksum: crc32(packet.audioData).toString(16).padStart(8, '0') });
+  });
+
+  it('should skip header extensions declared by the header length', () => {
+    const encoded = encodePacket(packet);
+    const headerLength = encoded.readUInt16BE(5);
+    const extended = Buffer.concat([
+      encoded.subarray(0, headerLength),
+      Buffer.from([0xaa, 0xbb]),
+      encoded.subarray(headerLength),
+    ]);
+    extended.writeUInt16BE(headerLength + 2, 5);
+
+    expect(decodePacket(extended).audioData.toString()).toBe('pcm-samples');
+  });
+
+  it('should reject malformed datagrams with a reason', () => {
+    const encoded = encodePacket(packet);
+
+    const wrongVersion = Buffer.from(encoded);
+    wrongVersion.writeUInt8(9, 4);
+    const badHeader = Buffer.from(encoded);
+    badHeader.writeUInt16BE(PACKET_HEADER_SIZE, 5);
+    const unknownFormat = Buffer.from(encoded);
+    unknownFormat.writeUInt8(7, 8);
+    const corrupt = Buffer.from(encoded);
+    corrupt[corrupt.length - 1] ^= 0x01;
+
+    expect(rejectionReason(Buffer.from([0x43, 0x48]))).toBe('too_short');
+    expect(rejectionReason(encoded.subarray(0, 20))).toBe('too_short');
+    expect(rejectionReason(encodeLegacyPacket(packet))).toBe('bad_magic');
+    expect(rejectionReason(wrongVersion)).toBe('unsupported_version');
+    expect(rejectionReason(badHeader)).toBe('bad_header');
+    expect(rejectionReason(encoded.subarray(0, encoded.length - 3))).toBe('truncated');
+    expect(rejectionReason(unknownFormat)).toBe('unknown_format');
+    expect(rejectionReason(corrupt)).toBe('checksum_mismatch');
+  });
+
+  it('should authenticate datagrams with a truncated HMAC tag', () => {
+    const key = deriveSessionKey('shared-secret-for-tests', packet.sessionId);
+    const tagged = encodePacket(packet, { authKey: key });
+    const tamperedHeader = Buffer.from(tagged);
+    tamperedHeader.writeUInt32BE(514, 10);
+    const tamperedTag = Buffer.from(tagged);
+    tamperedTag[PACKET_HEADER_SIZE + packet.sessionId.length] ^= 0x01;
+
+    expect(tagged.length).toBe(encodePacket(packet).length + AUTH_TAG_LENGTH);
+    expect(decodePacket(tagged).audioData.toString()).toBe('pcm-samples');
+    expect(verifyPacketTag(tagged, key)).toBe('valid');
+    expect(verifyPacketTag(tagged, deriveSessionKey('shared-secret-for-tests', 'other'))).toBe('invalid');
+    expect(verifyPacketTag(tamperedHeader, key)).toBe('invalid');
+    expect(verifyPacketTag(tamperedTag, key)).toBe('invalid');
+    expect(verifyPacketTag(encodePacket(packet), key)).toBe('missing');
+    expect(verifyPacketTag(encodeLegacyPacket(packet), key)).toBe('missing');
+  });
+
+  it.each(CIPHER_ALGORITHMS)('should encrypt payloads with %s', (algorithm) => {
+    const key: PayloadKey = { algorithm, keyId: 3, key: Buffer.alloc(32, 9) };
+    const authKey = Buffer.alloc(32, 4);
+    const encrypted = encodePacket(packet, { authKey, encryption: key });
+    const decoded = decodePacket(encrypted);
+
+    expect(packetKeyId(encrypted)).toBe(3);
+    expect(packetKeyId(encodePacket(packet))).toBeNull();
+    expect(verifyPacketTag(encrypted, authKey)).toBe('valid');
+    expect(decoded.audioData.length).toBe(packet.audioData.length + AEAD_TAG_LENGTH);
+    expect(decoded.audioData.includes('pcm-samples')).toBe(false);
+    expect(openPayload(key, encrypted, decoded).toString()).toBe('pcm-samples');
+  });
+
+  it('should refuse to decrypt with the wrong key or a tampered header', () => {
+    const key: PayloadKey = { algorithm: 'aes-256-gcm', keyId: 0, key: Buffer.alloc(32, 9) };
+    const encrypted = encodePacket(packet, { encryption: key });
+    // Replaying the ciphertext under another sequence number must not decrypt
+    const replayed = Buffer.from(encrypted);
+    replayed.writeUInt32BE(514, 10);
+
+    const failure = (buffer: Buffer, payloadKey: PayloadKey): string | null => {
+      try {
+        openPayload(payloadKey, buffer, decodePacket(buffer));
+        return null;
+      } catch (error) {
+        return error instanceof PacketDecodeError ? error.reason : 'other';
+      }
+    };
+
+    // Fragment fields follow the session ID and key ID and are authenticated too
+    const [, fragment] = fragmentPacket({ ...packet, audioData: Buffer.alloc(30, 7) }, 10)
+      .map(part => encodePacket(part, { encryption: key }));
+    const recounted = Buffer.from(fragment);
+    recounted.writeUInt16BE(2, recounted.readUInt16BE(5) - 2);
+
+    expect(failure(encrypted, key)).toBeNull();
+    expect(failure(encrypted, { ...key, key: Buffer.alloc(32, 8) })).toBe('decrypt_failed');
+    expect(failure(replayed, key)).toBe('decrypt_failed');
+    expect(failure(fragment, key)).toBeNull();
+    expect(failure(recounted, key)).toBe('decrypt_failed');
+  });
+
+  it('should carry the parity flag and keep parity nonces apart from data nonces', () => {
+    const parity = { ...packet, isLast: false, parity: true };
+    const key: PayloadKey = { algorithm: 'aes-256-gcm', keyId: 0, key: Buffer.alloc(32, 9) };
+    const encrypted = encodePacket(parity, { encryption: key });
+    const data = encodePacket({ ...packet, isLast: false }, { encryption: key });
+
+    expect(decodePacket(encodePacket(parity)).parity).toBe(true);
+    expect(decodePacket(encodePacket(packet)).parity).toBeUndefined();
+    expect(openPayload(key, encrypted, decodePacket(encrypted)).toString()).toBe('pcm-samples');
+    expect(encrypted.subarray(-packet.audioData.length - AEAD_TAG_LENGTH))
+      .not.toEqual(data.subarray(-packet.audioData.length - AEAD_TAG_LENGTH));
+  });
+
+  it('should split large frames into fragments that decode, authenticate and decrypt on their own', () => {
+    const frame = { ...packet, audioData: Buffer.alloc(3000, 7) };
+    const key: PayloadKey = { algorithm: 'aes-256-gcm', keyId: 1, key: Buffer.alloc(32, 9) };
+    const authKey = Buffer.alloc(32, 4);
+    const fragments = fragmentPacket(frame, 1200);
+
+    expect(fragments.map(fragment => [fragment.fragment, fragment.audioData.length])).toEqual([
+      [{ index: 0, count: 3 }, 1200],
+      [{ index: 1, count: 3 }, 1200],
+      [{ index: 2, count: 3 }, 600],
+    ]);
+    expect(fragmentPacket(packet, 1200)).toEqual([packet]);
+    expect(() => fragmentPacket(frame, 3000 / (MAX_FRAGMENTS + 1))).toThrow('more than 64');
+
+    const encoded = fragments.map(fragment => encodePacket(fragment, { authKey, encryption: key }));
+    const decoded = encoded.map(buffer => decodePacket(buffer));
+    expect(decoded.map(fragment => fragment.fragment)).toEqual(fragments.map(fragment => fragment.fragment));
+    expect(encoded.every(buffer => verifyPacketTag(buffer, authKey) === 'valid')).toBe(true);
+    expect(Buffer.concat(encoded.map((buffer, i) => openPayload(key, buffer, decoded[i])))).toEqual(frame.audioData);
+
+    // Fragments of one frame must not share a nonce
+    expect(decoded[0].audioData.subarray(0, 16)).not.toEqual(decoded[1].audioData.subarray(0, 16));
+  });
+
+  it('should reject fragments with an index or count out of range', () => {
+    const encoded = encodePacket({ ...packet, fragment: { index: 1, count: 2 } });
+    const fragmentOffset = PACKET_HEADER_SIZE + packet.sessionId.length;
+    const badIndex = Buffer.from(encoded);
+    badIndex.writeUInt16BE(2, fragmentOffset);
+    const badCount = Buffer.from(encoded);
+    badCount.writeUInt16BE(MAX_FRAGMENTS + 1, fragmentOffset + 2);
+
+    expect(rejectionReason(encoded)).toBeNull();
+    expect(rejectionReason(badIndex)).toBe('bad_fragment');
+    expect(rejectionReason(badCount)).toBe('bad_fragment');
+  });
+
+  it('should round-trip NACKs and authenticate them with the session key', () => {
+    const ranges = [{ start: 7, count: 2 }, { start: 4294967295, count: 1 }];
+    const authKey = Buffer.alloc(32, 5);
+    const tagged = encodeNack('session-codec', ranges, { authKey });
+    const forged = Buffer.from(tagged);
+    forged.writeUInt32BE(8, 9 + 'session-codec'.length);
+
+    expect(decodeNack(encodeNack('session-codec', ranges))).toEqual({ sessionId: 'session-codec', ranges });
+    expect(decodeNack(tagged, { authKey })).toEqual({ sessionId: 'session-codec', ranges });
+    expect(() => decodeNack(forged, { authKey })).toThrow('NACK failed authentication');
+    expect(() => decodeNack(encodeNack('session-codec', ranges), { authKey })).toThrow('NACK failed authentication');
+    expect(() => decodeNack(encodePacket(packet))).toThrow(PacketDecodeError);
+  });
+
+  it('should decode the legacy layout only when enabled, with bounds checks', () => {
+    const legacy = encodeLegacyPacket({ ...packet, format: AudioFormat.PCM });
+
+    expect(decodePacket(legacy, { acceptLegacy: true })).toEqual({ ...packet, format: AudioFormat.PCM });
+    expect(rejectionReason(legacy.subarray(0, 10), true)).toBe('too_short');
+    expect(rejectionReason(legacy.subarray(0, legacy.length - 1), true)).toBe('truncated');
+  });
+});
@@ -0,0 +1,144 @@
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createClient, createCluster } from 'redis';
+import { buildClientOptions, createRedisConnection, resolveSentinelMaster } from '../redis-connection';
+import { RedisConfig } from '../types';
+
+jest.mock('redis');
+jest.mock('../logger');
+
+describe('Redis Connection - Topologies and TLS', () => {
+  let redis: RedisConfig;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redis = {
+      mode: 'standalone',
+      host: 'redis.internal',
+      port: 6380,
+      password: 'secret',
+      tls: { enabled: false, rejectUnauthorized: true },
+      sentinel: { masterName: 'audio', nodes: [] },
+      cluster: { nodes: [] },
+    };
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function sentinelClient(reply: unknown, connectError?: Error): any {
+    return {
+      on: jest.fn(),
+      isOpen: !connectError,
+      connect: jest.fn(() => connectError ? Promise.reject(connectError) : Promise.resolve()),
+      sendCommand: jest.fn(() => Promise.resolve(reply)),
+      disconnect: jest.fn(() => Promise.resolve()),
+    };
+  }
+
+  it('should keep plain host, port and password options by default', () => {
+    expect(buildClientOptions(redis)).toEqual({
+      socket: { host: 'redis.internal', port: 6380 },
+      password: 'secret',
+    });
+  });
+
+  it('should add the ACL username and TLS material', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'redis-tls-'));
+    const ca = path.join(dir, 'ca.pem');
+    fs.writeFileSync(ca, 'CA');
+
+    redis.username = 'receiver';
+    redis.tls = { enabled: true, caFile: ca, servername: 'redis.example.com', rejectUnauthorized: true };
+
+    expect(buildClientOptions(redis)).toEqual({
+      socket: {
+        host: 'redis.internal',
+        port: 6380,
+        tls: true,
+        ca: Buffer.from('CA'),
+        servername: 'redis.example.com',
+        rejectUnauthorized: true,
+      },
+      username: 'receiver',
+      password: 'secret',
+    });
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should ask the sentinels for the master and skip unreachable ones', async () => {
+    const unreachable = sentinelClient(null, new Error('ECONNREFUSED'));
+    const sentinel = sentinelClient(['10.0.0.5', '6379']);
+    const master = sentinelClient(null);
+    jest.mocked(createClient)
+      .mockReturnValueOnce(unreachable)
+      .mockReturnValueOnce(sentinel)
+      .mockReturnValueOnce(master);
+
+    redis.mode = 'sentinel';
+    redis.sentinel = {
+      masterName: 'audio',
+      password: 'sentinel-secret',
+      nodes: [{ host: 'sentinel-1', port: 26379 }, { host: 'sentinel-2', port: 26379 }],
+    };
+
+    const client = await createRedisConnection(redis);
+
+    expect(sentinel.sendCommand).toHaveBeenCalledWith(['SENTINEL', 'get-master-addr-by-name', 'audio']);
+    expect(sentinel.disconnect).toHaveBeenCalled();
+    expect(jest.mocked(createClient).mock.calls[1][0]).toEqual(expect.objectContaining({ password: 'sentinel-secret' }));
+    expect(jest.mocked(createClient)).toHaveBeenLastCalledWith({
+      socket: { host: '10.0.0.5', port: 6379, reconnectStrategy: false },
+      password: 'secret',
+    });
+    expect(client).toBe(master);
+  });
+
+  it('should ask the sentinels again on every connect to follow a failover', async () => {
+    jest.mocked(createClient)
+      .mockReturnValueOnce(sentinelClient(['10.0.0.5', '6379']))
+      .mockReturnValueOnce(sentinelClient(null))
+      .mockReturnValueOnce(sentinelClient(['10.0.0.6', '6379']))
+      .mockReturnValueOnce(sentinelClient(null));
+
+    redis.mode = 'sentinel';
+    redis.sentinel.nodes = [{ host: 'sentinel-1', port: 26379 }];
+
+    await createRedisConnection(redis);
+    await createRedisConnection(redis);
+
+    const masters = jest.mocked(createClient).mock.calls
+      .filter((_, index) => index % 2 === 1)
+      .map(([options]) => options?.socket);
+    expect(masters).toEqual([
+      { host: '10.0.0.5', port: 6379, reconnectStrategy: false },
+      { host: '10.0.0.6', port: 6379, reconnectStrategy: false },
+    ]);
+  });
+
+  it('should fail when no sentinel knows the master', async () => {
+    jest.mocked(createClient).mockReturnValue(sentinelClient(null));
+    redis.sentinel.nodes = [{ host: 'sentinel-1', port: 26379 }];
+
+    await expect(resolveSentinelMaster(redis)).rejects.toThrow(
+      'No Sentinel could resolve Redis master "audio": unknown master "audio"'
+    );
+  });
+
+  it('should create a cluster client from the seed nodes', async () => {
+    redis.mode = 'cluster';
+    redis.username = 'receiver';
+    redis.cluster.nodes = [{ host: 'node-1', port: 7000 }, { host: 'node-2', port: 7001 }];
+
+    await createRedisConnection(redis);
+
+    expect(createCluster).toHaveBeenCalledWith({
+      rootNodes: [
+        { socket: { host: 'node-1', port: 7000 } },
+        { socket: { host: 'node-2', port: 7001 } },
+      ],
+      defaults: { username: 'receiver', password: 'secret', socket: { reconnectStrategy: false } },
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { jest } from '@jest/globals';
+import { ReorderBuffer } from '../reorder-buffer';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('ReorderBuffer - Sequenced Chunk Delivery', () => {
+  let buffer: ReorderBuffer<string>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    buffer = new ReorderBuffer<string>(3, 100);
+  });
+
+  afterEach(() => {
+    buffer.stop();
+    jest.useRealTimers();
+  });
+
+  it('should deliver in-order chunks immediately', () => {
+    expect(buffer.push('s1', 0, 'a', true)).toEqual(['a']);
+    expect(buffer.push('s1', 1, 'b', false)).toEqual(['b']);
+    expect(buffer.getStatistics('s1')).toEqual({ delivered: 2, duplicates: 0, reordered: 0, lost: 0, late: 0 });
+  });
+
+  it('should hold chunks after a gap until it fills', () => {
+    expect(buffer.push('s1', 1, 'b', false)).toEqual([]);
+    expect(buffer.push('s1', 2, 'c', false)).toEqual([]);
+    expect(buffer.push('s1', 0, 'a', true)).toEqual(['a', 'b', 'c']);
+    expect(buffer.getStatistics('s1')?.reordered).toBe(2);
+  });
+
+  it('should drop duplicates', () => {
+    const duplicate = jest.fn();
+    buffer.on('duplicate', duplicate);
+
+    buffer.push('s1', 0, 'a', true);
+    buffer.push('s1', 2, 'c', false);
+
+    expect(buffer.push('s1', 0, 'a', true)).toEqual([]);
+    expect(buffer.push('s1', 2, 'c', false)).toEqual([]);
+    expect(duplicate).toHaveBeenCalledTimes(2);
+    expect(buffer.getStatistics('s1')?.duplicates).toBe(2);
+  });
+
+  it('should skip a gap when the window overflows', () => {
+    const gap = jest.fn();
+    buffer.on('gap', gap);
+
+    buffer.push('s1', 0, 'a', true);
+    buffer.push('s1', 2, 'c', false);
+    buffer.push('s1', 3, 'd', false);
+    buffer.push('s1', 4, 'e', false);
+
+    expect(buffer.push('s1', 5, 'f', false)).toEqual(['c', 'd', 'e', 'f']);
+    expect(gap).toHaveBeenCalledWith('s1', 1, 2);
+    expect(buffer.getStatistics('s1')?.lost).toBe(1);
+  });
+
+  it('should release held chunks when the gap times out', () => {
+    const release = jest.fn();
+    buffer.on('release', release);
+
+    buffer.push('s1', 0, 'a', true);
+    buffer.push('s1', 3, 'd', false);
+    buffer.push('s1', 4, 'e', false);
+
+    jest.advanceTimersByTime(100);
+
+    expect(release).toHaveBeenCalledWith('s1', ['d', 'e']);
+    expect(buffer.getStatistics('s1')?.lost).toBe(2);
+  });
+
+  it('should count chunks arriving after their gap was skipped as late', () => {
+    const late = jest.fn();
+    buffer.on('late', late);
+
+    buffer.push('s1', 1, 'b', false);
+    jest.advanceTimersByTime(100);
+
+    expect(buffer.push('s1', 0, 'a', true)).toEqual([]);
+    expect(late).toHaveBeenCalledWith('s1', 0);
+    expect(buffer.getStatistics('s1')).toEqual(expect.objectContaining({ lost: 1, late: 1, duplicates: 0 }));
+  });
+
+  it('should restart numbering for the next stream after completion', () => {
+    buffer.push('s1', 0, 'a', true);
+    buffer.push('s1', 1, 'b', false);
+    buffer.complete('s1');
+
+    // Chunks that overtake the next stream's first chunk are held for it
+    expect(buffer.push('s1', 1, 'b1', false)).toEqual([]);
+    expect(buffer.push('s1', 2, 'b2', false)).toEqual([]);
+    expect(buffer.push('s1', 0, 'b0', true)).toEqual(['b0', 'b1', 'b2']);
+  });
+
+  it('should start a new utterance before the last one completed', () => {
+    buffer.push('s1', 0, 'a0', true, 'u1');
+    buffer.push('s1', 1, 'a1', false, 'u1');
+    buffer.push('s1', 2, 'a2', false, 'u1');
+
+    expect(buffer.push('s1', 1, 'b1', false, 'u2')).toEqual([]);
+    expect(buffer.push('s1', 0, 'b0', true, 'u2')).toEqual(['b0', 'b1']);
+
+    // Late chunks of the finished utterance are dropped
+    expect(buffer.push('s1', 3, 'a3', false, 'u1')).toEqual([]);
+    expect(buffer.push('s1', 2, 'b2', false, 'u2')).toEqual(['b2']);
+    expect(buffer.getStatistics('s1')).toEqual(expect.objectContaining({ delivered: 6, duplicates: 1 }));
+  });
+
+  it('should track sessions independently', () => {
+    buffer.push('s1', 1, 'b', false);
+
+    expect(buffer.push('s2', 0, 'z', true)).toEqual(['z']);
+  });
+});
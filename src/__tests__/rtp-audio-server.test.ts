@@ -0,0 +1,183 @@
+import { jest } from '@jest/globals';
+import * as dgram from 'dgram';
+import { RTPAudioServer } from '../rtp-audio-server';
+import { compactNtp, decodeRtcpPacket, encodeRtpPacket, RtcpReportBlock } from '../rtp-codec';
+import { AudioPacket, SyncTimestamps } from '../types';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('RTPAudioServer - RTP Ingest', () => {
+  let server: RTPAudioServer;
+  let client: dgram.Socket;
+  let packets: [AudioPacket, SyncTimestamps][];
+
+  const rtp = (sequenceNumber: number, timestamp: number, options: { ssrc?: number; payloadType?: number } = {}): Buffer =>
+    encodeRtpPacket({
+      marker: false,
+      payloadType: options.payloadType ?? 96,
+      sequenceNumber,
+      timestamp,
+      ssrc: options.ssrc ?? 0xabc,
+      payload: Buffer.alloc(320)
+    });
+
+  const send = async (datagram: Buffer, port = server.getPort()): Promise<void> => {
+    client.send(datagram, port, '127.0.0.1');
+    await new Promise(resolve => setTimeout(resolve, 30));
+  };
+
+  beforeEach(async () => {
+    server = new RTPAudioServer(0, {
+      bindAddress: '127.0.0.1',
+      payloadTypes: { 96: { encoding: 'L16', clockRate: 16000, channels: 1 } },
+      reportIntervalMs: 0,
+      cname: 'receiver-1'
+    });
+    await server.start();
+    client = dgram.createSocket('udp4');
+    await new Promise<void>(resolve => client.bind(0, '127.0.0.1', () => resolve()));
+    packets = [];
+    server.on('audioPacket', (packet: AudioPacket, syncTimestamps: SyncTimestamps) => packets.push([packet, syncTimestamps]));
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.stop();
+  });
+
+  it('should bind the first SSRC from the sender and map packets across wraps', async () => {
+    server.expectSession('rtp-1', '127.0.0.1', 9000, { format: 'pcm', sampleRate: 16000 });
+
+    await send(rtp(65535, 0xffffff00));
+    await send(rtp(0, 0xffffff00 + 160));
+    await send(rtp(1, 64));
+
+    expect(packets.map(([packet]) => [packet.sequenceNumber, packet.playbackTime - packet.timestamp]))
+      .toEqual([[0, 0], [1, 10], [2, 20]]);
+    const [third, syncTimestamps] = packets[2];
+    expect(third).toEqual(expect.objectContaining({ sessionId: 'rtp-1', format: 'pcm', sampleRate: 16000, isLast: false }));
+    expect(third.audioData.length).toBe(640);
+    expect(syncTimestamps.scheduledPlayback).toBe(third.playbackTime);
+  });
+
+  it('should count gaps as lost until a late packet fills them', async () => {
+    server.expectSession('rtp-2', '127.0.0.1', 9000, { format: 'pcm', sampleRate: 16000, ssrc: 0xabc });
+
+    await send(rtp(10, 0));
+    await send(rtp(12, 320));
+    expect(server.getSessionStatistics('rtp-2')).toEqual(expect.objectContaining({ totalPackets: 2, lostPackets: 1 }));
+    await send(rtp(11, 160));
+
+    expect(server.getSessionStatistics('rtp-2')).toEqual(expect.objectContaining({
+      totalPackets: 3,
+      lostPackets: 0,
+      reorderedPackets: 1
+    }));
+    expect(packets.map(([packet]) => packet.sequenceNumber)).toEqual([0, 2, 1]);
+  });
+
+  it('should drop duplicate packets instead of playing them twice', async () => {
+    server.expectSession('rtp-dup', '127.0.0.1', 9000, { format: 'pcm', sampleRate: 16000, ssrc: 0xabc });
+
+    await send(rtp(10, 0));
+    await send(rtp(11, 160));
+    await send(rtp(11, 160));
+    await send(rtp(10, 0));
+
+    expect(packets.map(([packet]) => packet.sequenceNumber)).toEqual([0, 1]);
+    expect(server.getSessionStatistics('rtp-dup')).toEqual(expect.objectContaining({
+      totalPackets: 2,
+      lostPackets: 0,
+      duplicatePackets: 2
+    }));
+  });
+
+  it('should reject unmapped payload types and payloads for another format', async () => {
+    const rejected: string[] = [];
+    server.on('packetRejected', (reason: string) => rejected.push(reason));
+    server.expectSession('rtp-3', '127.0.0.1', 9000, { format: 'pcm', sampleRate: 48000 });
+
+    await send(rtp(0, 0, { payloadType: 97 }));
+    await send(rtp(1, 0));
+
+    expect(rejected).toEqual(['unknown_payload_type', 'payload_mismatch']);
+    expect(packets).toEqual([]);
+  });
+
+  it('should drop packets of a known SSRC from another address', async () => {
+    const violations: string[] = [];
+    server.on('sourceViolation', (reason: string, source: string) => violations.push(`${reason} ${source}`));
+    server.expectSession('rtp-4', '10.0.0.5', 9000, { format: 'pcm', sampleRate: 16000, ssrc: 0xabc });
+
+    await send(rtp(0, 0));
+
+    expect(violations).toEqual([`address 127.0.0.1:${client.address().port}`]);
+    expect(packets).toEqual([]);
+  });
+
+  it('should report reception to where the sender\'s RTCP comes from', async () => {
+    server.expectSession('rtp-5', '127.0.0.1', 9000, { format: 'pcm', sampleRate: 16000 });
+    const reports: RtcpReportBlock[] = [];
+    const received = new Promise<Buffer>(resolve => client.once('message', resolve));
+    server.on('receiverReport', (_sessionId: string, report: RtcpReportBlock) => reports.push(report));
+
+    await send(rtp(100, 0));
+    await send(rtp(102, 320));
+    const sr = Buffer.alloc(28);
+    sr.writeUInt32BE(0x80c80006, 0);
+    sr.writeUInt32BE(0xabc, 4);
+    sr.writeBigUInt64BE(0x0102030405060708n, 8);
+    await send(sr, server.getRtcpPort());
+    server.sendReports();
+
+    const [rr] = decodeRtcpPacket(await received);
+    expect(rr).toEqual({ type: 'rr', ssrc: expect.any(Number), reports });
+    expect(reports).toEqual([expect.objectContaining({
+      ssrc: 0xabc,
+      fractionLost: 85, // 1 of 3
+      cumulativeLost: 1,
+      highestSequence: 102,
+      lastSenderReport: compactNtp(0x0102030405060708n)
+    })]);
+  });
+
+  it('should end silent sessions with TIMEOUT, sooner when nothing ever arrived', async () => {
+    const timedOut = new RTPAudioServer(0, {
+      bindAddress: '127.0.0.1',
+      payloadTypes: { 96: { encoding: 'L16', clockRate: 16000, channels: 1 } },
+      reportIntervalMs: 0,
+      inactivity: { idleTimeoutMs: 300, firstPacketTimeoutMs: 100 }
+    });
+    await timedOut.start();
+    const ended: [string, string][] = [];
+    const phases: [string, string][] = [];
+    timedOut.on('sessionEnd', (sessionId: string, _statistics: unknown, reason: string) => ended.push([sessionId, reason]));
+    timedOut.on('sessionTimeout', (sessionId: string, phase: string) => phases.push([sessionId, phase]));
+
+    timedOut.expectSession('never-sent', '127.0.0.1', 9000, { format: 'pcm', sampleRate: 16000, ssrc: 0xdef });
+    timedOut.expectSession('went-quiet', '127.0.0.1', 9000, { format: 'pcm', sampleRate: 16000, ssrc: 0xabc });
+    await send(rtp(0, 0), timedOut.getPort());
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(phases).toEqual([['never-sent', 'first_packet']]);
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(phases).toEqual([['never-sent', 'first_packet'], ['went-quiet', 'idle']]);
+    expect(ended).toEqual([['never-sent', 'TIMEOUT'], ['went-quiet', 'TIMEOUT']]);
+    expect(timedOut.getActiveSessions()).toEqual([]);
+    await timedOut.stop();
+  });
+
+  it('should end the session when the sender says goodbye', async () => {
+    const ended: string[] = [];
+    server.on('sessionEnd', (sessionId: string) => ended.push(sessionId));
+    server.expectSession('rtp-6', '127.0.0.1', 9000, { format: 'pcm', sampleRate: 16000 });
+
+    await send(rtp(0, 0));
+    await send(Buffer.from([0x81, 203, 0, 1, 0, 0, 0x0a, 0xbc]), server.getRtcpPort());
+
+    expect(ended).toEqual(['rtp-6']);
+    expect(server.isSessionActive('rtp-6')).toBe(false);
+    expect(server.closeSession('rtp-6')).toBeNull();
+  });
+});
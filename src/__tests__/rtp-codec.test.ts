@@ -0,0 +1,129 @@
+import { PacketDecodeError } from '../packet-codec';
+import {
+  compactNtp,
+  decodeRtcpPacket,
+  decodeRtpPacket,
+  decodeRtpPayload,
+  encodeReceiverReport,
+  encodeRtpPacket,
+  isRtcpPacket,
+  STATIC_PAYLOAD_TYPES
+} from '../rtp-codec';
+import { AudioFormat } from '../types';
+
+describe('RTP Codec - Wire Format', () => {
+  const rejectReason = (buffer: Buffer): string | undefined => {
+    try {
+      decodeRtpPacket(buffer);
+    } catch (error) {
+      return error instanceof PacketDecodeError ? error.reason : undefined;
+    }
+    return undefined;
+  };
+
+  it('should round-trip the header fields', () => {
+    const packet = { marker: true, payloadType: 96, sequenceNumber: 65535, timestamp: 0xfffffff0, ssrc: 0xdeadbeef, payload: Buffer.from('abcd') };
+
+    expect(decodeRtpPacket(encodeRtpPacket(packet))).toEqual(packet);
+  });
+
+  it('should skip CSRCs and header extensions and cut padding', () => {
+    const header = Buffer.from([0xb1, 0x0b, 0x00, 0x07, 0, 0, 0, 160, 0, 0, 0, 1]);
+    const csrc = Buffer.alloc(4, 9);
+    const extension = Buffer.from([0xbe, 0xde, 0x00, 0x01, 1, 2, 3, 4]);
+    const padding = Buffer.from([0, 0, 3]);
+    const decoded = decodeRtpPacket(Buffer.concat([header, csrc, extension, Buffer.from('pcm!'), padding]));
+
+    expect(decoded).toEqual(expect.objectContaining({ payloadType: 11, sequenceNumber: 7, timestamp: 160, ssrc: 1 }));
+    expect(decoded.payload.toString()).toBe('pcm!');
+  });
+
+  it('should reject datagrams that are not RTP version 2 or are cut short', () => {
+    const valid = encodeRtpPacket({ marker: false, payloadType: 0, sequenceNumber: 1, timestamp: 0, ssrc: 1, payload: Buffer.alloc(4) });
+    const versionOne = Buffer.from(valid);
+    versionOne[0] = 0x40;
+    const missingCsrc = Buffer.from(valid);
+    missingCsrc[0] = 0x85;
+
+    expect(rejectReason(valid.subarray(0, 11))).toBe('too_short');
+    expect(rejectReason(versionOne)).toBe('unsupported_version');
+    expect(rejectReason(missingCsrc)).toBe('truncated');
+  });
+
+  it('should tell multiplexed RTCP from RTP', () => {
+    expect(isRtcpPacket(Buffer.from([0x80, 200, 0, 6]))).toBe(true);
+    expect(isRtcpPacket(encodeRtpPacket({ marker: true, payloadType: 96, sequenceNumber: 0, timestamp: 0, ssrc: 0, payload: Buffer.alloc(0) })))
+      .toBe(false);
+  });
+});
+
+describe('RTP Codec - Payload Mapping', () => {
+  it('should expand PCMU to float PCM', () => {
+    const audio = decodeRtpPayload(Buffer.from([0xff, 0x80, 0x00]), STATIC_PAYLOAD_TYPES[0]);
+
+    expect(audio).toEqual(expect.objectContaining({ format: AudioFormat.PCM, sampleRate: 8000 }));
+    expect([0, 4, 8].map(offset => audio.audioData.readFloatLE(offset) * 32768)).toEqual([0, 32124, -32124]);
+  });
+
+  it('should convert L16 to float PCM and mix stereo down', () => {
+    const stereo = Buffer.alloc(8);
+    stereo.writeInt16BE(16384, 0);
+    stereo.writeInt16BE(0, 2);
+    stereo.writeInt16BE(-32768, 4);
+    stereo.writeInt16BE(-32768, 6);
+    const audio = decodeRtpPayload(stereo, STATIC_PAYLOAD_TYPES[10]);
+
+    expect(audio.sampleRate).toBe(44100);
+    expect([audio.audioData.readFloatLE(0), audio.audioData.readFloatLE(4)]).toEqual([0.25, -1]);
+  });
+
+  it('should pass Opus through at its clock rate', () => {
+    const payload = Buffer.from([1, 2, 3]);
+
+    expect(decodeRtpPayload(payload, { encoding: 'opus', clockRate: 48000, channels: 2 }))
+      .toEqual({ audioData: payload, format: AudioFormat.OPUS, sampleRate: 48000 });
+  });
+});
+
+describe('RTP Codec - RTCP', () => {
+  it('should encode a receiver report with our CNAME that decodes back', () => {
+    const report = {
+      ssrc: 0xabc,
+      fractionLost: 64,
+      cumulativeLost: -2,
+      highestSequence: 0x10005,
+      jitter: 12,
+      lastSenderReport: 0x12345678,
+      delaySinceLastSenderReport: 65536
+    };
+    const packet = encodeReceiverReport(0x1111, [report], 'receiver-1');
+
+    expect(packet.length % 4).toBe(0);
+    expect(decodeRtcpPacket(packet)).toEqual([{ type: 'rr', ssrc: 0x1111, reports: [report] }]);
+    // CNAME item: type 1, length, text
+    expect(packet.toString('latin1')).toContain('\x01\x0areceiver-1\x00');
+  });
+
+  it('should read sender reports and BYE from a compound packet', () => {
+    const sr = Buffer.alloc(28);
+    sr.writeUInt8(0x80, 0);
+    sr.writeUInt8(200, 1);
+    sr.writeUInt16BE(6, 2);
+    sr.writeUInt32BE(0xabc, 4);
+    sr.writeBigUInt64BE(0x0102030405060708n, 8);
+    sr.writeUInt32BE(320, 16);
+    sr.writeUInt32BE(10, 20);
+    sr.writeUInt32BE(6400, 24);
+    const bye = Buffer.from([0x81, 203, 0, 1, 0, 0, 0x0a, 0xbc]);
+
+    expect(decodeRtcpPacket(Buffer.concat([sr, bye]))).toEqual([
+      { type: 'sr', ssrc: 0xabc, ntpTimestamp: 0x0102030405060708n, rtpTimestamp: 320, packetCount: 10, octetCount: 6400 },
+      { type: 'bye', ssrcs: [0xabc] }
+    ]);
+    expect(compactNtp(0x0102030405060708n)).toBe(0x03040506);
+  });
+
+  it('should reject RTCP packets that run past the datagram', () => {
+    expect(() => decodeRtcpPacket(Buffer.from([0x80, 201, 0, 7, 0, 0, 0, 1]))).toThrow(PacketDecodeError);
+  });
+});
@@ -94,6 +94,27 @@ describe('Security Module', () => {
       });
     });
 
+    describe('redactSecrets', () => {
+      it('should blank out session keys wherever they are nested', () => {
+        const message = JSON.stringify({
+          type: 'SESSION_START',
+          authKey: 'c2VjcmV0',
+          encryption: { algorithm: 'aes-256-gcm', keyId: 1, key: 'a2V5\\"quoted' },
+        });
+
+        expect(JSON.parse(SecurityValidator.redactSecrets(message))).toEqual({
+          type: 'SESSION_START',
+          authKey: '[REDACTED]',
+          encryption: { algorithm: 'aes-256-gcm', keyId: 1, key: '[REDACTED]' },
+        });
+      });
+
+      it('should redact messages that are not valid JSON', () => {
+        expect(SecurityValidator.redactSecrets('{"type": "SESSION_REKEY", "key" : "c2VjcmV0", "keyId": 2'))
+          .toBe('{"type": "SESSION_REKEY", "key" : "[REDACTED]", "keyId": 2');
+      });
+    });
+
     describe('generateSafeFilename', () => {
       it('should generate safe filenames', () => {
         const filename = SecurityValidator.generateSafeFilename(
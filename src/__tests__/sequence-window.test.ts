@@ -0,0 +1,72 @@
+import { SequenceWindow, serialDistance } from '../sequence-window';
+
+describe('SequenceWindow - Serial Numbers', () => {
+  it('should measure distances across the 32-bit wrap', () => {
+    expect(serialDistance(5, 9)).toBe(4);
+    expect(serialDistance(9, 5)).toBe(-4);
+    expect(serialDistance(0xfffffffe, 1)).toBe(3);
+    expect(serialDistance(1, 0xfffffffe)).toBe(-3);
+  });
+
+  it('should wrap narrower counters at their own width', () => {
+    expect(serialDistance(65535, 0, 16)).toBe(1);
+    expect(serialDistance(65536 + 2, 65535, 16)).toBe(-3);
+  });
+});
+
+describe('SequenceWindow - Classification', () => {
+  let window: SequenceWindow;
+
+  beforeEach(() => {
+    window = new SequenceWindow(8);
+  });
+
+  it('should tell in-order, gaps, reordered and duplicate sequences apart', () => {
+    expect(window.record(0)).toEqual({ kind: 'in_order', skipped: 0 });
+    expect(window.record(3)).toEqual({ kind: 'gap', skipped: 2 });
+    expect(window.record(1)).toEqual({ kind: 'reordered', skipped: 0 });
+    expect(window.record(1)).toEqual({ kind: 'duplicate', skipped: 0 });
+    expect(window.record(3)).toEqual({ kind: 'duplicate', skipped: 0 });
+    expect(window.record(4)).toEqual({ kind: 'in_order', skipped: 0 });
+    expect(window.getNext()).toBe(5);
+  });
+
+  it('should not move back for late sequences and classify without recording', () => {
+    window.record(6);
+
+    expect(window.classify(2)).toEqual({ kind: 'reordered', skipped: 0 });
+    expect(window.classify(2)).toEqual({ kind: 'reordered', skipped: 0 });
+    window.record(2);
+    expect(window.getNext()).toBe(7);
+  });
+
+  it('should treat sequences from before the first or behind the window as stale', () => {
+    expect(window.record(0xffffffff)).toEqual({ kind: 'stale', skipped: 0 });
+
+    window.record(20);
+    expect(window.record(12)).toEqual({ kind: 'stale', skipped: 0 });
+    expect(window.record(13)).toEqual({ kind: 'reordered', skipped: 0 });
+  });
+
+  it('should reuse slots from a lap ago for sequences skipped over', () => {
+    for (let sequence = 0; sequence < 8; sequence++) {
+      window.record(sequence);
+    }
+    window.record(10);
+
+    // 8 and 9 share slots with 0 and 1, which were seen
+    expect(window.record(8)).toEqual({ kind: 'reordered', skipped: 0 });
+    expect(window.record(9)).toEqual({ kind: 'reordered', skipped: 0 });
+  });
+
+  it('should count a gap across the wrap as the sequences actually skipped', () => {
+    window.record(0x7fffffff);
+    window.record(0xfffffffe);
+
+    expect(window.record(1)).toEqual({ kind: 'gap', skipped: 2 });
+    expect(window.record(0)).toEqual({ kind: 'reordered', skipped: 0 });
+    expect(window.record(0xffffffff)).toEqual({ kind: 'reordered', skipped: 0 });
+    expect(window.record(0xfffffffe)).toEqual({ kind: 'duplicate', skipped: 0 });
+    expect(window.getNext()).toBe(2);
+  });
+});
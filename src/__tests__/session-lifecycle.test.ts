@@ -0,0 +1,110 @@
+import { jest } from '@jest/globals';
+import { SessionLifecycleTracker } from '../session-lifecycle';
+import { MessageType, StatusMessage } from '../types';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('SessionLifecycleTracker - Status State Machine', () => {
+  let tracker: SessionLifecycleTracker;
+
+  beforeEach(() => {
+    tracker = new SessionLifecycleTracker();
+  });
+
+  function status(sessionId: string, value: string, percentage?: number): StatusMessage {
+    return {
+      id: `status-${value}`,
+      type: MessageType.STATUS,
+      service: 'voice',
+      sessionId,
+      timestamp: '2024-01-01T00:00:00.000Z',
+      data: {
+        status: value,
+        progress: percentage === undefined ? undefined : { current: percentage, total: 100, percentage },
+      },
+    };
+  }
+
+  it('should follow the happy path with timestamps for each transition', () => {
+    for (const value of ['queued', 'processing', 'streaming', 'completed']) {
+      expect(tracker.apply(status('session-1', value))).toBe(true);
+    }
+
+    const lifecycle = tracker.getSession('session-1')!;
+    expect(lifecycle.state).toBe('completed');
+    expect(lifecycle.progress).toBe(100);
+    expect(lifecycle.transitions).toEqual([
+      { state: 'queued', at: expect.any(Number), messageTimestamp: '2024-01-01T00:00:00.000Z', progress: null },
+      { state: 'processing', at: expect.any(Number), messageTimestamp: '2024-01-01T00:00:00.000Z', progress: null },
+      { state: 'streaming', at: expect.any(Number), messageTimestamp: '2024-01-01T00:00:00.000Z', progress: null },
+      { state: 'completed', at: expect.any(Number), messageTimestamp: '2024-01-01T00:00:00.000Z', progress: null },
+    ]);
+  });
+
+  it('should update progress without recording a transition for repeated states', () => {
+    const listener = jest.fn();
+    tracker.on('stateChange', listener);
+
+    tracker.apply(status('session-1', 'processing', 10));
+    tracker.apply(status('session-1', 'processing', 55));
+
+    expect(tracker.getSession('session-1')!.progress).toBe(55);
+    expect(tracker.getSession('session-1')!.transitions).toHaveLength(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit state changes with the previous state', () => {
+    const listener = jest.fn();
+    tracker.on('stateChange', listener);
+
+    tracker.apply(status('session-1', 'queued'));
+    tracker.apply(status('session-1', 'cancelled'));
+
+    expect(listener).toHaveBeenLastCalledWith('session-1', 'cancelled', 'queued', expect.objectContaining({ state: 'cancelled' }));
+    expect(tracker.isCancelled('session-1')).toBe(true);
+  });
+
+  it('should reject and count illegal transitions', () => {
+    const listener = jest.fn();
+    tracker.on('illegalTransition', listener);
+
+    tracker.apply(status('session-1', 'streaming'));
+    expect(tracker.apply(status('session-1', 'queued'))).toBe(false);
+    expect(tracker.apply(status('session-1', 'bogus'))).toBe(false);
+
+    expect(tracker.getState('session-1')).toBe('streaming');
+    expect(listener).toHaveBeenCalledWith('session-1', 'streaming', 'queued');
+    expect(tracker.getSummary().illegalTransitions).toBe(2);
+  });
+
+  it('should start a fresh history when a finished session is queued again', () => {
+    tracker.apply(status('session-1', 'processing'));
+    tracker.apply(status('session-1', 'cancelled'));
+    tracker.apply(status('session-1', 'queued'));
+
+    const lifecycle = tracker.getSession('session-1')!;
+    expect(lifecycle.state).toBe('queued');
+    expect(lifecycle.transitions.map(t => t.state)).toEqual(['queued']);
+    expect(tracker.isCancelled('session-1')).toBe(false);
+  });
+
+  it('should summarize sessions by state', () => {
+    tracker.apply(status('session-1', 'queued'));
+    tracker.apply(status('session-2', 'streaming'));
+    tracker.apply(status('session-3', 'streaming'));
+
+    expect(tracker.getSummary()).toEqual({
+      sessions: { queued: 1, streaming: 2 },
+      illegalTransitions: 0,
+    });
+  });
+
+  it('should forget sessions idle longer than the cleanup age', () => {
+    tracker.apply(status('session-1', 'streaming'));
+
+    expect(tracker.cleanup(60000)).toBe(0);
+    expect(tracker.cleanup(-1)).toBe(1);
+    expect(tracker.getSession('session-1')).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import { jest } from '@jest/globals';
+import { RedisClientType } from 'redis';
+import { RedisStreamConsumer } from '../stream-consumer';
+import { IngestionConfig } from '../types';
+
+// Mock logger
+jest.mock('../logger');
+
+type Entry = { id: string; message: Record<string, string> };
+
+describe('RedisStreamConsumer - Consumer Group Behavior', () => {
+  const options: IngestionConfig = {
+    mode: 'streams',
+    streamKey: 'voice.stream',
+    consumerGroup: 'receivers',
+    consumerName: 'receiver-1',
+    batchSize: 10,
+    blockMs: 10,
+    claimIdleMs: 60000,
+    reorderWindow: 8,
+    reorderTimeoutMs: 250,
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let client: any;
+  let pending: Entry[];
+  let fresh: Entry[];
+  let claimable: Entry[];
+  let handler: jest.Mock<(message: string, replayed: boolean) => Promise<void>>;
+  let consumer: RedisStreamConsumer;
+
+  beforeEach(() => {
+    pending = [];
+    fresh = [];
+    claimable = [];
+
+    client = {
+      xGroupCreate: jest.fn(() => Promise.resolve('OK')),
+      xReadGroup: jest.fn(async (_group: string, _consumer: string, stream: { id: string }) => {
+        if (stream.id === '>') {
+          const messages = fresh.splice(0);
+          if (messages.length === 0) {
+            await new Promise(resolve => setTimeout(resolve, 5));
+            return null;
+          }
+          return [{ name: 'voice.stream', messages }];
+        }
+        // Own pending entries after the given id
+        const messages = pending.filter(entry => entry.id > stream.id);
+        return [{ name: 'voice.stream', messages }];
+      }),
+      xAutoClaim: jest.fn(() => Promise.resolve({ nextId: '0-0', messages: claimable.splice(0) })),
+      xAck: jest.fn(() => Promise.resolve(1)),
+    };
+
+    handler = jest.fn(() => Promise.resolve());
+    consumer = new RedisStreamConsumer(client as unknown as RedisClientType, options, handler);
+  });
+
+  afterEach(async () => {
+    await consumer.stop();
+  });
+
+  async function waitFor(condition: () => boolean, timeoutMs = 1000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition() && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  }
+
+  it('should create the consumer group with MKSTREAM', async () => {
+    await consumer.start();
+
+    expect(client.xGroupCreate).toHaveBeenCalledWith('voice.stream', 'receivers', '0', { MKSTREAM: true });
+    expect(consumer.isRunning()).toBe(true);
+  });
+
+  it('should tolerate an existing consumer group', async () => {
+    client.xGroupCreate.mockImplementationOnce(() =>
+      Promise.reject(new Error('BUSYGROUP Consumer Group name already exists'))
+    );
+
+    await expect(consumer.start()).resolves.toBeUndefined();
+  });
+
+  it('should handle and acknowledge new entries in order', async () => {
+    fresh.push(
+      { id: '1-0', message: { message: 'first' } },
+      { id: '2-0', message: { message: 'second' } }
+    );
+
+    await consumer.start();
+    await waitFor(() => client.xAck.mock.calls.length === 2);
+
+    expect(handler.mock.calls).toEqual([['first', false], ['second', false]]);
+    expect(client.xAck).toHaveBeenNthCalledWith(1, 'voice.stream', 'receivers', '1-0');
+    expect(client.xAck).toHaveBeenNthCalledWith(2, 'voice.stream', 'receivers', '2-0');
+  });
+
+  it('should replay its own unacknowledged entries before reading new ones', async () => {
+    pending.push({ id: '1-0', message: { message: 'unacked' } });
+    fresh.push({ id: '2-0', message: { message: 'new' } });
+
+    await consumer.start();
+    await waitFor(() => handler.mock.calls.length === 2);
+
+    expect(handler.mock.calls).toEqual([['unacked', true], ['new', false]]);
+  });
+
+  it('should reclaim entries left pending by other consumers', async () => {
+    claimable.push({ id: '5-0', message: { message: 'orphaned' } });
+
+    await consumer.start();
+
+    expect(client.xAutoClaim).toHaveBeenCalledWith('voice.stream', 'receivers', 'receiver-1', 60000, '0-0', { COUNT: 10 });
+    expect(handler).toHaveBeenCalledWith('orphaned', true);
+    expect(client.xAck).toHaveBeenCalledWith('voice.stream', 'receivers', '5-0');
+  });
+
+  it('should acknowledge an entry only once the handler finished with it', async () => {
+    let finish: () => void = () => undefined;
+    handler.mockImplementationOnce(() => new Promise<void>(resolve => { finish = resolve; }));
+    fresh.push({ id: '1-0', message: { message: 'slow' } });
+
+    await consumer.start();
+    await waitFor(() => handler.mock.calls.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(client.xAck).not.toHaveBeenCalled();
+
+    finish();
+    await waitFor(() => client.xAck.mock.calls.length === 1);
+    expect(client.xAck).toHaveBeenCalledWith('voice.stream', 'receivers', '1-0');
+  });
+
+  it('should acknowledge entries without a message field', async () => {
+    fresh.push({ id: '1-0', message: { other: 'value' } });
+
+    await consumer.start();
+    await waitFor(() => client.xAck.mock.calls.length === 1);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.xAck).toHaveBeenCalledWith('voice.stream', 'receivers', '1-0');
+  });
+
+  it('should stop polling after stop()', async () => {
+    await consumer.start();
+    await consumer.stop();
+
+    const callsAfterStop = client.xReadGroup.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(client.xReadGroup.mock.calls.length).toBe(callsAfterStop);
+    expect(consumer.isRunning()).toBe(false);
+  });
+});
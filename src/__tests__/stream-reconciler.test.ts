@@ -0,0 +1,82 @@
+import { jest } from '@jest/globals';
+import { StreamReconciler } from '../stream-reconciler';
+
+// Mock logger
+jest.mock('../logger');
+
+describe('StreamReconciler - Interrupted Stream Policies', () => {
+  let finalizeStream: jest.Mock<(sessionId: string) => Promise<void>>;
+  let reconciler: StreamReconciler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    finalizeStream = jest.fn(() => Promise.resolve());
+  });
+
+  afterEach(() => {
+    reconciler.stop();
+    jest.useRealTimers();
+  });
+
+  it('should finalize interrupted streams immediately with the finalize policy', async () => {
+    reconciler = new StreamReconciler('finalize', 1000, finalizeStream);
+
+    await reconciler.reconcile(['session-1', 'session-2']);
+
+    expect(finalizeStream).toHaveBeenCalledWith('session-1');
+    expect(finalizeStream).toHaveBeenCalledWith('session-2');
+    expect(reconciler.getStatus()).toEqual(expect.objectContaining({
+      reconnects: 1,
+      lastReconnectAt: expect.any(Number),
+      streams: [
+        expect.objectContaining({ sessionId: 'session-1', outcome: 'finalized' }),
+        expect.objectContaining({ sessionId: 'session-2', outcome: 'finalized' }),
+      ],
+    }));
+  });
+
+  it('should keep a stream that resumes within the grace period', async () => {
+    reconciler = new StreamReconciler('wait', 1000, finalizeStream);
+
+    await reconciler.reconcile(['session-1']);
+    expect(reconciler.getStatus().streams[0].outcome).toBe('waiting');
+
+    reconciler.noteActivity('session-1');
+    jest.advanceTimersByTime(2000);
+
+    expect(finalizeStream).not.toHaveBeenCalled();
+    expect(reconciler.getStatus().streams[0].outcome).toBe('resumed');
+  });
+
+  it('should finalize a stream that stays silent past the grace period', async () => {
+    reconciler = new StreamReconciler('wait', 1000, finalizeStream);
+
+    await reconciler.reconcile(['session-1']);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(finalizeStream).toHaveBeenCalledWith('session-1');
+    expect(reconciler.getStatus().streams[0].outcome).toBe('expired');
+  });
+
+  it('should mark streams interrupted until a new first chunk arrives', async () => {
+    reconciler = new StreamReconciler('interrupt', 1000, finalizeStream);
+
+    await reconciler.reconcile(['session-1']);
+
+    expect(finalizeStream).toHaveBeenCalledWith('session-1');
+    expect(reconciler.isInterrupted('session-1')).toBe(true);
+    expect(reconciler.getStatus().streams[0].outcome).toBe('interrupted');
+
+    reconciler.forget('session-1');
+    expect(reconciler.isInterrupted('session-1')).toBe(false);
+  });
+
+  it('should count reconnects without active streams', async () => {
+    reconciler = new StreamReconciler('wait', 1000, finalizeStream);
+
+    await reconciler.reconcile([]);
+    await reconciler.reconcile([]);
+
+    expect(reconciler.getStatus()).toEqual(expect.objectContaining({ reconnects: 2, streams: [] }));
+  });
+});
@@ -0,0 +1,523 @@
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import { logger, logInfo } from './logger';
+import { PacketRecovery, UDPAudioServer } from './udp-audio-server';
+import { RTPAudioServer } from './rtp-audio-server';
+import { PacketRejectReason, PayloadKey, SequenceRange } from './packet-codec';
+import { RtcpReportBlock } from './rtp-codec';
+import { AudioSyncManager } from './audio-sync-manager';
+import { JitterBuffer } from './jitter-buffer';
+import { AudioProcessor } from './audio-processor';
+import { MemoryManager } from './security';
+import {
+  AudioPacket,
+  Config,
+  IncompleteFrameReason,
+  JitterBufferConfig,
+  NetworkConditions,
+  SessionEndReason,
+  SessionFec,
+  SessionStatistics,
+  SessionTimeoutPhase,
+  SessionTransport,
+  SourceViolationReason,
+  SubtitleData,
+  SubtitleDisplay,
+  SyncTimestamps,
+  TimedAudioChunk,
+  UdpAuthFailureReason,
+  UdpAuthFailureSource
+} from './types';
+
+export interface PipelineSessionOptions {
+  remoteAddress: string;
+  remotePort: number;
+  format: string;
+  sampleRate: number;
+  authKey?: Buffer;           // Datagrams must carry a tag made with this key
+  encryption?: PayloadKey;    // Payloads must be encrypted, starting with this key
+  fec?: SessionFec;           // The sender interleaves parity packets
+  transport?: SessionTransport; // 'udp' when unset; 'rtp' and 'tcp' need their transport enabled
+  ssrc?: number;              // RTP only: the sender's SSRC when known up front
+}
+
+export interface PipelineSessionResult {
+  statistics: SessionStatistics | null;
+  droppedChunks: number;
+}
+
+interface PipelineSession {
+  sessionId: string;
+  format: string;
+  transport: SessionTransport;
+  drainTimer: NodeJS.Timeout | null;
+  drainStarted: number;
+  statistics: SessionStatistics | null;  // Final UDP statistics once the sender finished
+  endReason: SessionEndReason;           // Why the transport ended the session
+}
+
+const DEFAULT_NETWORK_CONDITIONS: NetworkConditions = {
+  avgLatency: 0,
+  jitterMs: 0,
+  packetLoss: 0,
+  bandwidth: 0
+};
+
+export class LoggingSubtitleDisplay implements SubtitleDisplay {
+  show(sessionId: string, subtitle: SubtitleData): void {
+    logInfo('[SUBTITLE]', subtitle.text, {
+      sessionId,
+      timing: `${subtitle.startTime}-${subtitle.endTime}ms`
+    });
+  }
+
+  hide(sessionId: string): void {
+    logger.debug('Subtitle hidden', { sessionId });
+  }
+}
+
+/**
+ * Production glue for the low-latency path:
+ * UDP server -> sync manager -> jitter buffer -> audio processor output.
+ * With RTP enabled, sessions negotiated with transport 'rtp' arrive through the
+ * RTP server instead and share everything from the sync manager on. Sessions
+ * negotiated with transport 'tcp' stay with the UDP server, which also takes
+ * its datagrams framed over TCP.
+ *
+ * Besides forwarding the UDP server's 'packetRejected', 'authFailure',
+ * 'nackSent', 'incompleteFrame', 'sourceViolation' and 'sourceRebound'
+ * events, emits 'lossRecovery' (outcome, sessionId, count) where the outcome
+ * is 'recovered' for retransmissions in time to play, 'fec' for packets
+ * rebuilt from parity in time to play, 'late' for either past its playout
+ * deadline and 'lost' for gaps given up on. RTP receiver reports are forwarded
+ * as 'rtcpReport' (sessionId, report) and the number of open TCP connections as
+ * 'tcpConnections' (count).
+ *
+ * Sessions the transport ended drain and then emit 'sessionComplete' (sessionId,
+ * result, reason); reason is 'TIMEOUT' for senders that went silent, which are
+ * also reported as 'sessionTimeout' (sessionId, phase) when the sweep fires.
+ */
+export class AudioPipeline extends EventEmitter {
+  private static readonly DRAIN_CHECK_INTERVAL = 20;
+  private static readonly DRAIN_TIMEOUT = 5000;
+  private static readonly MAX_COMPLETED_SESSIONS = 100;
+
+  private udpServer: UDPAudioServer;
+  private rtpServer: RTPAudioServer | null = null;
+  private syncManager: AudioSyncManager;
+  private jitterBuffer: JitterBuffer;
+  private audioProcessor: AudioProcessor;
+  private memoryManager: MemoryManager;
+  private advertisedHost: string;
+  private sessions = new Map<string, PipelineSession>();
+  private completedSessions = new Map<string, PipelineSessionResult>();
+  private subtitleDisplays: SubtitleDisplay[] = [];
+
+  constructor(
+    udpConfig: NonNullable<Config['udp']>,
+    jitterBufferConfig: Partial<JitterBufferConfig> | undefined,
+    audioProcessor: AudioProcessor,
+    memoryManager: MemoryManager
+  ) {
+    super();
+    this.advertisedHost = udpConfig.advertisedHost;
+    this.audioProcessor = audioProcessor;
+    this.memoryManager = memoryManager;
+    this.udpServer = new UDPAudioServer(udpConfig.port, {
+      bindAddress: udpConfig.bindAddress,
+      socket: udpConfig.socket,
+      multicast: udpConfig.multicast,
+      acceptLegacyPackets: udpConfig.acceptLegacyPackets,
+      keyGraceMs: udpConfig.keyGraceMs,
+      nack: udpConfig.nack.enabled ? udpConfig.nack : undefined,
+      reassembly: udpConfig.reassembly,
+      sourcePolicy: udpConfig.sourcePolicy,
+      inactivity: udpConfig.inactivity,
+      tcp: udpConfig.tcp.enabled ? udpConfig.tcp : undefined
+    });
+    if (udpConfig.rtp.enabled) {
+      this.rtpServer = new RTPAudioServer(udpConfig.rtp.port, {
+        bindAddress: udpConfig.bindAddress,
+        socket: udpConfig.socket,
+        payloadTypes: udpConfig.rtp.payloadTypes,
+        reportIntervalMs: udpConfig.rtp.reportIntervalMs,
+        cname: udpConfig.receiverId,
+        inactivity: udpConfig.inactivity
+      });
+    }
+    this.syncManager = new AudioSyncManager();
+    this.jitterBuffer = new JitterBuffer(jitterBufferConfig);
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    for (const server of this.rtpServer ? [this.udpServer, this.rtpServer] : [this.udpServer]) {
+      server.on('audioPacket', (
+        packet: AudioPacket,
+        syncTimestamps: SyncTimestamps,
+        networkConditions: NetworkConditions,
+        delivery: { recovery: PacketRecovery }
+      ) => {
+        this.handleAudioPacket(packet, syncTimestamps, networkConditions, delivery.recovery);
+      });
+
+      server.on('sessionEnd', (sessionId: string, statistics: SessionStatistics, reason: SessionEndReason) => {
+        this.beginDrain(sessionId, statistics, reason);
+      });
+
+      server.on('sessionTimeout', (sessionId: string, phase: SessionTimeoutPhase) => {
+        this.emit('sessionTimeout', sessionId, phase);
+      });
+
+      server.on('error', (error: Error) => {
+        this.emit('error', error);
+      });
+
+      server.on('packetRejected', (reason: PacketRejectReason) => {
+        this.emit('packetRejected', reason);
+      });
+
+      server.on('sourceViolation', (reason: SourceViolationReason, source: string, sessionId: string) => {
+        this.emit('sourceViolation', reason, source, sessionId);
+      });
+    }
+
+    this.rtpServer?.on('receiverReport', (sessionId: string, report: RtcpReportBlock) => {
+      this.emit('rtcpReport', sessionId, report);
+    });
+
+    this.udpServer.on('nackSent', (sessionId: string, ranges: SequenceRange[]) => {
+      this.emit('nackSent', sessionId, ranges);
+    });
+
+    this.udpServer.on('incompleteFrame', (sessionId: string, sequenceNumber: number, reason: IncompleteFrameReason) => {
+      this.emit('incompleteFrame', sessionId, sequenceNumber, reason);
+    });
+
+    this.udpServer.on('sourceRebound', (sessionId: string, previousSource: string, source: string) => {
+      this.emit('sourceRebound', sessionId, previousSource, source);
+    });
+
+    this.udpServer.on('tcpConnections', (count: number) => {
+      this.emit('tcpConnections', count);
+    });
+
+    this.udpServer.on('packetsLost', (sessionId: string, count: number) => {
+      this.emit('lossRecovery', 'lost', sessionId, count);
+    });
+
+    this.udpServer.on('authFailure', (reason: UdpAuthFailureReason, source: string, sessionId: string) => {
+      this.emit('authFailure', reason, source, sessionId);
+    });
+
+    this.syncManager.on('playAudio', (chunk: TimedAudioChunk, actualPlaybackTime: number) => {
+      // Restamp with the release time so the jitter buffer measures its hold from here
+      this.jitterBuffer.addChunk(
+        chunk.sessionId,
+        { ...chunk, playbackTime: actualPlaybackTime },
+        this.transportFor(chunk.sessionId).getNetworkConditions(chunk.sessionId) || DEFAULT_NETWORK_CONDITIONS
+      );
+    });
+
+    this.jitterBuffer.on('playChunk', (sessionId: string, chunk: TimedAudioChunk) => {
+      this.playChunk(sessionId, chunk).catch(error => {
+        logger.error('Failed to play pipeline chunk', { error, sessionId, sequenceNumber: chunk.sequenceNumber });
+      });
+    });
+
+    this.syncManager.on('showSubtitle', (sessionId: string, subtitle: SubtitleData) => {
+      this.subtitleDisplays.forEach(display => display.show(sessionId, subtitle));
+      this.emit('showSubtitle', sessionId, subtitle);
+    });
+
+    this.syncManager.on('hideSubtitle', (sessionId: string, subtitle: SubtitleData) => {
+      this.subtitleDisplays.forEach(display => display.hide(sessionId, subtitle));
+      this.emit('hideSubtitle', sessionId, subtitle);
+    });
+  }
+
+  async start(): Promise<void> {
+    await this.udpServer.start();
+    await this.rtpServer?.start();
+    logger.info('Audio pipeline started', {
+      endpoint: this.getEndpoint(),
+      rtpEndpoint: this.getRtpEndpoint(),
+      tcpEndpoint: this.getTcpEndpoint()
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      await this.endSession(sessionId);
+    }
+    this.completedSessions.clear();
+    await this.udpServer.stop();
+    await this.rtpServer?.stop();
+    logger.info('Audio pipeline stopped');
+  }
+
+  addSubtitleDisplay(display: SubtitleDisplay): void {
+    this.subtitleDisplays.push(display);
+  }
+
+  rotateSessionKey(sessionId: string, keyId: number, key: Buffer): boolean {
+    return this.udpServer.rotateSessionKey(sessionId, keyId, key);
+  }
+
+  getAuthFailures(): UdpAuthFailureSource[] {
+    return this.udpServer.getAuthFailures();
+  }
+
+  getEndpoint(): string {
+    return formatEndpoint(this.advertisedHost, this.udpServer.getPort());
+  }
+
+  /**
+   * Where senders transmit once for every receiver in the group, or null when
+   * multicast is not configured.
+   */
+  getMulticastEndpoint(): string | null {
+    const group = this.udpServer.getMulticastGroup();
+    return group ? formatEndpoint(group, this.udpServer.getPort()) : null;
+  }
+
+  /**
+   * Where RTP senders stream to, or null when RTP is not enabled.
+   */
+  getRtpEndpoint(): string | null {
+    return this.rtpServer ? formatEndpoint(this.advertisedHost, this.rtpServer.getPort()) : null;
+  }
+
+  /**
+   * Where senders whose UDP is blocked connect to, or null when the TCP
+   * fallback is not enabled.
+   */
+  getTcpEndpoint(): string | null {
+    const port = this.udpServer.getTcpPort();
+    return port === null ? null : formatEndpoint(this.advertisedHost, port);
+  }
+
+  getBufferSize(sessionId: string): number {
+    return this.jitterBuffer.getBufferStatus(sessionId).targetBufferMs;
+  }
+
+  async startSession(sessionId: string, options: PipelineSessionOptions): Promise<void> {
+    if (this.sessions.has(sessionId)) {
+      logger.warn('Pipeline session already active, restarting', { sessionId });
+      await this.endSession(sessionId);
+    }
+    this.completedSessions.delete(sessionId);
+
+    const transport = options.transport ?? 'udp';
+    if (transport === 'rtp' && !this.rtpServer) {
+      throw new Error('RTP sessions need UDP_RTP_ENABLED');
+    }
+    if (transport === 'tcp' && this.udpServer.getTcpPort() === null) {
+      throw new Error('TCP sessions need UDP_TCP_ENABLED');
+    }
+
+    await this.audioProcessor.createStream(sessionId, options.format, options.sampleRate);
+    if (transport === 'rtp') {
+      this.rtpServer?.expectSession(sessionId, options.remoteAddress, options.remotePort, {
+        format: options.format,
+        sampleRate: options.sampleRate,
+        ssrc: options.ssrc
+      });
+    } else {
+      this.udpServer.expectSession(sessionId, options.remoteAddress, options.remotePort, {
+        authKey: options.authKey,
+        encryption: options.encryption,
+        fec: options.fec,
+        transport
+      });
+    }
+    this.syncManager.createSession(sessionId);
+    this.jitterBuffer.initializeSession(sessionId);
+
+    this.sessions.set(sessionId, {
+      sessionId,
+      format: options.format,
+      transport,
+      drainTimer: null,
+      drainStarted: 0,
+      statistics: null,
+      endReason: 'COMPLETED'
+    });
+
+    logger.info('Pipeline session started', { sessionId, transport, format: options.format, sampleRate: options.sampleRate });
+  }
+
+  async endSession(sessionId: string): Promise<PipelineSessionResult> {
+    const completed = this.completedSessions.get(sessionId);
+    if (completed) {
+      this.completedSessions.delete(sessionId);
+      return completed;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return { statistics: null, droppedChunks: 0 };
+    }
+
+    // Forget the session first so the sessionEnd emitted by closeSession does not start a drain
+    const server = this.transportFor(sessionId);
+    this.sessions.delete(sessionId);
+    if (session.drainTimer) {
+      clearInterval(session.drainTimer);
+      session.drainTimer = null;
+    }
+
+    const networkConditions = server.getNetworkConditions(sessionId);
+    const udpStatistics = server.closeSession(sessionId);
+    const statistics = udpStatistics
+      ? { ...udpStatistics, jitterMs: networkConditions?.jitterMs ?? udpStatistics.jitterMs }
+      : session.statistics;
+
+    return this.teardown(sessionId, statistics);
+  }
+
+  async cancelSession(sessionId: string): Promise<void> {
+    if (!this.sessions.has(sessionId)) return;
+
+    // Queued chunks are dropped; statistics stay available for SESSION_END
+    const result = await this.endSession(sessionId);
+    this.rememberResult(sessionId, result);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  getActiveSessions(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  private handleAudioPacket(
+    packet: AudioPacket,
+    syncTimestamps: SyncTimestamps,
+    networkConditions: NetworkConditions,
+    recovery: PacketRecovery = null
+  ): void {
+    if (!this.sessions.has(packet.sessionId)) {
+      logger.warn('Audio packet for session without pipeline', { sessionId: packet.sessionId });
+      return;
+    }
+
+    try {
+      // A recovered packet played after the chunks that follow it would be worse than the gap
+      const scheduled = this.syncManager.scheduleAudioChunk(packet, syncTimestamps, networkConditions, undefined, {
+        dropIfLate: recovery !== null
+      });
+      if (recovery !== null) {
+        const outcome = !scheduled ? 'late' : recovery === 'fec' ? 'fec' : 'recovered';
+        this.emit('lossRecovery', outcome, packet.sessionId, 1);
+      }
+    } catch (error) {
+      logger.error('Failed to schedule audio packet', { error, sessionId: packet.sessionId });
+    }
+  }
+
+  private async playChunk(sessionId: string, chunk: TimedAudioChunk): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    if (!this.memoryManager.canAllocate(sessionId, chunk.audio.length)) {
+      logger.error('Memory limit exceeded for pipeline session', { sessionId });
+      try {
+        // Statistics stay available for SESSION_END, as for a drained session
+        const result = await this.endSession(sessionId);
+        this.rememberResult(sessionId, result);
+        this.emit('sessionComplete', sessionId, result, 'ERROR');
+      } catch (error) {
+        logger.error('Failed to end pipeline session over its memory limit', { error, sessionId });
+      }
+      return;
+    }
+
+    this.memoryManager.allocate(sessionId, chunk.audio.length);
+    this.memoryManager.updateActivity(sessionId);
+
+    try {
+      await this.audioProcessor.processChunk(sessionId, chunk.audio, session.format);
+    } catch (error) {
+      logger.error('Failed to play pipeline chunk', { error, sessionId, sequenceNumber: chunk.sequenceNumber });
+    }
+  }
+
+  private beginDrain(sessionId: string, statistics: SessionStatistics, reason: SessionEndReason): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.drainTimer) return;
+
+    session.endReason = reason;
+
+    // The UDP session is still readable while its sessionEnd event is being emitted
+    const networkConditions = this.transportFor(sessionId).getNetworkConditions(sessionId);
+    session.statistics = {
+      ...statistics,
+      jitterMs: networkConditions?.jitterMs ?? statistics.jitterMs
+    };
+
+    // Short sessions may never reach the jitter buffer's start threshold
+    this.jitterBuffer.drain(sessionId);
+    session.drainStarted = Date.now();
+    session.drainTimer = setInterval(async () => {
+      const drained = this.syncManager.getQueueLength(sessionId) === 0 &&
+        this.jitterBuffer.getBufferStatus(sessionId).bufferSize === 0;
+      const timedOut = Date.now() - session.drainStarted > AudioPipeline.DRAIN_TIMEOUT;
+
+      if (!drained && !timedOut) return;
+
+      if (session.drainTimer) {
+        clearInterval(session.drainTimer);
+        session.drainTimer = null;
+      }
+      if (timedOut) {
+        logger.warn('Pipeline drain timed out', { sessionId });
+      }
+
+      this.sessions.delete(sessionId);
+      try {
+        const result = await this.teardown(sessionId, session.statistics);
+        this.rememberResult(sessionId, result);
+        this.emit('sessionComplete', sessionId, result, session.endReason);
+      } catch (error) {
+        logger.error('Failed to tear down drained pipeline session', { error, sessionId });
+      }
+    }, AudioPipeline.DRAIN_CHECK_INTERVAL);
+  }
+
+  private async teardown(sessionId: string, statistics: SessionStatistics | null): Promise<PipelineSessionResult> {
+    const bufferStatistics = this.jitterBuffer.endSession(sessionId);
+    this.syncManager.endSession(sessionId);
+    try {
+      await this.audioProcessor.finalizeStream(sessionId);
+    } catch (error) {
+      // A stream that fails to save must not cost the session its statistics
+      logger.error('Failed to finalize pipeline stream', { error, sessionId });
+    }
+    this.memoryManager.deallocate(sessionId);
+
+    return {
+      statistics,
+      droppedChunks: bufferStatistics?.droppedPackets ?? 0
+    };
+  }
+
+  private transportFor(sessionId: string): UDPAudioServer | RTPAudioServer {
+    return this.sessions.get(sessionId)?.transport === 'rtp' && this.rtpServer ? this.rtpServer : this.udpServer;
+  }
+
+  private rememberResult(sessionId: string, result: PipelineSessionResult): void {
+    this.completedSessions.set(sessionId, result);
+
+    // Results wait for SESSION_END; forget the oldest if the voice service never sends it
+    if (this.completedSessions.size > AudioPipeline.MAX_COMPLETED_SESSIONS) {
+      const oldest = this.completedSessions.keys().next().value;
+      if (oldest !== undefined) this.completedSessions.delete(oldest);
+    }
+  }
+}
+
+function formatEndpoint(host: string, port: number): string {
+  return net.isIPv6(host) ? `[${host}]:${port}` : `${host}:${port}`;
+}
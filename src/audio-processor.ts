@@ -5,12 +5,13 @@ import * as path from 'path';
 import Speaker from 'speaker';
 import { logger } from './logger';
 import { AudioDeviceManager } from './audio-devices';
-import { AudioStream, SpeakerConfig, Config } from './types';
+import { AudioStream, SpeakerConfig, Config, OutputDeviceStatus } from './types';
 import { SecurityValidator, MemoryManager } from './security';
 
 export class AudioProcessor {
   private streams = new Map<string, AudioStream>();
   private config: Config['audio'];
+  private outputError: { message: string; at: number } | null = null;
 
   constructor(config: Config['audio'], _memoryManager: MemoryManager) {
     this.config = config;
@@ -33,7 +34,13 @@ export class AudioProcessor {
     };
 
     // Create appropriate output based on format and config
-    stream.output = await this.createOutput(format, sampleRate);
+    try {
+      stream.output = await this.createOutput(format, sampleRate);
+      this.outputError = null;
+    } catch (error) {
+      this.recordOutputError(error);
+      throw error;
+    }
     
     this.streams.set(sessionId, stream);
     return stream;
@@ -139,6 +146,7 @@ export class AudioProcessor {
 
     ffplay.on('error', (err) => {
       logger.error('FFplay error', { error: err });
+      this.recordOutputError(err);
     });
 
     return ffplay;
@@ -166,11 +174,30 @@ export class AudioProcessor {
 
     vlc.on('error', (err) => {
       logger.error('VLC error', { error: err });
+      this.recordOutputError(err);
     });
 
     return vlc;
   }
 
+  getOutputStatus(): OutputDeviceStatus {
+    return {
+      type: this.config.output.type,
+      device: this.config.output.device || null,
+      available: this.outputError === null,
+      openOutputs: Array.from(this.streams.values()).filter(stream => stream.output !== null).length,
+      lastError: this.outputError?.message ?? null,
+      lastErrorAt: this.outputError?.at ?? null
+    };
+  }
+
+  private recordOutputError(error: unknown): void {
+    this.outputError = {
+      message: error instanceof Error ? error.message : String(error),
+      at: Date.now()
+    };
+  }
+
   async processChunk(sessionId: string, chunk: Buffer, _format: string): Promise<void> {
     const stream = this.streams.get(sessionId);
     if (!stream) {
@@ -229,6 +256,31 @@ export class AudioProcessor {
     });
   }
 
+  async abortStream(sessionId: string): Promise<void> {
+    const stream = this.streams.get(sessionId);
+    if (!stream) return;
+
+    // Discard whatever is still queued instead of playing it out
+    if (stream.output) {
+      if ('close' in stream.output && typeof stream.output.close === 'function') {
+        // Speaker: flush drops the samples still queued in the device
+        stream.output.close(true);
+      } else if ('destroy' in stream.output && typeof stream.output.destroy === 'function') {
+        stream.output.destroy();
+      } else if ('kill' in stream.output) {
+        stream.output.kill();
+      }
+    }
+
+    this.streams.delete(sessionId);
+
+    logger.info('Stream aborted', {
+      sessionId,
+      duration: Date.now() - stream.startTime,
+      chunks: stream.buffer.length
+    });
+  }
+
   private async saveToFile(stream: AudioStream): Promise<void> {
     const timestamp = new Date().toISOString();
     const filename = SecurityValidator.generateSafeFilename(
@@ -70,14 +70,7 @@ export class AudioSyncManager extends EventEmitter {
       });
     }
 
-    // Calculate when this specific chunk should play
-    // playbackTime in packet is relative to TTS generation
-    const relativePlaybackTime = packet.playbackTime - packet.timestamp;
-    const absolutePlaybackTime = session.audioStartTime + relativePlaybackTime;
-
-    // Adjust for network conditions
-    const jitterCompensation = Math.min(networkConditions.jitterMs * 2, 20); // Max 20ms compensation
-    const targetPlaybackTime = absolutePlaybackTime + jitterCompensation;
+    const targetPlaybackTime = this.targetPlaybackTime(session, packet, networkConditions);
 
     // Never schedule playback in the past
     const now = Date.now();
@@ -88,8 +81,7 @@ export class AudioSyncManager extends EventEmitter {
       sequenceNumber: packet.sequenceNumber,
       ttsTimestamp: packet.timestamp,
       packetPlaybackTime: packet.playbackTime,
-      relativeTime: relativePlaybackTime,
-      absoluteTime: absolutePlaybackTime,
+      targetTime: targetPlaybackTime,
       finalTime: finalPlaybackTime,
       delayFromNow: finalPlaybackTime - now
     });
@@ -97,12 +89,31 @@ export class AudioSyncManager extends EventEmitter {
     return finalPlaybackTime;
   }
 
+  /**
+   * Queues a packet for playback. With dropIfLate (used for retransmissions) a
+   * packet whose slot has already passed is refused instead of being played out
+   * of order; returns whether it was queued.
+   */
   scheduleAudioChunk(
     packet: AudioPacket, 
     syncTimestamps: SyncTimestamps, 
     networkConditions: NetworkConditions,
-    subtitles?: SubtitleData
-  ): void {
+    subtitles?: SubtitleData,
+    options: { dropIfLate?: boolean } = {}
+  ): boolean {
+    const session = this.sessions.get(packet.sessionId);
+    if (options.dropIfLate && session && session.audioStartTime !== 0) {
+      const lateness = Date.now() - this.targetPlaybackTime(session, packet, networkConditions);
+      if (lateness > 0) {
+        logger.debug('Dropping audio chunk that missed its playout deadline', {
+          sessionId: packet.sessionId,
+          sequenceNumber: packet.sequenceNumber,
+          lateness
+        });
+        return false;
+      }
+    }
+
     const playbackTime = this.calculatePlaybackTime(packet, syncTimestamps, networkConditions);
     
     // Calculate audio duration for this chunk
@@ -143,6 +154,15 @@ export class AudioSyncManager extends EventEmitter {
       duration: durationMs,
       queueLength: queue.length
     });
+    return true;
+  }
+
+  // When a chunk should play: its offset in the TTS stream from the session's
+  // audio start, plus a little jitter compensation
+  private targetPlaybackTime(session: SyncSession, packet: AudioPacket, networkConditions: NetworkConditions): number {
+    const relativePlaybackTime = packet.playbackTime - packet.timestamp;
+    const jitterCompensation = Math.min(networkConditions.jitterMs * 2, 20); // Max 20ms compensation
+    return session.audioStartTime + relativePlaybackTime + jitterCompensation;
   }
 
   private startPlaybackLoop(sessionId: string): void {
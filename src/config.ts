@@ -1,17 +1,99 @@
-import { Config } from './types';
+import {
+  Config,
+  InterruptedStreamPolicy,
+  RedisMode,
+  RedisNode,
+  RtpEncoding,
+  RtpPayloadMapping,
+  UdpMulticastConfig,
+  UdpSourcePolicy
+} from './types';
 import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
 
 dotenv.config();
 
+// "host:port,host:port"; entries without a port use the default
+function parseRedisNodes(value: string | undefined, defaultPort: number): RedisNode[] {
+  return (value || '').split(',').map(s => s.trim()).filter(Boolean).map(entry => {
+    const match = /^\[?([^\]]+?)\]?(?::(\d+))?$/.exec(entry);
+    return {
+      host: match ? match[1] : entry,
+      port: match?.[2] ? parseInt(match[2], 10) : defaultPort
+    };
+  });
+}
+
+// "96=opus/48000/2,97=L16/16000"; channels default to 1. Entries that do not
+// parse are kept with NaN fields for validateConfig to report.
+function parseRtpPayloadTypes(value: string | undefined): Record<number, RtpPayloadMapping> {
+  const mappings: Record<number, RtpPayloadMapping> = {};
+  for (const entry of (value || '').split(',').map(s => s.trim()).filter(Boolean)) {
+    const [payloadType, encoding, clockRate, channels] = entry.split(/[=/]/);
+    mappings[parseInt(payloadType, 10)] = {
+      encoding: encoding as RtpEncoding,
+      clockRate: parseInt(clockRate, 10),
+      channels: channels ? parseInt(channels, 10) : 1
+    };
+  }
+  return mappings;
+}
+
 export const config: Config = {
   redis: {
+    mode: (process.env.REDIS_MODE as RedisMode) || 'standalone',
     host: process.env.REDIS_HOST || 'localhost',
     port: parseInt(process.env.REDIS_PORT || '6379', 10),
-    password: process.env.REDIS_PASSWORD
+    username: process.env.REDIS_USERNAME || undefined,
+    password: process.env.REDIS_PASSWORD,
+    tls: {
+      enabled: process.env.REDIS_TLS === 'true',
+      caFile: process.env.REDIS_TLS_CA || undefined,
+      certFile: process.env.REDIS_TLS_CERT || undefined,
+      keyFile: process.env.REDIS_TLS_KEY || undefined,
+      servername: process.env.REDIS_TLS_SERVERNAME || undefined,
+      rejectUnauthorized: process.env.REDIS_TLS_REJECT_UNAUTHORIZED !== 'false'
+    },
+    sentinel: {
+      masterName: process.env.REDIS_SENTINEL_MASTER || 'mymaster',
+      nodes: parseRedisNodes(process.env.REDIS_SENTINELS, 26379),
+      password: process.env.REDIS_SENTINEL_PASSWORD || undefined
+    },
+    cluster: {
+      nodes: parseRedisNodes(process.env.REDIS_CLUSTER_NODES, 6379)
+    }
   },
   channels: {
     responses: process.env.VOICE_RESPONSE_CHANNEL || 'chip.voice.responses',
-    health: process.env.HEALTH_CHANNEL || 'chip.services.health'
+    health: process.env.HEALTH_CHANNEL || 'chip.services.health',
+    sessions: process.env.SESSION_CHANNEL || 'chip.sessions',
+    sessionReplies: process.env.SESSION_REPLY_CHANNEL || 'chip.sessions.replies'
+  },
+  ingestion: {
+    mode: (process.env.INGESTION_MODE as 'pubsub' | 'streams') || 'pubsub',
+    streamKey: process.env.VOICE_RESPONSE_STREAM || 'chip.voice.responses.stream',
+    consumerGroup: process.env.STREAM_CONSUMER_GROUP || 'audio-receivers',
+    consumerName: process.env.STREAM_CONSUMER_NAME || os.hostname(),
+    batchSize: parseInt(process.env.STREAM_BATCH_SIZE || '10', 10),
+    blockMs: parseInt(process.env.STREAM_BLOCK_MS || '1000', 10),
+    claimIdleMs: parseInt(process.env.STREAM_CLAIM_IDLE_MS || '30000', 10),
+    reorderWindow: parseInt(process.env.REORDER_WINDOW || '8', 10),
+    reorderTimeoutMs: parseInt(process.env.REORDER_TIMEOUT_MS || '250', 10)
+  },
+  deadLetter: {
+    mode: (process.env.DEAD_LETTER_MODE as 'off' | 'pubsub' | 'stream') || 'off',
+    channel: process.env.DEAD_LETTER_CHANNEL || 'chip.voice.deadletter',
+    streamKey: process.env.DEAD_LETTER_STREAM || 'chip.voice.deadletter.stream',
+    maxStreamLength: parseInt(process.env.DEAD_LETTER_MAX_LENGTH || '10000', 10),
+    maxPayloadBytes: parseInt(process.env.DEAD_LETTER_MAX_PAYLOAD_BYTES || '65536', 10)
+  },
+  dependencies: {
+    services: (process.env.DEPENDENCY_SERVICES || 'voice').split(',').map(s => s.trim()).filter(Boolean),
+    heartbeatIntervalMs: parseInt(process.env.DEPENDENCY_HEARTBEAT_INTERVAL || '5000', 10),
+    degradedAfterMissed: parseInt(process.env.DEPENDENCY_DEGRADED_AFTER_MISSED || '2', 10),
+    downAfterMissed: parseInt(process.env.DEPENDENCY_DOWN_AFTER_MISSED || '4', 10)
   },
   audio: {
     output: {
@@ -29,11 +111,75 @@ export const config: Config = {
     reconnectMaxAttempts: parseInt(process.env.RECONNECT_MAX_ATTEMPTS || '10', 10),
     reconnectBaseDelay: parseInt(process.env.RECONNECT_BASE_DELAY || '1000', 10),
     reconnectMaxDelay: parseInt(process.env.RECONNECT_MAX_DELAY || '30000', 10),
-    healthCheckInterval: parseInt(process.env.HEALTH_CHECK_INTERVAL || '5000', 10)
+    healthCheckInterval: parseInt(process.env.HEALTH_CHECK_INTERVAL || '5000', 10),
+    interruptedStreamPolicy: (process.env.INTERRUPTED_STREAM_POLICY as InterruptedStreamPolicy) || 'wait',
+    interruptedStreamGraceMs: parseInt(process.env.INTERRUPTED_STREAM_GRACE_MS || '10000', 10)
   },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
     format: (process.env.LOG_FORMAT as 'json' | 'simple') || 'json'
+  },
+  udp: {
+    port: parseInt(process.env.UDP_AUDIO_PORT || '8001', 10),
+    enabled: process.env.UDP_ENABLED === 'true',
+    bindAddress: process.env.UDP_BIND_ADDRESS || '0.0.0.0',
+    socket: {
+      ipv6Only: process.env.UDP_IPV6_ONLY === 'true',
+      reuseAddr: process.env.UDP_REUSE_ADDR === 'true',
+      receiveBufferSize: process.env.UDP_RECV_BUFFER_BYTES ? parseInt(process.env.UDP_RECV_BUFFER_BYTES, 10) : undefined,
+      sendBufferSize: process.env.UDP_SEND_BUFFER_BYTES ? parseInt(process.env.UDP_SEND_BUFFER_BYTES, 10) : undefined
+    },
+    multicast: process.env.UDP_MULTICAST_GROUP
+      ? {
+        group: process.env.UDP_MULTICAST_GROUP,
+        interfaces: (process.env.UDP_MULTICAST_INTERFACES || '').split(',').map(iface => iface.trim()).filter(Boolean),
+        ttl: parseInt(process.env.UDP_MULTICAST_TTL || '1', 10),
+        loopback: process.env.UDP_MULTICAST_LOOPBACK === 'true'
+      }
+      : undefined,
+    receiverId: process.env.UDP_RECEIVER_ID || os.hostname(),
+    advertisedHost: process.env.UDP_ADVERTISED_HOST || os.hostname(),
+    acceptLegacyPackets: process.env.UDP_ACCEPT_LEGACY_PACKETS === 'true',
+    authSecret: process.env.UDP_AUTH_SECRET || undefined,
+    requireAuth: process.env.UDP_REQUIRE_AUTH === 'true',
+    requireEncryption: process.env.UDP_REQUIRE_ENCRYPTION === 'true',
+    keyGraceMs: parseInt(process.env.UDP_KEY_GRACE_MS || '5000', 10),
+    nack: {
+      enabled: process.env.UDP_NACK_ENABLED === 'true',
+      retryIntervalMs: parseInt(process.env.UDP_NACK_RETRY_MS || '40', 10),
+      maxRetries: parseInt(process.env.UDP_NACK_MAX_RETRIES || '3', 10),
+      maxWaitMs: parseInt(process.env.UDP_NACK_MAX_WAIT_MS || '250', 10)
+    },
+    fecEnabled: process.env.UDP_FEC_ENABLED !== 'false',
+    reassembly: {
+      timeoutMs: parseInt(process.env.UDP_REASSEMBLY_TIMEOUT_MS || '200', 10),
+      maxBytes: parseInt(process.env.UDP_REASSEMBLY_MAX_BYTES || String(4 * 1024 * 1024), 10)
+    },
+    inactivity: {
+      idleTimeoutMs: parseInt(process.env.UDP_SESSION_IDLE_TIMEOUT_MS || '30000', 10),
+      firstPacketTimeoutMs: parseInt(process.env.UDP_SESSION_FIRST_PACKET_TIMEOUT_MS || '10000', 10)
+    },
+    sourcePolicy: (process.env.UDP_SOURCE_POLICY as UdpSourcePolicy) || 'address',
+    rtp: {
+      enabled: process.env.UDP_RTP_ENABLED === 'true',
+      port: parseInt(process.env.UDP_RTP_PORT || '5004', 10),
+      payloadTypes: parseRtpPayloadTypes(process.env.UDP_RTP_PAYLOAD_TYPES || '96=opus/48000/2'),
+      reportIntervalMs: parseInt(process.env.UDP_RTCP_INTERVAL_MS || '5000', 10)
+    },
+    tcp: {
+      enabled: process.env.UDP_TCP_ENABLED === 'true',
+      port: parseInt(process.env.UDP_TCP_PORT || '8002', 10),
+      maxFrameBytes: parseInt(process.env.UDP_TCP_MAX_FRAME_BYTES || String(1024 * 1024), 10),
+      maxConnections: parseInt(process.env.UDP_TCP_MAX_CONNECTIONS || '64', 10),
+      idleTimeoutMs: parseInt(process.env.UDP_TCP_IDLE_TIMEOUT_MS || '30000', 10),
+      preferred: process.env.UDP_TCP_PREFERRED === 'true'
+    }
+  },
+  jitterBuffer: {
+    targetBufferMs: parseInt(process.env.JITTER_BUFFER_TARGET_MS || '100', 10),
+    minBufferMs: parseInt(process.env.JITTER_BUFFER_MIN_MS || '50', 10),
+    maxBufferMs: parseInt(process.env.JITTER_BUFFER_MAX_MS || '300', 10),
+    adaptiveMode: process.env.JITTER_BUFFER_ADAPTIVE !== 'false'
   }
 };
 
@@ -42,12 +188,229 @@ export function validateConfig(): void {
     throw new Error('REDIS_HOST is required');
   }
 
+  validateRedisConfig();
+
   const validAudioTypes = ['speaker', 'ffplay', 'vlc', 'file'];
   if (!validAudioTypes.includes(config.audio.output.type)) {
     throw new Error(`Invalid AUDIO_OUTPUT_TYPE. Must be one of: ${validAudioTypes.join(', ')}`);
   }
 
+  const validIngestionModes = ['pubsub', 'streams'];
+  if (!validIngestionModes.includes(config.ingestion.mode)) {
+    throw new Error(`Invalid INGESTION_MODE. Must be one of: ${validIngestionModes.join(', ')}`);
+  }
+
+  const validDeadLetterModes = ['off', 'pubsub', 'stream'];
+  if (!validDeadLetterModes.includes(config.deadLetter.mode)) {
+    throw new Error(`Invalid DEAD_LETTER_MODE. Must be one of: ${validDeadLetterModes.join(', ')}`);
+  }
+
+  if (config.deadLetter.maxPayloadBytes < 1 || config.deadLetter.maxStreamLength < 1) {
+    throw new Error('DEAD_LETTER_MAX_PAYLOAD_BYTES and DEAD_LETTER_MAX_LENGTH must be at least 1');
+  }
+
+  if (config.ingestion.reorderWindow < 1) {
+    throw new Error('REORDER_WINDOW must be at least 1');
+  }
+
+  const validStreamPolicies = ['finalize', 'wait', 'interrupt'];
+  if (!validStreamPolicies.includes(config.resilience.interruptedStreamPolicy)) {
+    throw new Error(`Invalid INTERRUPTED_STREAM_POLICY. Must be one of: ${validStreamPolicies.join(', ')}`);
+  }
+
+  if (config.dependencies.degradedAfterMissed < 1 ||
+      config.dependencies.downAfterMissed <= config.dependencies.degradedAfterMissed) {
+    throw new Error('DEPENDENCY_DOWN_AFTER_MISSED must be greater than DEPENDENCY_DEGRADED_AFTER_MISSED (minimum 1)');
+  }
+
   if (config.metrics.port < 1 || config.metrics.port > 65535) {
     throw new Error('METRICS_PORT must be between 1 and 65535');
   }
-}
\ No newline at end of file
+
+  if (config.resilience.healthCheckInterval < 1000) {
+    throw new Error('HEALTH_CHECK_INTERVAL must be at least 1000ms');
+  }
+
+  if (config.udp?.enabled && (config.udp.port < 0 || config.udp.port > 65535)) {
+    throw new Error('UDP_AUDIO_PORT must be between 0 and 65535');
+  }
+
+  if (config.udp && net.isIP(config.udp.bindAddress) === 0) {
+    throw new Error('UDP_BIND_ADDRESS must be an IPv4 or IPv6 address');
+  }
+
+  if (config.udp?.socket.ipv6Only && !net.isIPv6(config.udp.bindAddress)) {
+    throw new Error('UDP_IPV6_ONLY requires an IPv6 UDP_BIND_ADDRESS');
+  }
+
+  if (config.udp?.multicast) {
+    validateMulticastConfig(config.udp.multicast, config.udp.bindAddress);
+  }
+
+  for (const [name, size] of [
+    ['UDP_RECV_BUFFER_BYTES', config.udp?.socket.receiveBufferSize],
+    ['UDP_SEND_BUFFER_BYTES', config.udp?.socket.sendBufferSize]
+  ] as const) {
+    if (size !== undefined && !(size >= 1)) {
+      throw new Error(`${name} must be a positive number of bytes`);
+    }
+  }
+
+  if (config.udp?.authSecret && Buffer.byteLength(config.udp.authSecret) < 16) {
+    throw new Error('UDP_AUTH_SECRET must be at least 16 bytes');
+  }
+
+  if (config.udp && !(config.udp.keyGraceMs >= 0)) {
+    throw new Error('UDP_KEY_GRACE_MS must be a non-negative number');
+  }
+
+  if (config.udp?.nack.enabled) {
+    const { retryIntervalMs, maxRetries, maxWaitMs } = config.udp.nack;
+    if (!(retryIntervalMs >= 1) || !(maxRetries >= 1)) {
+      throw new Error('UDP_NACK_RETRY_MS and UDP_NACK_MAX_RETRIES must be at least 1');
+    }
+    if (!(maxWaitMs >= retryIntervalMs)) {
+      throw new Error('UDP_NACK_MAX_WAIT_MS must be at least UDP_NACK_RETRY_MS');
+    }
+  }
+
+  if (config.udp && (!(config.udp.reassembly.timeoutMs >= 1) || !(config.udp.reassembly.maxBytes >= 65536))) {
+    throw new Error('UDP_REASSEMBLY_TIMEOUT_MS must be at least 1 and UDP_REASSEMBLY_MAX_BYTES at least 65536');
+  }
+
+  if (config.udp) {
+    const { idleTimeoutMs, firstPacketTimeoutMs } = config.udp.inactivity;
+    if (!(idleTimeoutMs >= 0) || !(firstPacketTimeoutMs >= 0)) {
+      throw new Error('UDP_SESSION_IDLE_TIMEOUT_MS and UDP_SESSION_FIRST_PACKET_TIMEOUT_MS must be at least 0');
+    }
+    if (idleTimeoutMs > 0 && firstPacketTimeoutMs > idleTimeoutMs) {
+      throw new Error('UDP_SESSION_FIRST_PACKET_TIMEOUT_MS must not exceed UDP_SESSION_IDLE_TIMEOUT_MS');
+    }
+  }
+
+  const validSourcePolicies = ['strict', 'address', 'learn'];
+  if (config.udp && !validSourcePolicies.includes(config.udp.sourcePolicy)) {
+    throw new Error(`Invalid UDP_SOURCE_POLICY. Must be one of: ${validSourcePolicies.join(', ')}`);
+  }
+
+  if (config.udp?.rtp.enabled) {
+    validateRtpConfig(config.udp.rtp);
+  }
+
+  if (config.udp?.tcp.enabled && !(config.udp.tcp.port >= 0 && config.udp.tcp.port <= 65535)) {
+    throw new Error('UDP_TCP_PORT must be between 0 and 65535');
+  }
+
+  // A frame holds a whole datagram, so it must fit the largest one
+  if (config.udp?.tcp.enabled && !(config.udp.tcp.maxFrameBytes >= 65536)) {
+    throw new Error('UDP_TCP_MAX_FRAME_BYTES must be at least 65536');
+  }
+
+  if (config.udp?.tcp.enabled && !(config.udp.tcp.maxConnections >= 1)) {
+    throw new Error('UDP_TCP_MAX_CONNECTIONS must be at least 1');
+  }
+
+  if (config.udp?.tcp.enabled && !(config.udp.tcp.idleTimeoutMs >= 0)) {
+    throw new Error('UDP_TCP_IDLE_TIMEOUT_MS must be at least 0');
+  }
+}
+
+function validateRtpConfig(rtp: NonNullable<Config['udp']>['rtp']): void {
+  // RTCP takes the port after the RTP one
+  if (!(rtp.port >= 1 && rtp.port <= 65534)) {
+    throw new Error('UDP_RTP_PORT must be between 1 and 65534');
+  }
+
+  const validEncodings: RtpEncoding[] = ['L16', 'PCMU', 'opus'];
+  for (const [payloadType, mapping] of Object.entries(rtp.payloadTypes)) {
+    const type = Number(payloadType);
+    if (!(type >= 96 && type <= 127) || !validEncodings.includes(mapping.encoding) ||
+        !(mapping.clockRate >= 1) || !(mapping.channels >= 1 && mapping.channels <= 2)) {
+      throw new Error(
+        'UDP_RTP_PAYLOAD_TYPES must be a comma-separated list of type=encoding/clockRate[/channels] ' +
+        `with types 96-127, encodings ${validEncodings.join(', ')} and 1-2 channels`
+      );
+    }
+  }
+
+  if (!(rtp.reportIntervalMs >= 0)) {
+    throw new Error('UDP_RTCP_INTERVAL_MS must be at least 0');
+  }
+}
+
+function validateMulticastConfig(multicast: UdpMulticastConfig, bindAddress: string): void {
+  const { group } = multicast;
+  const isGroup = net.isIPv4(group)
+    ? parseInt(group.split('.')[0], 10) >= 224 && parseInt(group.split('.')[0], 10) <= 239
+    : net.isIPv6(group) && /^ff/i.test(group);
+  if (!isGroup) {
+    throw new Error('UDP_MULTICAST_GROUP must be an IPv4 (224.0.0.0/4) or IPv6 (ff00::/8) multicast address');
+  }
+
+  // A socket bound to a unicast address does not see group traffic on Linux
+  const wildcard = bindAddress === '0.0.0.0' || bindAddress === '::';
+  if (!wildcard || (net.isIPv6(group) && bindAddress !== '::')) {
+    throw new Error('UDP_MULTICAST_GROUP needs UDP_BIND_ADDRESS 0.0.0.0 (IPv4 groups) or :: (either family)');
+  }
+
+  if (multicast.interfaces.some(iface => net.isIP(iface) === 0)) {
+    throw new Error('UDP_MULTICAST_INTERFACES must be a comma-separated list of local interface addresses');
+  }
+
+  if (!(multicast.ttl >= 0 && multicast.ttl <= 255)) {
+    throw new Error('UDP_MULTICAST_TTL must be between 0 and 255');
+  }
+}
+
+function validateRedisConfig(): void {
+  const { redis } = config;
+
+  const validModes = ['standalone', 'sentinel', 'cluster'];
+  if (!validModes.includes(redis.mode)) {
+    throw new Error(`Invalid REDIS_MODE. Must be one of: ${validModes.join(', ')}`);
+  }
+
+  if (redis.mode === 'sentinel') {
+    if (redis.sentinel.nodes.length === 0) {
+      throw new Error('REDIS_SENTINELS is required when REDIS_MODE=sentinel');
+    }
+    if (!redis.sentinel.masterName) {
+      throw new Error('REDIS_SENTINEL_MASTER is required when REDIS_MODE=sentinel');
+    }
+  }
+
+  if (redis.mode === 'cluster' && redis.cluster.nodes.length === 0) {
+    throw new Error('REDIS_CLUSTER_NODES is required when REDIS_MODE=cluster');
+  }
+
+  const nodes = [...redis.sentinel.nodes, ...redis.cluster.nodes];
+  const invalidNode = nodes.find(node => !node.host || !(node.port >= 1 && node.port <= 65535));
+  if (invalidNode) {
+    throw new Error(`Invalid Redis node "${invalidNode.host}:${invalidNode.port}". Expected host:port`);
+  }
+
+  if (redis.username && !redis.password) {
+    throw new Error('REDIS_PASSWORD is required when REDIS_USERNAME is set');
+  }
+
+  const { tls } = redis;
+  const tlsFiles = { REDIS_TLS_CA: tls.caFile, REDIS_TLS_CERT: tls.certFile, REDIS_TLS_KEY: tls.keyFile };
+  const configuredFiles = Object.entries(tlsFiles).filter(([, file]) => file);
+
+  if (!tls.enabled) {
+    if (configuredFiles.length > 0 || tls.servername) {
+      throw new Error('REDIS_TLS must be true when Redis TLS options are set');
+    }
+    return;
+  }
+
+  if (Boolean(tls.certFile) !== Boolean(tls.keyFile)) {
+    throw new Error('REDIS_TLS_CERT and REDIS_TLS_KEY must be set together');
+  }
+
+  for (const [name, file] of configuredFiles) {
+    if (!fs.existsSync(file as string)) {
+      throw new Error(`${name} file not found: ${file}`);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+
+import { config } from './config';
+import { DeadLetterQueue, StoredDeadLetter } from './dead-letter';
+import { logInfo, logSection, logSuccess, logError } from './logger';
+import { createRedisConnection, RedisConnection } from './redis-connection';
+import { DeadLetterEntry } from './types';
+
+const USAGE = `Usage: npm run dead-letter -- <command>
+
+  list [count]          Show the most recent entries (default 20)
+  show <id>             Print one entry including its payload
+  reinject <id> [--keep]
+                        Send the payload back to its source and delete the entry
+  delete <id>           Delete an entry
+  tail                  Print entries as they are published (DEAD_LETTER_MODE=pubsub)`;
+
+function printSummary({ id, entry }: StoredDeadLetter): void {
+  const session = entry.sessionId ? ` session=${entry.sessionId}` : '';
+  const truncated = entry.truncated ? ` (truncated, ${entry.payloadBytes} bytes)` : '';
+  console.log(`  ${id}  ${entry.rejectedAt}  ${entry.reason}  ${entry.source}${session}${truncated}`);
+  console.log(`     ${entry.detail}`);
+}
+
+function printEntry(entry: DeadLetterEntry): void {
+  console.log(JSON.stringify(entry, null, 2));
+}
+
+async function tail(client: RedisConnection): Promise<void> {
+  logInfo('[DEAD LETTER]', `Waiting for entries on ${config.deadLetter.channel} (Ctrl+C to stop)`);
+  await client.subscribe(config.deadLetter.channel, (message) => {
+    printEntry(JSON.parse(message) as DeadLetterEntry);
+  });
+  await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+}
+
+async function run(args: string[]): Promise<void> {
+  const [command, id] = args;
+  if (!command || !['list', 'show', 'reinject', 'delete', 'tail'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+  if (['show', 'reinject', 'delete'].includes(command) && !id) {
+    logError(`Missing entry id for "${command}"`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const client = await createRedisConnection(config.redis);
+  client.on('error', (error) => logError('Redis connection error', error));
+  await client.connect();
+
+  const queue = new DeadLetterQueue(config.deadLetter, () => client, 'dead-letter-cli');
+
+  try {
+    switch (command) {
+      case 'list': {
+        const count = parseInt(id || '20', 10);
+        logSection(`Dead-letter entries in ${config.deadLetter.streamKey}`);
+        const entries = await queue.list(count);
+        if (entries.length === 0) {
+          logInfo('[DEAD LETTER]', 'No entries');
+        }
+        entries.forEach(printSummary);
+        break;
+      }
+      case 'show': {
+        const stored = await queue.get(id);
+        if (!stored) {
+          logError(`Dead-letter entry ${id} not found`);
+          process.exitCode = 1;
+          break;
+        }
+        printEntry(stored.entry);
+        break;
+      }
+      case 'reinject': {
+        const entry = await queue.reinject(id, { keep: args.includes('--keep') });
+        logSuccess('Re-injected dead-letter entry', { id, source: entry.source, reason: entry.reason });
+        break;
+      }
+      case 'delete': {
+        if (await queue.remove(id)) {
+          logSuccess('Deleted dead-letter entry', { id });
+        } else {
+          logError(`Dead-letter entry ${id} not found`);
+          process.exitCode = 1;
+        }
+        break;
+      }
+      case 'tail':
+        await tail(client);
+        break;
+    }
+  } catch (error) {
+    logError(`Dead-letter ${command} failed`, error);
+    process.exitCode = 1;
+  } finally {
+    await client.disconnect();
+  }
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).catch((error) => {
+    logError('Dead-letter CLI failed', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,156 @@
+import { EventEmitter } from 'events';
+import { RedisConnection } from './redis-connection';
+import { logger } from './logger';
+import { RedisStreamConsumer } from './stream-consumer';
+import { DeadLetterConfig, DeadLetterEntry, DeadLetterReason } from './types';
+
+export interface DeadLetterInput {
+  reason: DeadLetterReason;
+  detail: string;
+  source: string;
+  sourceType: 'pubsub' | 'stream';
+  payload: string;
+  sessionId?: string | null;
+  messageId?: string | null;
+}
+
+export interface StoredDeadLetter {
+  id: string;
+  entry: DeadLetterEntry;
+}
+
+/**
+ * Sends messages the receiver had to drop to a dead-letter channel or stream,
+ * together with the reason, so bad producers can be debugged and fixed messages
+ * re-injected. Sending never throws; failures are logged and the message is lost
+ * as it was before.
+ *
+ * Emits 'deadLettered' (entry) for every entry that reached Redis.
+ */
+export class DeadLetterQueue extends EventEmitter {
+  static readonly ENTRY_FIELD = 'entry';
+
+  private options: DeadLetterConfig;
+  private getClient: () => RedisConnection | null;
+  private receiver: string;
+
+  constructor(options: DeadLetterConfig, getClient: () => RedisConnection | null, receiver: string) {
+    super();
+    this.options = options;
+    this.getClient = getClient;
+    this.receiver = receiver;
+  }
+
+  isEnabled(): boolean {
+    return this.options.mode !== 'off';
+  }
+
+  async send(input: DeadLetterInput): Promise<DeadLetterEntry | null> {
+    if (!this.isEnabled()) return null;
+
+    const entry = this.createEntry(input);
+    const client = this.getClient();
+    if (!client?.isOpen) {
+      logger.warn('Dead-letter destination unavailable, dropping message', { reason: entry.reason, source: entry.source });
+      return null;
+    }
+
+    try {
+      if (this.options.mode === 'stream') {
+        await client.xAdd(this.options.streamKey, '*', { [DeadLetterQueue.ENTRY_FIELD]: JSON.stringify(entry) }, {
+          TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: this.options.maxStreamLength }
+        });
+      } else {
+        await client.publish(this.options.channel, JSON.stringify(entry));
+      }
+    } catch (error) {
+      logger.error('Failed to dead-letter message', { error, reason: entry.reason, source: entry.source });
+      return null;
+    }
+
+    logger.debug('Message dead-lettered', {
+      reason: entry.reason,
+      source: entry.source,
+      sessionId: entry.sessionId,
+      truncated: entry.truncated
+    });
+    this.emit('deadLettered', entry);
+    return entry;
+  }
+
+  // Inspection and re-injection need the stream destination
+
+  async list(count: number): Promise<StoredDeadLetter[]> {
+    const entries = await this.requireStreamClient().xRevRange(this.options.streamKey, '+', '-', { COUNT: count });
+    return entries.map(({ id, message }) => this.parseStored(id, message));
+  }
+
+  async get(id: string): Promise<StoredDeadLetter | null> {
+    const entries = await this.requireStreamClient().xRange(this.options.streamKey, id, id);
+    return entries.length > 0 ? this.parseStored(entries[0].id, entries[0].message) : null;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return (await this.requireStreamClient().xDel(this.options.streamKey, id)) > 0;
+  }
+
+  async reinject(id: string, options: { keep?: boolean } = {}): Promise<DeadLetterEntry> {
+    const stored = await this.get(id);
+    if (!stored) {
+      throw new Error(`Dead-letter entry ${id} not found`);
+    }
+
+    const { entry } = stored;
+    if (entry.truncated) {
+      throw new Error(`Dead-letter entry ${id} was truncated (${entry.payloadBytes} bytes) and cannot be re-injected`);
+    }
+
+    const client = this.requireStreamClient();
+    if (entry.sourceType === 'stream') {
+      await client.xAdd(entry.source, '*', { [RedisStreamConsumer.MESSAGE_FIELD]: entry.payload });
+    } else {
+      await client.publish(entry.source, entry.payload);
+    }
+
+    if (!options.keep) {
+      await this.remove(id);
+    }
+    return entry;
+  }
+
+  private createEntry(input: DeadLetterInput): DeadLetterEntry {
+    const payloadBytes = Buffer.byteLength(input.payload);
+    const truncated = payloadBytes > this.options.maxPayloadBytes;
+
+    return {
+      reason: input.reason,
+      detail: input.detail,
+      source: input.source,
+      sourceType: input.sourceType,
+      sessionId: input.sessionId ?? null,
+      messageId: input.messageId ?? null,
+      payload: truncated
+        ? Buffer.from(input.payload).subarray(0, this.options.maxPayloadBytes).toString('utf8')
+        : input.payload,
+      payloadBytes,
+      truncated,
+      rejectedAt: new Date().toISOString(),
+      receiver: this.receiver
+    };
+  }
+
+  private parseStored(id: string, message: Record<string, string>): StoredDeadLetter {
+    return { id, entry: JSON.parse(message[DeadLetterQueue.ENTRY_FIELD]) as DeadLetterEntry };
+  }
+
+  private requireStreamClient(): RedisConnection {
+    if (this.options.mode !== 'stream') {
+      throw new Error('Dead-letter inspection requires DEAD_LETTER_MODE=stream');
+    }
+    const client = this.getClient();
+    if (!client) {
+      throw new Error('Redis client not connected');
+    }
+    return client;
+  }
+}
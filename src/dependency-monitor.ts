@@ -0,0 +1,140 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+import { DependencyConfig, DependencyState, DependencyStatus, ServiceHealth } from './types';
+
+/**
+ * Tracks the health of upstream services from their heartbeats.
+ *
+ * A service is healthy while it reports healthy heartbeats on time, degraded when
+ * it reports itself unhealthy or misses `degradedAfterMissed` heartbeats, and down
+ * after `downAfterMissed` missed heartbeats. Emits 'stateChange' on every transition
+ * and 'heartbeat' for every accepted heartbeat.
+ *
+ * Services that are not configured are tracked once they report, up to
+ * MAX_UNCONFIGURED_SERVICES at a time, and forgotten once they go down.
+ */
+export class DependencyMonitor extends EventEmitter {
+  static readonly MAX_UNCONFIGURED_SERVICES = 32;
+
+  private options: DependencyConfig;
+  private dependencies = new Map<string, DependencyStatus>();
+  private checkTimer: NodeJS.Timeout | null = null;
+  private ignoredServices: Set<string>;
+
+  constructor(options: DependencyConfig, ignoredServices: string[] = []) {
+    super();
+    this.options = options;
+    this.ignoredServices = new Set(ignoredServices);
+
+    // Expected services go down if they never announce themselves
+    const now = Date.now();
+    for (const service of options.services) {
+      this.dependencies.set(service, {
+        service,
+        state: 'unknown',
+        since: now,
+        lastHeartbeat: null,
+        missedHeartbeats: 0,
+        uptime: null,
+        transitions: 0
+      });
+    }
+  }
+
+  start(): void {
+    if (this.checkTimer) return;
+
+    this.checkTimer = setInterval(() => {
+      this.checkHeartbeats();
+    }, this.options.heartbeatIntervalMs);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  recordHeartbeat(health: ServiceHealth): void {
+    if (this.ignoredServices.has(health.service)) return;
+
+    const now = Date.now();
+    let dependency = this.dependencies.get(health.service);
+    if (!dependency) {
+      const unconfigured = this.dependencies.size - this.options.services.length;
+      if (unconfigured >= DependencyMonitor.MAX_UNCONFIGURED_SERVICES) {
+        logger.debug('Ignoring heartbeat from untracked service', { service: health.service });
+        return;
+      }
+
+      dependency = {
+        service: health.service,
+        state: 'unknown',
+        since: now,
+        lastHeartbeat: null,
+        missedHeartbeats: 0,
+        uptime: null,
+        transitions: 0
+      };
+      this.dependencies.set(health.service, dependency);
+    }
+
+    dependency.lastHeartbeat = now;
+    dependency.missedHeartbeats = 0;
+    dependency.uptime = health.details?.uptime ?? null;
+
+    this.transition(dependency, health.status === 'healthy' ? 'healthy' : 'degraded', `reported ${health.status}`);
+    this.emit('heartbeat', health.service, health);
+  }
+
+  checkHeartbeats(): void {
+    const now = Date.now();
+
+    this.dependencies.forEach(dependency => {
+      const reference = dependency.lastHeartbeat ?? dependency.since;
+      // Services that never reported only start counting once they are overdue
+      const missed = Math.floor((now - reference) / this.options.heartbeatIntervalMs);
+      dependency.missedHeartbeats = missed;
+
+      if (missed >= this.options.downAfterMissed) {
+        this.transition(dependency, 'down', `missed ${missed} heartbeats`);
+        if (!this.options.services.includes(dependency.service)) {
+          this.dependencies.delete(dependency.service);
+        }
+      } else if (missed >= this.options.degradedAfterMissed && dependency.state === 'healthy') {
+        this.transition(dependency, 'degraded', `missed ${missed} heartbeats`);
+      }
+    });
+  }
+
+  getState(service: string): DependencyState {
+    return this.dependencies.get(service)?.state ?? 'unknown';
+  }
+
+  getStatus(): Record<string, DependencyStatus> {
+    const status: Record<string, DependencyStatus> = {};
+    this.dependencies.forEach((dependency, service) => {
+      status[service] = { ...dependency };
+    });
+    return status;
+  }
+
+  private transition(dependency: DependencyStatus, state: DependencyState, reason: string): void {
+    if (dependency.state === state) return;
+
+    const previous = dependency.state;
+    dependency.state = state;
+    dependency.since = Date.now();
+    dependency.transitions++;
+
+    const details = { service: dependency.service, from: previous, to: state, reason };
+    if (state === 'healthy') {
+      logger.info('Dependency state changed', details);
+    } else {
+      logger.warn('Dependency state changed', details);
+    }
+
+    this.emit('stateChange', dependency.service, state, previous, { ...dependency });
+  }
+}
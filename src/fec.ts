@@ -0,0 +1,274 @@
+import { PacketDecodeError } from './packet-codec';
+import { AudioPacket, FecScheme } from './types';
+
+/**
+ * XOR parity forward error correction for the UDP audio stream.
+ *
+ * Data packets are grouped by sequence number into aligned groups of groupSize
+ * (0..N-1, N..2N-1, ...). After a group the sender sends one parity packet whose
+ * sequence number is the group's first, flagged as parity, with this payload:
+ *
+ *   offset  size  field
+ *        0     1  data packets covered (the last group of a session may be short)
+ *        1     4  XOR of the payload lengths
+ *        5     8  XOR of the timestamps
+ *       13     8  XOR of the playback times
+ *       21     1  XOR of the flags (bit 0: last packet)
+ *       22     n  XOR of the payloads, each zero-padded to the longest
+ *
+ * Any single missing packet of a group can be rebuilt from the others and the
+ * parity. Format and sample rate are taken from the parity packet itself.
+ * Parity that cannot be used is rejected with PacketDecodeError('bad_parity').
+ */
+const PARITY_HEADER_SIZE = 22;
+
+export const FEC_SCHEMES: readonly FecScheme[] = ['xor'];
+
+export function buildParityPacket(group: AudioPacket[]): AudioPacket {
+  if (group.length === 0 || group.length > 255) {
+    throw new Error(`Parity groups must hold 1-255 packets, got ${group.length}`);
+  }
+
+  const longest = Math.max(...group.map(packet => packet.audioData.length));
+  const payload = Buffer.alloc(PARITY_HEADER_SIZE + longest);
+  payload.writeUInt8(group.length, 0);
+
+  let length = 0;
+  let timestamp = 0n;
+  let playbackTime = 0n;
+  let flags = 0;
+  for (const packet of group) {
+    length ^= packet.audioData.length;
+    timestamp ^= BigInt(packet.timestamp);
+    playbackTime ^= BigInt(packet.playbackTime);
+    flags ^= packet.isLast ? 1 : 0;
+    xorInto(payload, packet.audioData, PARITY_HEADER_SIZE);
+  }
+  payload.writeUInt32BE(length >>> 0, 1);
+  payload.writeBigUInt64BE(timestamp, 5);
+  payload.writeBigUInt64BE(playbackTime, 13);
+  payload.writeUInt8(flags, 21);
+
+  const [first] = group;
+  const last = group[group.length - 1];
+  return {
+    sessionId: first.sessionId,
+    sequenceNumber: first.sequenceNumber,
+    timestamp: last.timestamp,
+    playbackTime: last.playbackTime,
+    audioData: payload,
+    format: first.format,
+    sampleRate: first.sampleRate,
+    isLast: false,
+    parity: true
+  };
+}
+
+/**
+ * Rebuilds the one packet of a group that did not arrive.
+ */
+export function reconstructPacket(parity: AudioPacket, received: AudioPacket[], sequenceNumber: number): AudioPacket {
+  checkParityPayload(parity);
+
+  const accumulator = Buffer.from(parity.audioData);
+  let length = accumulator.readUInt32BE(1);
+  let timestamp = accumulator.readBigUInt64BE(5);
+  let playbackTime = accumulator.readBigUInt64BE(13);
+  let flags = accumulator.readUInt8(21);
+  for (const packet of received) {
+    length ^= packet.audioData.length;
+    timestamp ^= BigInt(packet.timestamp);
+    playbackTime ^= BigInt(packet.playbackTime);
+    flags ^= packet.isLast ? 1 : 0;
+    xorInto(accumulator, packet.audioData, PARITY_HEADER_SIZE);
+  }
+
+  length >>>= 0;
+  if (PARITY_HEADER_SIZE + length > accumulator.length) {
+    throw new PacketDecodeError('bad_parity', `Rebuilt payload length ${length} exceeds the parity payload`);
+  }
+
+  return {
+    sessionId: parity.sessionId,
+    sequenceNumber,
+    timestamp: Number(timestamp),
+    playbackTime: Number(playbackTime),
+    audioData: accumulator.subarray(PARITY_HEADER_SIZE, PARITY_HEADER_SIZE + length),
+    format: parity.format,
+    sampleRate: parity.sampleRate,
+    isLast: (flags & 1) !== 0
+  };
+}
+
+function checkParityPayload(parity: AudioPacket): void {
+  if (parity.audioData.length < PARITY_HEADER_SIZE) {
+    throw new PacketDecodeError(
+      'bad_parity',
+      `Parity payload of ${parity.audioData.length} bytes is shorter than its ${PARITY_HEADER_SIZE}-byte header`
+    );
+  }
+}
+
+function xorInto(target: Buffer, source: Buffer, offset: number): void {
+  for (let i = 0; i < source.length; i++) {
+    target[offset + i] ^= source[i];
+  }
+}
+
+/**
+ * Sender side: collects data packets and returns a parity packet whenever a
+ * group completes. flush() covers a final short group.
+ */
+export class FecEncoder {
+  private groupSize: number;
+  private group: AudioPacket[] = [];
+
+  constructor(groupSize: number) {
+    this.groupSize = groupSize;
+  }
+
+  push(packet: AudioPacket): AudioPacket | null {
+    this.group.push(packet);
+    return this.group.length === this.groupSize ? this.flush() : null;
+  }
+
+  flush(): AudioPacket | null {
+    if (this.group.length === 0) return null;
+    const parity = buildParityPacket(this.group);
+    this.group = [];
+    return parity;
+  }
+}
+
+interface FecGroup {
+  received: Map<number, AudioPacket>;
+  parity: AudioPacket | null;
+  done: boolean;
+  rebuilt: number | null;
+}
+
+export interface FecStatistics {
+  recovered: number;
+  unrecoverable: number;
+}
+
+/**
+ * Receiver side, one per session: remembers the last few groups and rebuilds a
+ * missing packet as soon as the rest of its group and the parity are in.
+ */
+export class FecDecoder {
+  private static readonly MAX_GROUPS = 16;
+
+  private groupSize: number;
+  private groups = new Map<number, FecGroup>();
+  private statistics: FecStatistics = { recovered: 0, unrecoverable: 0 };
+
+  constructor(groupSize: number) {
+    this.groupSize = groupSize;
+  }
+
+  /**
+   * Adds a data or parity packet and returns the packet it allowed to rebuild,
+   * if any. Throws PacketDecodeError for parity that is too short to read, or
+   * that does not rebuild a packet; such a group is given up on.
+   */
+  add(packet: AudioPacket): AudioPacket | null {
+    if (packet.parity && packet.sequenceNumber % this.groupSize !== 0) {
+      return null; // Not aligned to a group we would put data packets in
+    }
+    if (packet.parity) {
+      checkParityPayload(packet);
+    }
+
+    const base = packet.parity
+      ? packet.sequenceNumber
+      : packet.sequenceNumber - (packet.sequenceNumber % this.groupSize);
+    const group = this.getGroup(base);
+    if (group.done) return null;
+
+    if (packet.parity) {
+      group.parity = packet;
+    } else {
+      group.received.set(packet.sequenceNumber, packet);
+    }
+    return this.tryReconstruct(base, group);
+  }
+
+  /**
+   * True when the packet was already rebuilt, so a late original is a duplicate.
+   */
+  wasRebuilt(sequenceNumber: number): boolean {
+    const base = sequenceNumber - (sequenceNumber % this.groupSize);
+    return this.groups.get(base)?.rebuilt === sequenceNumber;
+  }
+
+  /**
+   * True once the parity of the group holding the packet arrived.
+   */
+  hasParity(sequenceNumber: number): boolean {
+    const base = sequenceNumber - (sequenceNumber % this.groupSize);
+    return Boolean(this.groups.get(base)?.parity);
+  }
+
+  getStatistics(): FecStatistics {
+    return { ...this.statistics };
+  }
+
+  /**
+   * Forgets all groups, counting what their parity could not rebuild.
+   */
+  close(): FecStatistics {
+    while (this.groups.size > 0) {
+      this.evictOldest();
+    }
+    return this.getStatistics();
+  }
+
+  private tryReconstruct(base: number, group: FecGroup): AudioPacket | null {
+    if (!group.parity) return null;
+
+    const covered = Math.min(group.parity.audioData.readUInt8(0), this.groupSize);
+    const missing: number[] = [];
+    for (let sequence = base; sequence < base + covered; sequence++) {
+      if (!group.received.has(sequence)) missing.push(sequence);
+    }
+
+    if (missing.length !== 1) {
+      group.done = missing.length === 0;
+      return null;
+    }
+
+    group.done = true;
+    let rebuilt: AudioPacket;
+    try {
+      rebuilt = reconstructPacket(group.parity, Array.from(group.received.values()), missing[0]);
+    } catch (error) {
+      this.statistics.unrecoverable++;
+      throw error;
+    }
+    group.rebuilt = missing[0];
+    this.statistics.recovered++;
+    return rebuilt;
+  }
+
+  private getGroup(base: number): FecGroup {
+    let group = this.groups.get(base);
+    if (!group) {
+      group = { received: new Map(), parity: null, done: false, rebuilt: null };
+      this.groups.set(base, group);
+      if (this.groups.size > FecDecoder.MAX_GROUPS) {
+        this.evictOldest();
+      }
+    }
+    return group;
+  }
+
+  private evictOldest(): void {
+    const [base, group] = this.groups.entries().next().value as [number, FecGroup];
+    this.groups.delete(base);
+    if (group.parity && !group.done) {
+      const covered = Math.min(group.parity.audioData.readUInt8(0), this.groupSize);
+      this.statistics.unrecoverable += covered - group.received.size;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+import { AudioPacket, IncompleteFrameReason, UdpReassemblyConfig } from './types';
+
+interface PartialFrame {
+  template: AudioPacket;      // First fragment received; header fields are the same on all
+  fragments: (Buffer | undefined)[];
+  received: number;
+  bytes: number;
+  startedAt: number;
+}
+
+/**
+ * Puts fragmented frames back together, one buffer for all sessions.
+ *
+ * Partial frames are dropped when their fragments stop arriving within the
+ * timeout, when buffered fragments would exceed the memory cap (oldest frames
+ * first) or when their session ends. Each drop emits 'incomplete' (sessionId,
+ * sequenceNumber, reason).
+ */
+export class FragmentReassembler extends EventEmitter {
+  private options: UdpReassemblyConfig;
+  private frames = new Map<string, PartialFrame>();
+  private bufferedBytes = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: UdpReassemblyConfig) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Adds a fragment and returns the whole frame once its last fragment is in.
+   */
+  add(fragment: AudioPacket): AudioPacket | null {
+    if (!fragment.fragment) {
+      return fragment;
+    }
+
+    const { index, count } = fragment.fragment;
+    const key = frameKey(fragment);
+    let frame = this.frames.get(key);
+    if (frame && frame.fragments.length !== count) {
+      logger.debug('Dropping fragment whose count disagrees with its frame', {
+        sessionId: fragment.sessionId,
+        sequenceNumber: fragment.sequenceNumber,
+        count,
+        expected: frame.fragments.length
+      });
+      return null;
+    }
+    if (frame?.fragments[index]) {
+      return null; // Duplicate
+    }
+
+    this.makeRoom(fragment.audioData.length, key);
+    if (this.bufferedBytes + fragment.audioData.length > this.options.maxBytes) {
+      this.drop(key, fragment.sessionId, fragment.sequenceNumber, 'evicted');
+      return null;
+    }
+
+    if (!frame) {
+      frame = { template: fragment, fragments: new Array(count), received: 0, bytes: 0, startedAt: Date.now() };
+      this.frames.set(key, frame);
+      this.ensureTimer();
+    }
+    frame.fragments[index] = fragment.audioData;
+    frame.received++;
+    frame.bytes += fragment.audioData.length;
+    this.bufferedBytes += fragment.audioData.length;
+
+    if (frame.received < count) {
+      return null;
+    }
+
+    this.frames.delete(key);
+    this.bufferedBytes -= frame.bytes;
+    const packet: AudioPacket = { ...frame.template, audioData: Buffer.concat(frame.fragments as Buffer[]) };
+    delete packet.fragment;
+    delete packet.checksum;
+    return packet;
+  }
+
+  /**
+   * Drops the partial frames of a session and returns how many there were.
+   */
+  clearSession(sessionId: string): number {
+    let dropped = 0;
+    for (const [key, frame] of this.frames) {
+      if (frame.template.sessionId === sessionId) {
+        this.drop(key, sessionId, frame.template.sequenceNumber, 'session_end');
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  getBufferedBytes(): number {
+    return this.bufferedBytes;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.frames.clear();
+    this.bufferedBytes = 0;
+  }
+
+  private makeRoom(bytes: number, keep: string): void {
+    for (const [key, frame] of this.frames) {
+      if (this.bufferedBytes + bytes <= this.options.maxBytes) return;
+      if (key !== keep) {
+        this.drop(key, frame.template.sessionId, frame.template.sequenceNumber, 'evicted');
+      }
+    }
+  }
+
+  private drop(key: string, sessionId: string, sequenceNumber: number, reason: IncompleteFrameReason): void {
+    const frame = this.frames.get(key);
+    if (frame) {
+      this.frames.delete(key);
+      this.bufferedBytes -= frame.bytes;
+    }
+    logger.debug('Dropped incomplete frame', {
+      sessionId,
+      sequenceNumber,
+      reason,
+      fragments: frame ? `${frame.received}/${frame.fragments.length}` : undefined
+    });
+    this.emit('incomplete', sessionId, sequenceNumber, reason);
+  }
+
+  private ensureTimer(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), Math.max(5, Math.floor(this.options.timeoutMs / 2)));
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, frame] of this.frames) {
+      if (now - frame.startedAt >= this.options.timeoutMs) {
+        this.drop(key, frame.template.sessionId, frame.template.sequenceNumber, 'timeout');
+      }
+    }
+
+    if (this.frames.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+// Parity packets share the sequence number of their group's first data packet
+function frameKey(packet: AudioPacket): string {
+  return `${packet.sessionId}:${packet.sequenceNumber}:${packet.parity ? 'parity' : 'data'}`;
+}
@@ -1,28 +1,105 @@
 #!/usr/bin/env node
 
-import { createClient, RedisClientType } from 'redis';
 import express from 'express';
 import { register as prometheusRegister } from 'prom-client';
 
 import { config, validateConfig } from './config';
 import { logger, logBanner, logSection, logSuccess, logError, logInfo } from './logger';
 import { 
-  VoiceResponseMessage, 
   MessageType,
   ServiceHealth,
   StatusValue,
   AudioOutputMessage,
   StatusMessage,
   ErrorMessage,
-  AudioStream
+  AudioStream,
+  SessionStartMessage,
+  SessionEndMessage,
+  SessionReadyMessage,
+  SessionRekeyMessage,
+  SessionRekeyedMessage,
+  SessionEndReason,
+  SessionTimeoutPhase,
+  SessionTransport,
+  ReceiverHealth,
+  DependencyState,
+  LatencyTimeline,
+  DeadLetterEntry,
+  IncompleteFrameReason,
+  SourceViolationReason,
+  UdpAuthFailureReason
 } from './types';
-import { setupMetrics } from './metrics';
+import {
+  setupMetrics,
+  audioLatency,
+  voiceServiceHealth,
+  voiceServiceUptime,
+  sessionIllegalTransitions,
+  audioChunkSequenceEvents,
+  redisMessagesRejected,
+  deadLetterMessages,
+  udpPacketsRejected,
+  udpAuthFailures,
+  udpNacksSent,
+  udpPacketRecovery,
+  udpIncompleteFrames,
+  udpSourceViolations,
+  udpSourceRebinds,
+  rtpReceiverReports,
+  tcpAudioConnections,
+  udpSessionTimeouts
+} from './metrics';
 import { AudioProcessor } from './audio-processor';
 import { ResilienceManager } from './resilience';
 import { SecurityValidator, RateLimiter, MemoryManager } from './security';
+import { AudioPipeline, LoggingSubtitleDisplay } from './audio-pipeline';
+import { RedisStreamConsumer } from './stream-consumer';
+import { StreamReconciler } from './stream-reconciler';
+import { DependencyMonitor } from './dependency-monitor';
+import { SessionLifecycleTracker } from './session-lifecycle';
+import { LatencyTracker } from './latency-tracker';
+import { ReorderBuffer } from './reorder-buffer';
+import { createRedisConnection, isRedisCluster, RedisConnection } from './redis-connection';
+import { DeadLetterQueue, DeadLetterInput } from './dead-letter';
+import { PacketRejectReason, PayloadKey, ENCRYPTION_KEY_LENGTH, deriveSessionKey } from './packet-codec';
+import {
+  validateVoiceResponse,
+  validateServiceHealth,
+  validateSessionControl,
+  formatIssues,
+  ValidationResult
+} from './message-validator';
+
+const RECEIVER_SERVICE_NAME = 'audio-receiver';
+
+const SESSION_LIFECYCLE_MAX_IDLE_MS = 10 * 60 * 1000;
+
+const DEPENDENCY_HEALTH_VALUES: Record<DependencyState, number> = {
+  unknown: 0,
+  healthy: 1,
+  degraded: 0.5,
+  down: 0
+};
+
+// Where a dropped message came from, so it can be re-injected there
+type MessageOrigin = Pick<DeadLetterInput, 'source' | 'sourceType'>;
+
+const SESSION_ORIGIN: MessageOrigin = { source: config.channels.sessions, sourceType: 'pubsub' };
+const HEALTH_ORIGIN: MessageOrigin = { source: config.channels.health, sourceType: 'pubsub' };
 
 class AudioReceiver {
-  private redisClient: RedisClientType | null = null;
+  private redisClient: RedisConnection | null = null;
+  private publisherClient: RedisConnection | null = null;
+  private audioPipeline: AudioPipeline | null = null;
+  private streamClient: RedisConnection | null = null;
+  private streamConsumer: RedisStreamConsumer | null = null;
+  private streamReconciler: StreamReconciler;
+  private dependencyMonitor: DependencyMonitor;
+  private sessionLifecycle = new SessionLifecycleTracker();
+  private latencyTracker = new LatencyTracker();
+  private reorderBuffer: ReorderBuffer<AudioOutputMessage>;
+  private playbackQueues = new Map<string, Promise<void>>();
+  private deadLetterQueue: DeadLetterQueue;
   private audioProcessor: AudioProcessor;
   private resilienceManager: ResilienceManager;
   private app: express.Application;
@@ -32,6 +109,7 @@ class AudioReceiver {
   private rateLimiter: RateLimiter;
   private memoryManager: MemoryManager;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
 
   constructor() {
     this.memoryManager = new MemoryManager();
@@ -39,6 +117,19 @@ class AudioReceiver {
     this.resilienceManager = new ResilienceManager(config.resilience);
     this.app = express();
     this.rateLimiter = new RateLimiter(60000, 100); // 100 requests per minute
+    this.streamReconciler = new StreamReconciler(
+      config.resilience.interruptedStreamPolicy,
+      config.resilience.interruptedStreamGraceMs,
+      (sessionId) => this.finalizeActiveStream(sessionId)
+    );
+    this.dependencyMonitor = new DependencyMonitor(config.dependencies, [RECEIVER_SERVICE_NAME]);
+    this.setupDependencyMonitoring();
+    this.setupSessionLifecycle();
+    this.setupLatencyTracking();
+    this.reorderBuffer = new ReorderBuffer(config.ingestion.reorderWindow, config.ingestion.reorderTimeoutMs);
+    this.setupReordering();
+    this.deadLetterQueue = new DeadLetterQueue(config.deadLetter, () => this.publisherClient, RECEIVER_SERVICE_NAME);
+    this.setupDeadLetters();
     this.setupExpress();
     this.startCleanupProcess();
   }
@@ -53,6 +144,7 @@ class AudioReceiver {
       logInfo('[CONFIG]', 'Settings loaded', {
         redis: `${config.redis.host}:${config.redis.port}`,
         channels: config.channels.responses,
+        ingestion: config.ingestion.mode,
         audioOutput: config.audio.output.type,
         metricsPort: config.metrics.port
       });
@@ -63,7 +155,19 @@ class AudioReceiver {
       
       logInfo('[CHANNEL]', 'Subscribing to channels...');
       await this.subscribeToChannels();
+
+      if (config.udp?.enabled) {
+        logInfo('[UDP]', 'Starting UDP audio pipeline...');
+        await this.startAudioPipeline();
+      }
       
+      logInfo('[HEALTH]', 'Publishing heartbeats...', {
+        channel: config.channels.health,
+        intervalMs: config.resilience.healthCheckInterval
+      });
+      this.startHeartbeat();
+      this.dependencyMonitor.start();
+
       if (config.metrics.enabled) {
         logInfo('[METRICS]', 'Starting metrics server...');
         this.startMetricsServer();
@@ -84,64 +188,485 @@ class AudioReceiver {
   }
 
   private async connectRedis(): Promise<void> {
-    this.redisClient = createClient({
-      socket: {
-        host: config.redis.host,
-        port: config.redis.port
-      },
-      password: config.redis.password
-    });
-
-    this.redisClient.on('error', (err) => {
-      logError('Redis connection error', err);
-      this.resilienceManager.handleError(err);
-    });
+    const client = await createRedisConnection(config.redis);
+    this.redisClient = client;
+    this.watchRedisClient(client);
 
     this.redisClient.on('connect', () => {
       logSuccess('Connected to Redis', {
+        mode: config.redis.mode,
         host: config.redis.host,
-        port: config.redis.port
+        port: config.redis.port,
+        tls: config.redis.tls.enabled
       });
       this.resilienceManager.resetRetryCount();
     });
 
-    this.redisClient.on('disconnect', () => {
+    await this.redisClient.connect();
+
+    // A subscribed client cannot issue other commands, so replies go out on a duplicate
+    this.publisherClient = this.redisClient.duplicate();
+    this.watchRedisClient(this.publisherClient);
+    await this.publisherClient.connect();
+  }
+
+  /**
+   * Clients are created without auto-reconnect, so a connection that was ready
+   * and fails leaves its client closed. A cluster client stays open instead and
+   * only forwards the error of the node connection that closed. The first one
+   * to go schedules a reconnect that replaces all of them.
+   */
+  private watchRedisClient(client: RedisConnection): void {
+    let ready = false;
+    let lost = false;
+
+    client.on('ready', () => {
+      ready = true;
+    });
+
+    client.on('error', (err) => {
+      logError('Redis connection error', err);
+      this.resilienceManager.handleError(err);
+
+      // Clients replaced by a reconnect are closed on purpose
+      const current = [this.redisClient, this.publisherClient, this.streamClient].includes(client);
+      const connectionLost = isRedisCluster(client) ? client.isOpen : ready && !client.isOpen;
+      if (lost || !connectionLost || !current) return;
+      lost = true;
+
       logger.warn('[REDIS] Disconnected from Redis');
       if (!this.isShuttingDown) {
         logInfo('[REDIS]', 'Attempting to reconnect...');
-        this.resilienceManager.scheduleReconnect(() => this.connectRedis());
+        this.resilienceManager.scheduleReconnect(() => this.reconnectRedis());
       }
     });
+  }
 
-    await this.redisClient.connect();
+  private async reconnectRedis(): Promise<void> {
+    await this.closeRedisClients();
+    await this.connectRedis();
+    await this.subscribeToChannels();
+
+    logSuccess('Redis subscriptions restored', {
+      activeStreams: this.activeStreams.size,
+      policy: config.resilience.interruptedStreamPolicy
+    });
+
+    await this.streamReconciler.reconcile(Array.from(this.activeStreams.keys()));
+  }
+
+  private async closeRedisClients(): Promise<void> {
+    if (this.streamConsumer) {
+      await this.streamConsumer.stop();
+      this.streamConsumer = null;
+    }
+
+    const clients = [this.streamClient, this.publisherClient, this.redisClient];
+    this.streamClient = null;
+    this.publisherClient = null;
+    this.redisClient = null;
+
+    for (const client of clients) {
+      if (!client) continue;
+      try {
+        await client.disconnect();
+      } catch {
+        // Already closed by the connection failure
+      }
+    }
+  }
+
+  private async startAudioPipeline(): Promise<void> {
+    if (!config.udp) return;
+
+    this.audioPipeline = new AudioPipeline(config.udp, config.jitterBuffer, this.audioProcessor, this.memoryManager);
+    this.audioPipeline.addSubtitleDisplay(new LoggingSubtitleDisplay());
+    this.audioPipeline.on('error', (error: Error) => {
+      logError('UDP audio pipeline error', error);
+    });
+    this.audioPipeline.on('packetRejected', (reason: PacketRejectReason) => {
+      udpPacketsRejected.inc({ reason });
+    });
+    this.audioPipeline.on('authFailure', (reason: UdpAuthFailureReason) => {
+      udpAuthFailures.inc({ reason });
+    });
+    this.audioPipeline.on('nackSent', () => {
+      udpNacksSent.inc();
+    });
+    this.audioPipeline.on('lossRecovery', (outcome: string, _sessionId: string, count: number) => {
+      udpPacketRecovery.inc({ outcome }, count);
+    });
+    this.audioPipeline.on('incompleteFrame', (_sessionId: string, _sequenceNumber: number, reason: IncompleteFrameReason) => {
+      udpIncompleteFrames.inc({ reason });
+    });
+    this.audioPipeline.on('sourceViolation', (reason: SourceViolationReason) => {
+      udpSourceViolations.inc({ reason });
+    });
+    this.audioPipeline.on('sourceRebound', () => {
+      udpSourceRebinds.inc();
+    });
+    this.audioPipeline.on('rtcpReport', () => {
+      rtpReceiverReports.inc();
+    });
+    this.audioPipeline.on('tcpConnections', (count: number) => {
+      tcpAudioConnections.set(count);
+    });
+    this.audioPipeline.on('sessionTimeout', (_sessionId: string, phase: SessionTimeoutPhase) => {
+      udpSessionTimeouts.inc({ phase });
+    });
+    // The voice service never ends a session its sender stopped streaming, so we do
+    this.audioPipeline.on('sessionComplete', (sessionId: string, _result: unknown, reason: SessionEndReason) => {
+      if (reason === 'TIMEOUT') {
+        this.handleSessionEnd({ type: 'SESSION_END', sessionId, reason }).catch(error => {
+          logger.error('Failed to end timed-out session', { error, sessionId });
+        });
+      }
+    });
+
+    await this.audioPipeline.start();
+
+    logSuccess('UDP audio pipeline started', {
+      endpoint: this.audioPipeline.getEndpoint(),
+      rtpEndpoint: this.audioPipeline.getRtpEndpoint() ?? 'disabled',
+      tcpEndpoint: this.audioPipeline.getTcpEndpoint() ?? 'disabled'
+    });
   }
 
   private async subscribeToChannels(): Promise<void> {
     if (!this.redisClient) return;
 
-    // Subscribe to voice responses
-    await this.redisClient.subscribe(config.channels.responses, (message) => {
-      this.handleVoiceResponse(message);
-    });
+    // Voice responses arrive either on the pub/sub channel or through a consumer group
+    if (config.ingestion.mode === 'streams') {
+      await this.startStreamConsumer();
+    } else {
+      await this.redisClient.subscribe(config.channels.responses, (message) => {
+        this.handleVoiceResponse(message);
+      });
+    }
 
     // Subscribe to health messages
     await this.redisClient.subscribe(config.channels.health, (message) => {
       this.handleHealthMessage(message);
     });
 
+    // Subscribe to UDP session negotiation
+    await this.redisClient.subscribe(config.channels.sessions, (message) => {
+      this.handleSessionMessage(message);
+    });
+
     logSuccess('Subscribed to Redis channels', {
-      voiceResponses: config.channels.responses,
-      healthMonitoring: config.channels.health
+      voiceResponses: config.ingestion.mode === 'streams'
+        ? `${config.ingestion.streamKey} (group ${config.ingestion.consumerGroup})`
+        : config.channels.responses,
+      healthMonitoring: config.channels.health,
+      sessionControl: config.channels.sessions
+    });
+  }
+
+  private async startStreamConsumer(): Promise<void> {
+    if (!this.redisClient) return;
+
+    // XREADGROUP BLOCK holds its connection, so the consumer gets a dedicated one
+    this.streamClient = this.redisClient.duplicate();
+    this.watchRedisClient(this.streamClient);
+    await this.streamClient.connect();
+
+    this.streamConsumer = new RedisStreamConsumer(this.streamClient, config.ingestion, (message, replayed) =>
+      this.handleVoiceResponse(message, { resumeStreams: true, replayed })
+    );
+    this.streamConsumer.on('error', (error) => {
+      this.resilienceManager.handleError(error);
     });
+    await this.streamConsumer.start();
   }
 
-  private handleVoiceResponse(message: string): void {
+  private async handleSessionMessage(message: string): Promise<void> {
     try {
-      const response: VoiceResponseMessage = JSON.parse(message);
-      
+      const result = validateSessionControl(message);
+      if (!result.ok) {
+        this.rejectMessage(SESSION_ORIGIN, result, message);
+        return;
+      }
+      const control = result.value;
+
+      if (!SecurityValidator.validateSessionId(control.sessionId)) {
+        logger.warn('Invalid session ID in control message', { sessionId: control.sessionId });
+        this.deadLetter({
+          ...SESSION_ORIGIN,
+          reason: 'invalid_session_id',
+          detail: 'sessionId failed validation',
+          payload: SecurityValidator.redactSecrets(message),
+          sessionId: control.sessionId
+        });
+        return;
+      }
+
+      switch (control.type) {
+        case 'SESSION_START':
+          await this.handleSessionStart(control);
+          break;
+        case 'SESSION_END':
+          await this.handleSessionEnd(control);
+          break;
+        case 'SESSION_REKEY':
+          await this.handleSessionRekey(control);
+          break;
+      }
+    } catch (error) {
+      logger.error('Failed to handle session control message', { error, message: SecurityValidator.redactSecrets(message) });
+    }
+  }
+
+  private async handleSessionStart(message: SessionStartMessage): Promise<void> {
+    const { sessionId, clientEndpoint, expectedFormat, sampleRate } = message;
+
+    // Several receivers may listen on chip.sessions; only those addressed answer
+    if (message.receivers && !message.receivers.includes(config.udp?.receiverId ?? '')) {
+      logger.debug('SESSION_START addressed to other receivers', { sessionId, receivers: message.receivers });
+      return;
+    }
+
+    if (!this.audioPipeline) {
+      logger.warn('SESSION_START received but UDP streaming is disabled', { sessionId });
+      await this.publishSessionReply({
+        type: 'SESSION_READY',
+        sessionId,
+        receiverReady: false,
+        udpEndpoint: '',
+        bufferSize: 0
+      });
+      return;
+    }
+
+    const remote = parseEndpoint(clientEndpoint);
+    if (!remote) {
+      logger.warn('Invalid client endpoint in SESSION_START', { sessionId, clientEndpoint });
+      await this.publishSessionReply({
+        type: 'SESSION_READY',
+        sessionId,
+        receiverReady: false,
+        udpEndpoint: this.audioPipeline.getEndpoint(),
+        bufferSize: 0
+      });
+      return;
+    }
+
+    const transport = chooseTransport(message, this.audioPipeline);
+    if (transport === 'rtp') {
+      await this.startRtpSession(this.audioPipeline, message, remote);
+      return;
+    }
+
+    // The TCP fallback carries the same datagrams, so everything below applies to it
+    const endpoint = transport === 'tcp' ? this.audioPipeline.getTcpEndpoint() : this.audioPipeline.getEndpoint();
+    if (!endpoint) {
+      logger.warn('Refusing TCP session while the TCP fallback is disabled', { sessionId });
+      await this.publishSessionReply({
+        type: 'SESSION_READY',
+        sessionId,
+        receiverReady: false,
+        udpEndpoint: '',
+        transport,
+        bufferSize: 0
+      });
+      return;
+    }
+
+    const auth = resolveSessionKey(message);
+    const encryption = resolvePayloadKey(message);
+    if ('error' in auth || 'error' in encryption) {
+      logger.warn('Refusing UDP session without usable keys', {
+        sessionId,
+        error: [auth, encryption].map(result => ('error' in result ? result.error : null)).filter(Boolean).join('; ')
+      });
+      await this.publishSessionReply({
+        type: 'SESSION_READY',
+        sessionId,
+        receiverReady: false,
+        udpEndpoint: endpoint,
+        transport,
+        bufferSize: 0
+      });
+      return;
+    }
+
+    // Parity is accepted unless the operator turned it off (it is on by
+    // default), and a TCP stream loses nothing for it to rebuild
+    const fec = message.fec && config.udp?.fecEnabled && transport === 'udp' ? message.fec : null;
+    // Without a group of our own the sender falls back to unicast for us
+    const multicastEndpoint = message.multicast && transport === 'udp' ? this.audioPipeline.getMulticastEndpoint() : null;
+
+    await this.audioPipeline.startSession(sessionId, {
+      remoteAddress: remote.address,
+      remotePort: remote.port,
+      format: expectedFormat,
+      sampleRate,
+      authKey: auth.key ?? undefined,
+      encryption: encryption.key ?? undefined,
+      fec: fec ?? undefined,
+      transport
+    });
+
+    logInfo('[SESSION]', `${transport.toUpperCase()} session negotiated`, {
+      sessionId,
+      clientEndpoint,
+      format: expectedFormat,
+      sampleRate: `${sampleRate}Hz`,
+      udpEndpoint: endpoint,
+      authenticated: auth.key !== null,
+      encryption: encryption.key?.algorithm ?? 'none',
+      fec: fec ? `${fec.scheme}/${fec.groupSize}` : 'none',
+      multicast: multicastEndpoint !== null
+    });
+
+    await this.publishSessionReply({
+      type: 'SESSION_READY',
+      sessionId,
+      receiverReady: true,
+      udpEndpoint: multicastEndpoint ?? endpoint,
+      transport,
+      bufferSize: this.audioPipeline.getBufferSize(sessionId),
+      encrypted: encryption.key !== null,
+      fec,
+      multicast: multicastEndpoint !== null
+    });
+  }
+
+  // Plain RTP has no tags or encryption, so it is refused where those are required
+  private async startRtpSession(
+    pipeline: AudioPipeline,
+    message: SessionStartMessage,
+    remote: { address: string; port: number }
+  ): Promise<void> {
+    const { sessionId, clientEndpoint, expectedFormat, sampleRate } = message;
+    const rtpEndpoint = pipeline.getRtpEndpoint();
+
+    if (!rtpEndpoint || config.udp?.requireAuth || config.udp?.requireEncryption) {
+      logger.warn('Refusing RTP session', {
+        sessionId,
+        reason: rtpEndpoint ? 'UDP_REQUIRE_AUTH or UDP_REQUIRE_ENCRYPTION is set' : 'RTP is disabled'
+      });
+      await this.publishSessionReply({
+        type: 'SESSION_READY',
+        sessionId,
+        receiverReady: false,
+        udpEndpoint: rtpEndpoint ?? '',
+        transport: 'rtp',
+        bufferSize: 0
+      });
+      return;
+    }
+
+    await pipeline.startSession(sessionId, {
+      remoteAddress: remote.address,
+      remotePort: remote.port,
+      format: expectedFormat,
+      sampleRate,
+      transport: 'rtp',
+      ssrc: message.ssrc
+    });
+
+    logInfo('[SESSION]', 'RTP session negotiated', {
+      sessionId,
+      clientEndpoint,
+      format: expectedFormat,
+      sampleRate: `${sampleRate}Hz`,
+      rtpEndpoint,
+      ssrc: message.ssrc ?? 'first seen'
+    });
+
+    await this.publishSessionReply({
+      type: 'SESSION_READY',
+      sessionId,
+      receiverReady: true,
+      udpEndpoint: rtpEndpoint,
+      transport: 'rtp',
+      bufferSize: pipeline.getBufferSize(sessionId),
+      encrypted: false,
+      fec: null,
+      multicast: false
+    });
+  }
+
+  private async handleSessionRekey(message: SessionRekeyMessage): Promise<void> {
+    const { sessionId, keyId } = message;
+    const key = Buffer.from(message.key, 'base64');
+
+    const accepted = key.length === ENCRYPTION_KEY_LENGTH &&
+      (this.audioPipeline?.rotateSessionKey(sessionId, keyId, key) ?? false);
+    if (accepted) {
+      logInfo('[SESSION]', 'UDP payload key rotated', { sessionId, keyId });
+    } else {
+      logger.warn('Refusing SESSION_REKEY for a session without encryption or with a bad key', { sessionId, keyId });
+    }
+
+    await this.publishSessionReply({ type: 'SESSION_REKEYED', sessionId, keyId, accepted });
+  }
+
+  private async handleSessionEnd(message: SessionEndMessage): Promise<void> {
+    const { sessionId, reason } = message;
+
+    if (!this.audioPipeline) {
+      logger.debug('SESSION_END ignored, UDP streaming is disabled', { sessionId });
+      return;
+    }
+
+    const { statistics, droppedChunks } = await this.audioPipeline.endSession(sessionId);
+
+    logSuccess('UDP session closed', {
+      sessionId,
+      reason,
+      totalPackets: statistics?.totalPackets ?? 0,
+      lostPackets: statistics?.lostPackets ?? 0,
+      avgLatency: `${(statistics?.avgLatency ?? 0).toFixed(1)}ms`,
+      droppedChunks
+    });
+
+    await this.publishSessionReply({
+      type: 'SESSION_END',
+      sessionId,
+      reason,
+      statistics: statistics ?? undefined
+    });
+  }
+
+  private async publishSessionReply(
+    message: SessionReadyMessage | SessionEndMessage | SessionRekeyedMessage
+  ): Promise<void> {
+    if (!this.publisherClient) return;
+
+    try {
+      // With several receivers answering one session, the voice service needs to know whose reply this is
+      const reply = { ...message, receiverId: config.udp?.receiverId };
+      await this.publisherClient.publish(config.channels.sessionReplies, JSON.stringify(reply));
+    } catch (error) {
+      logger.error('Failed to publish session reply', { error, type: message.type, sessionId: message.sessionId });
+    }
+  }
+
+  private async handleVoiceResponse(
+    message: string,
+    options: { resumeStreams?: boolean; replayed?: boolean } = {}
+  ): Promise<void> {
+    try {
+      const result = validateVoiceResponse(message);
+      if (!result.ok) {
+        this.rejectMessage(this.responseOrigin(), result, message);
+        return;
+      }
+      const response = result.value;
+
       // Validate session ID
       if (!SecurityValidator.validateSessionId(response.sessionId)) {
         logger.warn('Invalid session ID received', { sessionId: response.sessionId });
+        this.deadLetter({
+          ...this.responseOrigin(),
+          reason: 'invalid_session_id',
+          detail: 'sessionId failed validation',
+          payload: message,
+          sessionId: response.sessionId,
+          messageId: response.id
+        });
         return;
       }
       
@@ -150,36 +675,110 @@ class AudioReceiver {
         type: response.type,
         service: response.service,
         sessionId: response.sessionId,
-        timestamp: response.timestamp
+        timestamp: response.timestamp,
+        version: result.version,
+        replayed: options.replayed
       });
 
       switch (response.type) {
         case MessageType.AUDIO_OUTPUT:
-          this.handleAudioOutput(response as AudioOutputMessage);
+          await this.handleAudioOutput(response as AudioOutputMessage, options.resumeStreams);
           break;
         case MessageType.STATUS:
           this.handleStatus(response as StatusMessage);
           break;
         case MessageType.ERROR:
-          this.handleError(response as ErrorMessage);
+          await this.handleError(response as ErrorMessage);
           break;
-        default:
-          logger.warn('Unknown message type', { type: (response as VoiceResponseMessage).type });
       }
     } catch (error) {
       logger.error('Failed to parse voice response', { error, message });
+      this.deadLetter({
+        ...this.responseOrigin(),
+        reason: 'processing_failed',
+        detail: error instanceof Error ? error.message : String(error),
+        payload: message
+      });
     }
   }
 
-  private async handleAudioOutput(message: AudioOutputMessage): Promise<void> {
-    const { id, sessionId, service, data, metadata } = message;
+  private async handleAudioOutput(message: AudioOutputMessage, resumeStreams = false): Promise<void> {
+    const { id, sessionId, data, metadata } = message;
     
     // Validate audio data
     if (!SecurityValidator.validateAudioData(data)) {
       logger.error('Invalid audio data received', { sessionId, messageId: id });
+      this.deadLetter({
+        ...this.responseOrigin(),
+        reason: 'invalid_audio_data',
+        detail: 'audio data failed validation',
+        payload: JSON.stringify(message),
+        sessionId,
+        messageId: id
+      });
+      return;
+    }
+
+    // Unsequenced chunks are trusted to arrive in order and exactly once
+    if (metadata.sequence === undefined) {
+      await this.playAudioOutput(message, resumeStreams);
+      return;
+    }
+
+    const ready = this.reorderBuffer.push(
+      sessionId,
+      metadata.sequence,
+      message,
+      metadata.isFirst,
+      metadata.correlationId
+    );
+    await this.enqueuePlayback(sessionId, ready);
+  }
+
+  private enqueuePlayback(sessionId: string, messages: AudioOutputMessage[]): Promise<void> {
+    if (messages.length === 0) return Promise.resolve();
+
+    // Chunks of a session are played one after another, never interleaved
+    const previous = this.playbackQueues.get(sessionId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      for (const message of messages) {
+        // A stream whose first chunk was lost opens from the next chunk in order
+        await this.playAudioOutput(message, true);
+      }
+    });
+
+    this.playbackQueues.set(sessionId, next);
+    next.catch(() => undefined).then(() => {
+      if (this.playbackQueues.get(sessionId) === next) {
+        this.playbackQueues.delete(sessionId);
+      }
+    });
+
+    return next;
+  }
+
+  private async playAudioOutput(message: AudioOutputMessage, resumeStreams: boolean): Promise<void> {
+    const { id, sessionId, service, data, metadata } = message;
+
+    if (this.sessionLifecycle.isCancelled(sessionId)) {
+      logger.debug('Dropping chunk for cancelled session', { sessionId, messageId: id });
       return;
     }
 
+    if (metadata.isFirst) {
+      this.streamReconciler.forget(sessionId);
+    } else if (this.streamReconciler.isInterrupted(sessionId)) {
+      logger.debug('Dropping chunk for stream interrupted by reconnect', { sessionId, messageId: id });
+      return;
+    }
+
+    // A stream interrupted by a receiver restart resumes from the replayed chunks
+    if (resumeStreams && !metadata.isFirst && !this.activeStreams.has(sessionId)) {
+      logger.warn('Resuming stream without its first chunk', { sessionId, messageId: id });
+      const stream = await this.audioProcessor.createStream(sessionId, data.format, metadata.sampleRate);
+      this.activeStreams.set(sessionId, stream);
+    }
+
     // Initialize stream if first chunk
     if (metadata.isFirst) {
       logInfo('[AUDIO]', 'New stream started', {
@@ -192,6 +791,7 @@ class AudioReceiver {
         output: config.audio.output.type
       });
 
+      this.latencyTracker.start(sessionId, metadata.correlationId, message.timestamp, data.format);
       const stream = await this.audioProcessor.createStream(sessionId, data.format, metadata.sampleRate);
       this.activeStreams.set(sessionId, stream);
     }
@@ -202,7 +802,9 @@ class AudioReceiver {
     // Check memory allocation
     if (!this.memoryManager.canAllocate(sessionId, audioBuffer.length)) {
       logger.error('Memory limit exceeded for stream', { sessionId });
+      this.latencyTracker.finish(sessionId, 'error');
       await this.audioProcessor.finalizeStream(sessionId);
+      this.reorderBuffer.complete(sessionId);
       this.activeStreams.delete(sessionId);
       this.memoryManager.deallocate(sessionId);
       return;
@@ -211,9 +813,11 @@ class AudioReceiver {
     // Update memory tracking
     this.memoryManager.allocate(sessionId, audioBuffer.length);
     this.memoryManager.updateActivity(sessionId);
+    this.streamReconciler.noteActivity(sessionId);
     
     try {
       await this.audioProcessor.processChunk(sessionId, audioBuffer, data.format);
+      this.latencyTracker.recordChunkWritten(sessionId);
       
       // Handle subtitles if present
       if (metadata.subtitles) {
@@ -231,15 +835,35 @@ class AudioReceiver {
           duration: `${(Date.now() - (this.activeStreams.get(sessionId)?.startTime || Date.now())) / 1000}s`
         });
         await this.audioProcessor.finalizeStream(sessionId);
+        this.latencyTracker.finish(sessionId, 'completed');
+        this.reorderBuffer.complete(sessionId);
         this.activeStreams.delete(sessionId);
         this.memoryManager.deallocate(sessionId);
       }
     } catch (error) {
       logger.error('Failed to process audio chunk', { error, sessionId, messageId: id });
       this.resilienceManager.handleError(error);
+      this.deadLetter({
+        ...this.responseOrigin(),
+        reason: 'processing_failed',
+        detail: error instanceof Error ? error.message : String(error),
+        payload: JSON.stringify(message),
+        sessionId,
+        messageId: id
+      });
     }
   }
 
+  private async finalizeActiveStream(sessionId: string): Promise<void> {
+    if (!this.activeStreams.has(sessionId)) return;
+
+    await this.audioProcessor.finalizeStream(sessionId);
+    this.latencyTracker.finish(sessionId, 'interrupted');
+    this.reorderBuffer.complete(sessionId);
+    this.activeStreams.delete(sessionId);
+    this.memoryManager.deallocate(sessionId);
+  }
+
   private handleStatus(message: StatusMessage): void {
     const { id, sessionId, service, timestamp, data } = message;
     
@@ -253,10 +877,44 @@ class AudioReceiver {
       progress: data.progress
     });
 
-    // Update metrics based on status
-    if (data.status === StatusValue.COMPLETED) {
-      // Update completion metrics
+    this.sessionLifecycle.apply(message);
+  }
+
+  private setupSessionLifecycle(): void {
+    this.sessionLifecycle.on('stateChange', (sessionId: string, state: StatusValue) => {
+      if (state === StatusValue.CANCELLED) {
+        this.cancelSession(sessionId).catch((error) => {
+          logger.error('Failed to cancel session audio', { error, sessionId });
+        });
+      }
+    });
+
+    this.sessionLifecycle.on('illegalTransition', (_sessionId: string, from: StatusValue | null, to: string) => {
+      // Unknown statuses come straight from the wire; one label keeps the series bounded
+      const known = (Object.values(StatusValue) as string[]).includes(to);
+      sessionIllegalTransitions.inc({ from: from ?? 'none', to: known ? to : 'unknown' });
+    });
+  }
+
+  private async cancelSession(sessionId: string): Promise<void> {
+    // The next utterance numbers its chunks from zero again
+    this.reorderBuffer.complete(sessionId);
+
+    const playing = this.activeStreams.has(sessionId) || this.audioPipeline?.hasSession(sessionId);
+    if (!playing) return;
+
+    // Stop right away and drop queued audio instead of playing it out
+    await this.audioProcessor.abortStream(sessionId);
+    this.latencyTracker.finish(sessionId, 'cancelled');
+    this.activeStreams.delete(sessionId);
+    this.memoryManager.deallocate(sessionId);
+    this.streamReconciler.forget(sessionId);
+
+    if (this.audioPipeline?.hasSession(sessionId)) {
+      await this.audioPipeline.cancelSession(sessionId);
     }
+
+    logInfo('[STREAM]', 'Session cancelled, audio stopped', { sessionId });
   }
 
   private async handleError(message: ErrorMessage): Promise<void> {
@@ -273,8 +931,10 @@ class AudioReceiver {
     });
 
     // Clean up any active streams for this session
+    this.reorderBuffer.complete(sessionId);
     if (this.activeStreams.has(sessionId)) {
       await this.audioProcessor.finalizeStream(sessionId);
+      this.latencyTracker.finish(sessionId, 'error');
       this.activeStreams.delete(sessionId);
       this.memoryManager.deallocate(sessionId);
       logger.info('Cleaned up active stream due to error', { sessionId });
@@ -283,17 +943,113 @@ class AudioReceiver {
 
   private handleHealthMessage(message: string): void {
     try {
-      const health: ServiceHealth = JSON.parse(message);
-      
-      if (health.service === 'voice') {
-        logger.debug('Voice service health', health);
-        // Update health metrics
+      const result = validateServiceHealth(message);
+      if (!result.ok) {
+        this.rejectMessage(HEALTH_ORIGIN, result, message);
+        return;
       }
+      const health = result.value;
+
+      logger.debug('Service health', health);
+      this.dependencyMonitor.recordHeartbeat(health);
     } catch (error) {
       logger.error('Failed to parse health message', { error });
     }
   }
 
+  private rejectMessage(
+    origin: MessageOrigin,
+    result: Extract<ValidationResult<unknown>, { ok: false }>,
+    message: string
+  ): void {
+    const errors = formatIssues(result.errors);
+    const redacted = SecurityValidator.redactSecrets(message);
+    redisMessagesRejected.inc({ channel: origin.source, reason: result.reason });
+    logger.warn('Rejected invalid message', {
+      channel: origin.source,
+      reason: result.reason,
+      errors,
+      message: redacted.length > 500 ? `${redacted.slice(0, 500)}...` : redacted
+    });
+    this.deadLetter({ ...origin, reason: result.reason, detail: errors, payload: redacted });
+  }
+
+  private responseOrigin(): MessageOrigin {
+    return config.ingestion.mode === 'streams'
+      ? { source: config.ingestion.streamKey, sourceType: 'stream' }
+      : { source: config.channels.responses, sourceType: 'pubsub' };
+  }
+
+  private deadLetter(input: DeadLetterInput): void {
+    // Never delays or fails message handling; send() logs its own failures
+    void this.deadLetterQueue.send(input);
+  }
+
+  private setupDeadLetters(): void {
+    this.deadLetterQueue.on('deadLettered', (entry: DeadLetterEntry) => {
+      deadLetterMessages.inc({ reason: entry.reason });
+    });
+  }
+
+  private setupDependencyMonitoring(): void {
+    this.dependencyMonitor.on('heartbeat', (service: string, health: ServiceHealth) => {
+      if (service === 'voice' && typeof health.details?.uptime === 'number') {
+        voiceServiceUptime.set(health.details.uptime / 1000);
+      }
+    });
+
+    this.dependencyMonitor.on('stateChange', (service: string, state: DependencyState, previous: DependencyState) => {
+      if (service === 'voice') {
+        voiceServiceHealth.set(DEPENDENCY_HEALTH_VALUES[state]);
+      }
+
+      if (state === 'down') {
+        logError(`Dependency ${service} is down`, { previous });
+      } else if (state === 'healthy' && previous !== 'unknown') {
+        logSuccess(`Dependency ${service} recovered`, { previous });
+      }
+    });
+  }
+
+  private setupLatencyTracking(): void {
+    this.latencyTracker.on('firstAudio', (timeline: LatencyTimeline) => {
+      audioLatency.observe({ format: timeline.format, stage: 'first_audio' }, (timeline.timeToFirstAudioMs ?? 0) / 1000);
+    });
+
+    this.latencyTracker.on('complete', (timeline: LatencyTimeline) => {
+      // Cut-short streams would skew the distribution
+      if (timeline.outcome !== 'completed') return;
+
+      audioLatency.observe({ format: timeline.format, stage: 'total' }, (timeline.totalMs ?? 0) / 1000);
+      logger.info('Stream latency', {
+        sessionId: timeline.sessionId,
+        correlationId: timeline.correlationId,
+        timeToFirstAudioMs: timeline.timeToFirstAudioMs,
+        totalMs: timeline.totalMs
+      });
+    });
+  }
+
+  private setupReordering(): void {
+    this.reorderBuffer.on('release', (sessionId: string, messages: AudioOutputMessage[]) => {
+      this.enqueuePlayback(sessionId, messages).catch((error) => {
+        logger.error('Failed to play released chunks', { error, sessionId });
+      });
+    });
+
+    this.reorderBuffer.on('duplicate', () => {
+      audioChunkSequenceEvents.inc({ event: 'duplicate' });
+    });
+
+    this.reorderBuffer.on('late', () => {
+      audioChunkSequenceEvents.inc({ event: 'late' });
+    });
+
+    this.reorderBuffer.on('gap', (_sessionId: string, expected: number, received: number) => {
+      audioChunkSequenceEvents.inc({ event: 'lost' }, received - expected);
+    });
+  }
+
   private setupExpress(): void {
     this.app.use(express.json());
 
@@ -309,6 +1065,11 @@ class AudioReceiver {
         status: this.redisClient?.isOpen ? 'healthy' : 'unhealthy',
         uptime: Date.now() - this.startTime,
         activeStreams: this.activeStreams.size,
+        udpSessions: this.audioPipeline?.getActiveSessions().length ?? 0,
+        udpAuthFailures: this.audioPipeline?.getAuthFailures() ?? [],
+        reconnection: this.streamReconciler.getStatus(),
+        dependencies: this.dependencyMonitor.getStatus(),
+        lifecycle: this.sessionLifecycle.getSummary(),
         memory: {
           used: memoryStats.totalUsed,
           limit: memoryStats.totalLimit,
@@ -321,6 +1082,33 @@ class AudioReceiver {
       res.status(statusCode).json(health);
     });
 
+    // Latency timeline of a session's recent streams
+    this.app.get('/sessions/:id/timeline', (req, res) => {
+      const clientIp = req.ip || 'unknown';
+      if (!this.rateLimiter.isAllowed(`timeline-${clientIp}`)) {
+        res.status(429).json({ error: 'Too many requests' });
+        return;
+      }
+
+      const sessionId = req.params.id;
+      if (!SecurityValidator.validateSessionId(sessionId)) {
+        res.status(400).json({ error: 'Invalid session ID' });
+        return;
+      }
+
+      const timelines = this.latencyTracker.getTimelines(sessionId);
+      if (timelines.length === 0) {
+        res.status(404).json({ error: 'No timeline for session' });
+        return;
+      }
+
+      res.status(200).json({
+        sessionId,
+        lifecycle: this.sessionLifecycle.getSession(sessionId),
+        timelines
+      });
+    });
+
     // Metrics endpoint with rate limiting
     this.app.get('/metrics', async (req, res) => {
       const clientIp = req.ip || 'unknown';
@@ -354,6 +1142,15 @@ class AudioReceiver {
       if (this.cleanupInterval) {
         clearInterval(this.cleanupInterval);
       }
+      if (this.heartbeatInterval) {
+        clearInterval(this.heartbeatInterval);
+      }
+      this.streamReconciler.stop();
+      this.dependencyMonitor.stop();
+      this.reorderBuffer.stop();
+
+      // Let the voice service know this endpoint is going away
+      await this.publishHeartbeat('unhealthy');
       
       // Close active streams
       for (const [sessionId] of this.activeStreams) {
@@ -361,7 +1158,23 @@ class AudioReceiver {
         this.memoryManager.deallocate(sessionId);
       }
 
+      // Stop UDP streaming
+      if (this.audioPipeline) {
+        await this.audioPipeline.stop();
+      }
+
+      // Stop stream ingestion before its connection goes away
+      if (this.streamConsumer) {
+        await this.streamConsumer.stop();
+      }
+
       // Disconnect from Redis
+      if (this.streamClient) {
+        await this.streamClient.disconnect();
+      }
+      if (this.publisherClient) {
+        await this.publisherClient.disconnect();
+      }
       if (this.redisClient) {
         await this.redisClient.disconnect();
       }
@@ -377,6 +1190,47 @@ class AudioReceiver {
     process.on('SIGTERM', () => shutdown('SIGTERM'));
   }
 
+  private startHeartbeat(): void {
+    this.publishHeartbeat();
+    this.heartbeatInterval = setInterval(() => {
+      this.publishHeartbeat();
+    }, config.resilience.healthCheckInterval);
+  }
+
+  private buildHeartbeat(status?: ServiceHealth['status']): ReceiverHealth {
+    const memoryStats = this.memoryManager.getMemoryStats();
+    const circuitState = this.resilienceManager.getCircuitState();
+    const outputDevice = this.audioProcessor.getOutputStatus();
+
+    return {
+      service: RECEIVER_SERVICE_NAME,
+      status: status ?? (circuitState !== 'OPEN' && outputDevice.available ? 'healthy' : 'unhealthy'),
+      timestamp: Date.now(),
+      details: {
+        uptime: Date.now() - this.startTime,
+        memoryUsage: memoryStats.totalUsed,
+        memoryLimit: memoryStats.totalLimit,
+        activeRequests: this.activeStreams.size,
+        activeStreams: this.activeStreams.size,
+        circuitState,
+        outputDevice
+      }
+    };
+  }
+
+  private async publishHeartbeat(status?: ServiceHealth['status']): Promise<void> {
+    if (!this.publisherClient?.isOpen) {
+      logger.debug('Skipping heartbeat while Redis is unavailable');
+      return;
+    }
+
+    try {
+      await this.publisherClient.publish(config.channels.health, JSON.stringify(this.buildHeartbeat(status)));
+    } catch (error) {
+      logger.error('Failed to publish heartbeat', { error });
+    }
+  }
+
   private startCleanupProcess(): void {
     // Run cleanup every 30 seconds
     this.cleanupInterval = setInterval(() => {
@@ -392,11 +1246,17 @@ class AudioReceiver {
         if (this.activeStreams.has(sessionId)) {
           logger.warn('Cleaning up abandoned stream', { sessionId });
           await this.audioProcessor.finalizeStream(sessionId);
+          this.latencyTracker.finish(sessionId, 'abandoned');
+          this.reorderBuffer.complete(sessionId);
           this.activeStreams.delete(sessionId);
           this.memoryManager.deallocate(sessionId);
         }
       }
 
+      // Forget sessions whose final status or chunk never arrived
+      this.sessionLifecycle.cleanup(SESSION_LIFECYCLE_MAX_IDLE_MS);
+      this.reorderBuffer.cleanup(SESSION_LIFECYCLE_MAX_IDLE_MS);
+
       // Clean up rate limiter
       this.rateLimiter.cleanup();
 
@@ -411,6 +1271,73 @@ class AudioReceiver {
   }
 }
 
+function parseEndpoint(endpoint: string): { address: string; port: number } | null {
+  // Accepts "host:port" and "[ipv6]:port"
+  const match = /^\[?([^\]]+?)\]?:(\d+)$/.exec(endpoint || '');
+  if (!match) return null;
+
+  const port = parseInt(match[2], 10);
+  if (port < 1 || port > 65535) return null;
+
+  return { address: match[1], port };
+}
+
+// The first transport the sender offers that we can take, or TCP whenever it is
+// offered and preferred. When none can be taken the first offer is returned and
+// refused with the reason that applies to it.
+function chooseTransport(message: SessionStartMessage, pipeline: AudioPipeline): SessionTransport {
+  const offered = message.transports?.length ? message.transports : [message.transport ?? 'udp'];
+  const available = (transport: SessionTransport): boolean => {
+    switch (transport) {
+      case 'udp':
+        return true;
+      case 'tcp':
+        return pipeline.getTcpEndpoint() !== null;
+      case 'rtp':
+        return pipeline.getRtpEndpoint() !== null && !config.udp?.requireAuth && !config.udp?.requireEncryption;
+    }
+  };
+
+  if (config.udp?.tcp.preferred && offered.includes('tcp') && available('tcp')) {
+    return 'tcp';
+  }
+  return offered.find(available) ?? offered[0];
+}
+
+const MIN_SESSION_KEY_BYTES = 16;
+
+// Key UDP datagram tags are verified with: sent in SESSION_START, derived from the
+// shared secret, or none when authentication is optional
+function resolveSessionKey(message: SessionStartMessage): { key: Buffer | null } | { error: string } {
+  if (message.authKey) {
+    const key = Buffer.from(message.authKey, 'base64');
+    return key.length >= MIN_SESSION_KEY_BYTES
+      ? { key }
+      : { error: `authKey must decode to at least ${MIN_SESSION_KEY_BYTES} bytes` };
+  }
+  if (config.udp?.authSecret) {
+    return { key: deriveSessionKey(config.udp.authSecret, message.sessionId) };
+  }
+  if (config.udp?.requireAuth) {
+    return { error: 'UDP_REQUIRE_AUTH is set but SESSION_START carried no authKey' };
+  }
+  return { key: null };
+}
+
+function resolvePayloadKey(message: SessionStartMessage): { key: PayloadKey | null } | { error: string } {
+  if (message.encryption) {
+    const { algorithm, keyId } = message.encryption;
+    const key = Buffer.from(message.encryption.key, 'base64');
+    return key.length === ENCRYPTION_KEY_LENGTH
+      ? { key: { algorithm, keyId, key } }
+      : { error: `encryption.key must decode to ${ENCRYPTION_KEY_LENGTH} bytes` };
+  }
+  if (config.udp?.requireEncryption) {
+    return { error: 'UDP_REQUIRE_ENCRYPTION is set but SESSION_START carried no encryption key' };
+  }
+  return { key: null };
+}
+
 // Main entry point
 if (require.main === module) {
   console.clear();
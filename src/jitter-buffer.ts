@@ -69,8 +69,8 @@ export class JitterBuffer extends EventEmitter {
     // Calculate buffer time based on network conditions
     const bufferTime = this.calculateBufferTime(networkConditions);
     
-    // Check if this chunk is too late (arrived after its playback time)
-    if (chunk.playbackTime < now) {
+    // Check if this chunk is too late (arrived after its buffered playback deadline)
+    if (chunk.playbackTime + bufferTime < now) {
       stats.droppedPackets++;
       logger.warn('Dropped late audio chunk', {
         sessionId,
@@ -276,6 +276,13 @@ export class JitterBuffer extends EventEmitter {
     stats.overruns = 0;
   }
 
+  drain(sessionId: string): void {
+    // Play out whatever is buffered even if the start threshold was never reached
+    if (this.buffer.has(sessionId) && !this.playbackTimers.has(sessionId)) {
+      this.startPlayback(sessionId);
+    }
+  }
+
   endSession(sessionId: string): BufferStatistics | null {
     const timer = this.playbackTimers.get(sessionId);
     if (timer) {
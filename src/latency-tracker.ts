@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+import { LatencyTimeline, TimelineOutcome } from './types';
+
+/**
+ * Records end-to-end timings for each utterance, keyed by correlationId:
+ * voice service timestamp -> received -> first byte written -> finalized.
+ *
+ * Emits 'firstAudio' (timeline) once the first byte reached the output and
+ * 'complete' (timeline) when the stream was finalized.
+ */
+export class LatencyTracker extends EventEmitter {
+  private static readonly MAX_COMPLETED_TIMELINES = 200;
+
+  private timelines = new Map<string, LatencyTimeline>();
+  private activeBySession = new Map<string, string>();
+
+  start(
+    sessionId: string,
+    correlationId: string | undefined,
+    messageTimestamp: string,
+    format: string
+  ): LatencyTimeline {
+    const receivedAt = Date.now();
+    const sentAt = Date.parse(messageTimestamp);
+    const key = correlationId || `${sessionId}:${receivedAt}`;
+
+    const previous = this.activeBySession.get(sessionId);
+    if (previous && previous !== key) {
+      this.finish(sessionId, 'superseded');
+    }
+
+    const timeline: LatencyTimeline = {
+      correlationId: key,
+      sessionId,
+      format,
+      messageTimestamp,
+      sentAt: Number.isNaN(sentAt) ? null : sentAt,
+      receivedAt,
+      firstByteAt: null,
+      finalizedAt: null,
+      chunks: 0,
+      timeToFirstAudioMs: null,
+      totalMs: null,
+      outcome: null
+    };
+
+    // Re-insert so the most recent timelines are last
+    this.timelines.delete(key);
+    this.timelines.set(key, timeline);
+    this.activeBySession.set(sessionId, key);
+    this.evictCompleted();
+
+    return timeline;
+  }
+
+  recordChunkWritten(sessionId: string): void {
+    const timeline = this.getActive(sessionId);
+    if (!timeline) return;
+
+    timeline.chunks++;
+    if (timeline.firstByteAt !== null) return;
+
+    timeline.firstByteAt = Date.now();
+    timeline.timeToFirstAudioMs = timeline.firstByteAt - this.origin(timeline);
+    this.emit('firstAudio', { ...timeline });
+  }
+
+  finish(sessionId: string, outcome: TimelineOutcome): LatencyTimeline | null {
+    const timeline = this.getActive(sessionId);
+    if (!timeline) return null;
+
+    this.activeBySession.delete(sessionId);
+    timeline.finalizedAt = Date.now();
+    timeline.totalMs = timeline.finalizedAt - this.origin(timeline);
+    timeline.outcome = outcome;
+
+    logger.debug('Latency timeline complete', { ...timeline });
+    this.emit('complete', { ...timeline });
+    return { ...timeline };
+  }
+
+  getTimelines(sessionId: string): LatencyTimeline[] {
+    return Array.from(this.timelines.values())
+      .filter(timeline => timeline.sessionId === sessionId)
+      .map(timeline => ({ ...timeline }));
+  }
+
+  getTimeline(correlationId: string): LatencyTimeline | null {
+    const timeline = this.timelines.get(correlationId);
+    return timeline ? { ...timeline } : null;
+  }
+
+  private getActive(sessionId: string): LatencyTimeline | null {
+    const key = this.activeBySession.get(sessionId);
+    return key ? this.timelines.get(key) ?? null : null;
+  }
+
+  private origin(timeline: LatencyTimeline): number {
+    // Fall back to the receive time when the voice service timestamp is unusable
+    return timeline.sentAt ?? timeline.receivedAt;
+  }
+
+  private evictCompleted(): void {
+    let completed = this.timelines.size - this.activeBySession.size;
+
+    for (const [key, timeline] of this.timelines) {
+      if (completed <= LatencyTracker.MAX_COMPLETED_TIMELINES) break;
+      if (timeline.outcome !== null) {
+        this.timelines.delete(key);
+        completed--;
+      }
+    }
+  }
+}
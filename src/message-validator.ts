@@ -0,0 +1,329 @@
+import {
+  AudioFormat,
+  MessageType,
+  ServiceHealth,
+  SessionControlMessage,
+  VoiceResponseMessage
+} from './types';
+import { CIPHER_ALGORITHMS } from './packet-codec';
+import { FEC_SCHEMES } from './fec';
+
+/**
+ * Runtime validation of messages received over Redis.
+ *
+ * Compatibility policy (see README "Protocol Versioning"):
+ * - `version` is "MAJOR.MINOR"; messages without it are treated as 1.0
+ * - any minor version of a supported major is accepted; minor versions may only
+ *   add optional fields or new enum values, and unknown fields are ignored
+ * - an unsupported major version is rejected as a whole
+ */
+export const PROTOCOL_VERSION = '1.0';
+export const SUPPORTED_MAJOR_VERSIONS = [1];
+
+const SESSION_TRANSPORTS = ['udp', 'rtp', 'tcp'];
+
+export interface ValidationIssue {
+  path: string;               // e.g. "metadata.sampleRate"; "(root)" for the message itself
+  message: string;
+}
+
+export type RejectionReason = 'invalid_json' | 'invalid_schema' | 'unsupported_version';
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; version: string }
+  | { ok: false; reason: RejectionReason; errors: ValidationIssue[] };
+
+type Validator = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+interface Field {
+  validator: Validator;
+  optional: boolean;
+}
+
+const ROOT = '(root)';
+
+function required(validator: Validator): Field {
+  return { validator, optional: false };
+}
+
+function optional(validator: Validator): Field {
+  return { validator, optional: true };
+}
+
+function join(path: string, key: string): string {
+  return path === ROOT ? key : `${path}.${key}`;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function object(fields: Record<string, Field>): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}` });
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const [key, field] of Object.entries(fields)) {
+      const fieldValue = record[key];
+      if (fieldValue === undefined) {
+        if (!field.optional) {
+          issues.push({ path: join(path, key), message: 'is required' });
+        }
+        continue;
+      }
+      field.validator(fieldValue, join(path, key), issues);
+    }
+  };
+}
+
+function string(options: { nonEmpty?: boolean; oneOf?: readonly string[]; pattern?: RegExp } = {}): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `expected string, got ${describe(value)}` });
+    } else if (options.nonEmpty && value.length === 0) {
+      issues.push({ path, message: 'must not be empty' });
+    } else if (options.oneOf && !options.oneOf.includes(value)) {
+      issues.push({ path, message: `must be one of: ${options.oneOf.join(', ')}` });
+    } else if (options.pattern && !options.pattern.test(value)) {
+      issues.push({ path, message: `must match ${options.pattern}` });
+    }
+  };
+}
+
+function number(options: { integer?: boolean; min?: number; max?: number } = {}): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ path, message: `expected number, got ${describe(value)}` });
+    } else if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: 'must be an integer' });
+    } else if (options.min !== undefined && value < options.min) {
+      issues.push({ path, message: `must be >= ${options.min}` });
+    } else if (options.max !== undefined && value > options.max) {
+      issues.push({ path, message: `must be <= ${options.max}` });
+    }
+  };
+}
+
+function boolean(): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+    }
+  };
+}
+
+function array(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, got ${describe(value)}` });
+      return;
+    }
+    value.forEach((element, index) => item(element, `${path}[${index}]`, issues));
+  };
+}
+
+function timestamp(): Validator {
+  return (value, path, issues) => {
+    string({ nonEmpty: true })(value, path, issues);
+    if (typeof value === 'string' && value.length > 0 && Number.isNaN(Date.parse(value))) {
+      issues.push({ path, message: 'must be an ISO 8601 timestamp' });
+    }
+  };
+}
+
+function any(): Validator {
+  return () => undefined;
+}
+
+const VERSION_PATTERN = /^\d+\.\d+$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const baseFields: Record<string, Field> = {
+  version: optional(string({ pattern: VERSION_PATTERN })),
+  id: required(string({ nonEmpty: true })),
+  type: required(string()),
+  service: required(string({ nonEmpty: true })),
+  sessionId: required(string({ nonEmpty: true })),
+  timestamp: required(timestamp())
+};
+
+const audioOutputSchema = object({
+  ...baseFields,
+  data: required(object({
+    audio: required(string({ nonEmpty: true })),
+    format: required(string({ nonEmpty: true }))
+  })),
+  metadata: required(object({
+    correlationId: optional(string()),
+    sampleRate: required(number({ integer: true, min: 1 })),
+    isFirst: required(boolean()),
+    isFinal: required(boolean()),
+    sequence: optional(number({ integer: true, min: 0 })),
+    subtitles: optional(object({
+      text: required(string()),
+      startTime: required(number({ min: 0 })),
+      endTime: required(number({ min: 0 }))
+    }))
+  }))
+});
+
+const statusSchema = object({
+  ...baseFields,
+  data: required(object({
+    // New status values may appear in minor versions
+    status: required(string({ nonEmpty: true })),
+    message: optional(string()),
+    progress: optional(object({
+      current: required(number({ min: 0 })),
+      total: required(number({ min: 0 })),
+      percentage: required(number({ min: 0, max: 100 }))
+    }))
+  }))
+});
+
+const errorSchema = object({
+  ...baseFields,
+  error: required(object({
+    code: required(string({ nonEmpty: true })),
+    message: required(string()),
+    details: optional(object({}))
+  }))
+});
+
+const voiceResponseSchemas: Record<string, Validator> = {
+  [MessageType.AUDIO_OUTPUT]: audioOutputSchema,
+  [MessageType.STATUS]: statusSchema,
+  [MessageType.ERROR]: errorSchema
+};
+
+const serviceHealthSchema = object({
+  version: optional(string({ pattern: VERSION_PATTERN })),
+  service: required(string({ nonEmpty: true })),
+  status: required(string({ oneOf: ['healthy', 'unhealthy'] })),
+  timestamp: required(number({ min: 0 })),
+  details: required(object({
+    uptime: required(number({ min: 0 })),
+    memoryUsage: required(number({ min: 0 })),
+    activeRequests: required(number({ min: 0 }))
+  }))
+});
+
+const sessionControlSchemas: Record<string, Validator> = {
+  SESSION_START: object({
+    version: optional(string({ pattern: VERSION_PATTERN })),
+    type: required(string()),
+    sessionId: required(string({ nonEmpty: true })),
+    audioStreamPort: required(number({ integer: true, min: 0, max: 65535 })),
+    clientEndpoint: required(string({ nonEmpty: true })),
+    expectedFormat: required(string({ oneOf: Object.values(AudioFormat) })),
+    sampleRate: required(number({ integer: true, min: 1 })),
+    estimatedDuration: optional(number({ min: 0 })),
+    authKey: optional(string({ pattern: BASE64_PATTERN })),
+    encryption: optional(object({
+      algorithm: required(string({ oneOf: CIPHER_ALGORITHMS })),
+      keyId: required(number({ integer: true, min: 0, max: 255 })),
+      key: required(string({ pattern: BASE64_PATTERN }))
+    })),
+    fec: optional(object({
+      scheme: required(string({ oneOf: FEC_SCHEMES })),
+      groupSize: required(number({ integer: true, min: 2, max: 32 }))
+    })),
+    multicast: optional(boolean()),
+    receivers: optional(array(string({ nonEmpty: true }))),
+    transport: optional(string({ oneOf: SESSION_TRANSPORTS })),
+    transports: optional(array(string({ oneOf: SESSION_TRANSPORTS }))),
+    ssrc: optional(number({ integer: true, min: 0, max: 0xffffffff }))
+  }),
+  SESSION_REKEY: object({
+    version: optional(string({ pattern: VERSION_PATTERN })),
+    type: required(string()),
+    sessionId: required(string({ nonEmpty: true })),
+    keyId: required(number({ integer: true, min: 0, max: 255 })),
+    key: required(string({ pattern: BASE64_PATTERN }))
+  }),
+  SESSION_END: object({
+    version: optional(string({ pattern: VERSION_PATTERN })),
+    type: required(string()),
+    sessionId: required(string({ nonEmpty: true })),
+    reason: required(string({ oneOf: ['COMPLETED', 'ERROR', 'TIMEOUT', 'CLIENT_DISCONNECT'] })),
+    statistics: optional(any())
+  })
+};
+
+export function validateVoiceResponse(raw: string): ValidationResult<VoiceResponseMessage> {
+  return validate<VoiceResponseMessage>(raw, value => discriminate(value, voiceResponseSchemas));
+}
+
+export function validateServiceHealth(raw: string): ValidationResult<ServiceHealth> {
+  return validate<ServiceHealth>(raw, () => serviceHealthSchema);
+}
+
+export function validateSessionControl(raw: string): ValidationResult<SessionControlMessage> {
+  return validate<SessionControlMessage>(raw, value => discriminate(value, sessionControlSchemas));
+}
+
+export function formatIssues(errors: ValidationIssue[]): string {
+  return errors.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+}
+
+function discriminate(value: unknown, schemas: Record<string, Validator>): Validator {
+  const type = (value as { type?: unknown })?.type;
+  if (typeof type === 'string' && schemas[type]) {
+    return schemas[type];
+  }
+
+  return (_value, _path, issues) => {
+    issues.push({
+      path: 'type',
+      message: type === undefined
+        ? 'is required'
+        : `unsupported message type ${JSON.stringify(type)}, expected one of: ${Object.keys(schemas).join(', ')}`
+    });
+  };
+}
+
+function validate<T>(raw: string, selectSchema: (value: unknown) => Validator): ValidationResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    return {
+      ok: false,
+      reason: 'invalid_json',
+      errors: [{ path: ROOT, message: error instanceof Error ? error.message : 'invalid JSON' }]
+    };
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, reason: 'invalid_schema', errors: [{ path: ROOT, message: `expected object, got ${describe(value)}` }] };
+  }
+
+  // The version decides whether the rest of the message can be understood at all
+  const version = (value as { version?: unknown }).version ?? PROTOCOL_VERSION;
+  if (typeof version === 'string' && VERSION_PATTERN.test(version)) {
+    const major = parseInt(version.split('.')[0], 10);
+    if (!SUPPORTED_MAJOR_VERSIONS.includes(major)) {
+      return {
+        ok: false,
+        reason: 'unsupported_version',
+        errors: [{
+          path: 'version',
+          message: `unsupported major version ${major}, supported: ${SUPPORTED_MAJOR_VERSIONS.join(', ')}`
+        }]
+      };
+    }
+  }
+
+  const issues: ValidationIssue[] = [];
+  selectSchema(value)(value, ROOT, issues);
+  if (issues.length > 0) {
+    return { ok: false, reason: 'invalid_schema', errors: issues };
+  }
+
+  return { ok: true, value: value as T, version: version as string };
+}
@@ -43,6 +43,74 @@ export const redisMessagesReceived = new Counter({
   labelNames: ['channel', 'message_type']
 });
 
+export const redisMessagesRejected = new Counter({
+  name: 'redis_messages_rejected_total',
+  help: 'Messages from Redis rejected by schema validation',
+  labelNames: ['channel', 'reason']
+});
+
+export const udpPacketsRejected = new Counter({
+  name: 'udp_packets_rejected_total',
+  help: 'UDP audio datagrams rejected as malformed, truncated or corrupt',
+  labelNames: ['reason']
+});
+
+export const udpAuthFailures = new Counter({
+  name: 'udp_auth_failures_total',
+  help: 'UDP audio datagrams dropped for a missing or invalid authentication tag',
+  labelNames: ['reason']
+});
+
+export const udpNacksSent = new Counter({
+  name: 'udp_nacks_sent_total',
+  help: 'NACK datagrams sent to UDP audio senders for missing sequence numbers'
+});
+
+export const udpPacketRecovery = new Counter({
+  name: 'udp_packet_recovery_total',
+  help: 'Missing UDP audio packets by outcome: recovered by retransmission, rebuilt from parity, recovered too late, or lost',
+  labelNames: ['outcome']
+});
+
+export const udpIncompleteFrames = new Counter({
+  name: 'udp_incomplete_frames_total',
+  help: 'Fragmented UDP audio frames dropped before all fragments arrived, by reason',
+  labelNames: ['reason']
+});
+
+export const udpSourceViolations = new Counter({
+  name: 'udp_source_violations_total',
+  help: 'UDP audio datagrams dropped for coming from a source the session does not accept',
+  labelNames: ['reason']
+});
+
+export const udpSourceRebinds = new Counter({
+  name: 'udp_source_rebinds_total',
+  help: 'Authenticated UDP sessions that followed their sender to a new source address'
+});
+
+export const udpSessionTimeouts = new Counter({
+  name: 'udp_session_timeouts_total',
+  help: 'UDP sessions ended because their sender went silent, by phase (first_packet, idle)',
+  labelNames: ['phase']
+});
+
+export const rtpReceiverReports = new Counter({
+  name: 'rtp_receiver_reports_total',
+  help: 'RTCP receiver report blocks sent to RTP senders'
+});
+
+export const tcpAudioConnections = new Gauge({
+  name: 'tcp_audio_connections',
+  help: 'Open connections on the TCP audio fallback'
+});
+
+export const deadLetterMessages = new Counter({
+  name: 'dead_letter_messages_total',
+  help: 'Dropped messages sent to the dead-letter destination',
+  labelNames: ['reason']
+});
+
 // Error metrics
 export const errorCount = new Counter({
   name: 'audio_receiver_errors_total',
@@ -71,9 +139,9 @@ export const memoryUsage = new Gauge({
 // Audio quality metrics
 export const audioLatency = new Histogram({
   name: 'audio_processing_latency_seconds',
-  help: 'Latency between receiving and playing audio',
-  labelNames: ['format'],
-  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2]
+  help: 'Latency from the voice service timestamp to first audio written (stage=first_audio) and to stream end (stage=total)',
+  labelNames: ['format', 'stage'],
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30]
 });
 
 export const audioBufferSize = new Gauge({
@@ -82,10 +150,23 @@ export const audioBufferSize = new Gauge({
   labelNames: ['session_id']
 });
 
+export const audioChunkSequenceEvents = new Counter({
+  name: 'audio_chunk_sequence_events_total',
+  help: 'Sequenced AUDIO_OUTPUT chunks that were duplicated, lost in a gap, or arrived too late',
+  labelNames: ['event']
+});
+
+// Session lifecycle metrics
+export const sessionIllegalTransitions = new Counter({
+  name: 'session_illegal_transitions_total',
+  help: 'STATUS messages rejected as illegal session lifecycle transitions',
+  labelNames: ['from', 'to']
+});
+
 // Voice service health metrics
 export const voiceServiceHealth = new Gauge({
   name: 'voice_service_health',
-  help: 'Health status of the voice service (1=healthy, 0=unhealthy)'
+  help: 'Health status of the voice service (1=healthy, 0.5=degraded, 0=down or unknown)'
 });
 
 export const voiceServiceUptime = new Gauge({
@@ -102,12 +183,26 @@ export function setupMetrics(): void {
   register.registerMetric(redisConnectionStatus);
   register.registerMetric(redisReconnectAttempts);
   register.registerMetric(redisMessagesReceived);
+  register.registerMetric(redisMessagesRejected);
+  register.registerMetric(deadLetterMessages);
+  register.registerMetric(udpPacketsRejected);
+  register.registerMetric(udpAuthFailures);
+  register.registerMetric(udpNacksSent);
+  register.registerMetric(udpPacketRecovery);
+  register.registerMetric(udpIncompleteFrames);
+  register.registerMetric(udpSourceViolations);
+  register.registerMetric(udpSourceRebinds);
+  register.registerMetric(udpSessionTimeouts);
+  register.registerMetric(rtpReceiverReports);
+  register.registerMetric(tcpAudioConnections);
   register.registerMetric(errorCount);
   register.registerMetric(circuitBreakerState);
   register.registerMetric(uptime);
   register.registerMetric(memoryUsage);
   register.registerMetric(audioLatency);
   register.registerMetric(audioBufferSize);
+  register.registerMetric(sessionIllegalTransitions);
+  register.registerMetric(audioChunkSequenceEvents);
   register.registerMetric(voiceServiceHealth);
   register.registerMetric(voiceServiceUptime);
 
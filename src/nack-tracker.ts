@@ -0,0 +1,153 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+import { SequenceRange } from './packet-codec';
+import { UdpNackConfig } from './types';
+
+export type NackOptions = Omit<UdpNackConfig, 'enabled'>;
+
+interface MissingSequence {
+  detectedAt: number;
+  lastNackAt: number;
+  nacks: number;
+}
+
+/**
+ * Tracks missing UDP sequence numbers per session and decides when to ask the
+ * sender for them again.
+ *
+ * Emits 'nack' (sessionId, ranges) right after a gap is reported and again for
+ * sequences still missing after the retry interval, and 'lost' (sessionId, count)
+ * for sequences given up on.
+ */
+export class NackTracker extends EventEmitter {
+  private static readonly MAX_OUTSTANDING = 256;
+  private static readonly MAX_RANGES_PER_NACK = 128;
+
+  private options: NackOptions;
+  private sessions = new Map<string, Map<number, MissingSequence>>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: NackOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Records the sequences in [from, to) as missing and NACKs them immediately.
+   * `to` may run past 2^32 for a gap across the sequence number wrap.
+   */
+  missing(sessionId: string, from: number, to: number): void {
+    const now = Date.now();
+    let missing = this.sessions.get(sessionId);
+    if (!missing) {
+      missing = new Map();
+      this.sessions.set(sessionId, missing);
+    }
+
+    // A burst longer than we track cannot be recovered in time anyway
+    const first = Math.max(from, to - NackTracker.MAX_OUTSTANDING);
+    let lost = first - from;
+    for (let sequence = first; sequence < to; sequence++) {
+      missing.set(sequence % 2 ** 32, { detectedAt: now, lastNackAt: 0, nacks: 0 });
+    }
+    while (missing.size > NackTracker.MAX_OUTSTANDING) {
+      missing.delete(missing.keys().next().value as number);
+      lost++;
+    }
+    if (lost > 0) {
+      this.emit('lost', sessionId, lost);
+    }
+
+    this.sendNacks(sessionId, missing, now);
+    this.ensureTimer();
+  }
+
+  /**
+   * Returns true when the sequence was outstanding, i.e. this is a retransmission.
+   */
+  received(sessionId: string, sequence: number): boolean {
+    return this.sessions.get(sessionId)?.delete(sequence) ?? false;
+  }
+
+  /**
+   * Forgets a session; sequences still outstanding are reported as lost.
+   */
+  clearSession(sessionId: string): number {
+    const outstanding = this.sessions.get(sessionId)?.size ?? 0;
+    this.sessions.delete(sessionId);
+    if (outstanding > 0) {
+      this.emit('lost', sessionId, outstanding);
+    }
+    return outstanding;
+  }
+
+  getOutstanding(sessionId: string): number {
+    return this.sessions.get(sessionId)?.size ?? 0;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.sessions.clear();
+  }
+
+  private ensureTimer(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), Math.max(5, Math.floor(this.options.retryIntervalMs / 2)));
+  }
+
+  private tick(): void {
+    const now = Date.now();
+
+    for (const [sessionId, missing] of this.sessions) {
+      let lost = 0;
+      for (const [sequence, entry] of missing) {
+        if (now - entry.detectedAt >= this.options.maxWaitMs) {
+          missing.delete(sequence);
+          lost++;
+        }
+      }
+      if (lost > 0) {
+        logger.debug('Gave up on missing UDP packets', { sessionId, lost });
+        this.emit('lost', sessionId, lost);
+      }
+
+      this.sendNacks(sessionId, missing, now);
+      if (missing.size === 0) {
+        this.sessions.delete(sessionId);
+      }
+    }
+
+    if (this.sessions.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private sendNacks(sessionId: string, missing: Map<number, MissingSequence>, now: number): void {
+    const due = Array.from(missing.entries())
+      .filter(([, entry]) => entry.nacks < this.options.maxRetries && now - entry.lastNackAt >= this.options.retryIntervalMs)
+      .map(([sequence, entry]) => {
+        entry.nacks++;
+        entry.lastNackAt = now;
+        return sequence;
+      })
+      .sort((a, b) => a - b);
+
+    const ranges: SequenceRange[] = [];
+    for (const sequence of due) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.start + last.count === sequence && last.count < 0xffff) {
+        last.count++;
+      } else {
+        ranges.push({ start: sequence, count: 1 });
+      }
+    }
+
+    for (let i = 0; i < ranges.length; i += NackTracker.MAX_RANGES_PER_NACK) {
+      this.emit('nack', sessionId, ranges.slice(i, i + NackTracker.MAX_RANGES_PER_NACK));
+    }
+  }
+}
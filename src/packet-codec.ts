@@ -0,0 +1,548 @@
+import * as crypto from 'crypto';
+import { AudioFormat, AudioPacket, PacketFragment, UdpCipherAlgorithm } from './types';
+
+/**
+ * Wire format for UDP audio datagrams (all integers big-endian):
+ *
+ *   offset  size  field
+ *        0     4  magic "CHPA"
+ *        4     1  version (1)
+ *        5     2  header length, payload starts here; readers skip unknown header bytes
+ *        7     1  flags (bit 0: last packet of the session, bit 1: authentication tag present,
+ *                 bit 2: payload encrypted, bit 3: FEC parity packet, see fec.ts,
+ *                 bit 4: fragment of a larger frame)
+ *        8     1  format (0 = pcm, 1 = mp3, 2 = opus)
+ *        9     1  session ID length
+ *       10     4  sequence number
+ *       14     8  TTS generation timestamp (ms)
+ *       22     8  playback time (ms)
+ *       30     4  sample rate
+ *       34     4  payload length
+ *       38     4  CRC32 (IEEE) of the payload
+ *       42     n  session ID (UTF-8)
+ *     42+n    16  HMAC-SHA256 tag truncated to 16 bytes, when flagged
+ *        +0     1  encryption key ID, when encrypted
+ *        +0     2  fragment index, when fragmented
+ *        +2     2  fragment count (2 to MAX_FRAGMENTS), when fragmented
+ *
+ * The tag is computed with the session key over the whole datagram (header and
+ * payload) excluding the tag bytes themselves.
+ *
+ * Encrypted payloads are AEAD ciphertext followed by its 16-byte tag; the payload
+ * length and CRC32 cover both. The nonce is 8 bytes derived from the session ID
+ * followed by the sequence number, and every header byte except the CRC32 and
+ * the HMAC tag (key ID, fragment fields and skipped extension bytes included) is
+ * authenticated as associated data. Senders must rotate the key before the
+ * sequence number wraps.
+ *
+ * Frames larger than the path MTU are split into fragments that repeat the header
+ * with the same sequence number and carry a slice of the payload each. Fragments
+ * are checksummed, authenticated and encrypted one by one (the fragment index is
+ * part of the nonce) and reassembled by the receiver, see fragment-reassembler.ts.
+ *
+ * The legacy layout (no magic, version or checksum) is only decoded when enabled:
+ *   [sessionId length:1][sessionId][sequence:4][timestamp:8][playbackTime:8]
+ *   [format:1][sampleRate:4][isLast:1][payload length:4][payload]
+ */
+export const PACKET_MAGIC = Buffer.from('CHPA', 'ascii');
+export const PACKET_VERSION = 1;
+export const PACKET_HEADER_SIZE = 42;
+
+export const AUTH_TAG_LENGTH = 16;
+export const ENCRYPTION_KEY_LENGTH = 32;
+export const AEAD_TAG_LENGTH = 16;
+export const CIPHER_ALGORITHMS: readonly UdpCipherAlgorithm[] = ['aes-256-gcm', 'chacha20-poly1305'];
+export const MAX_FRAGMENTS = 64;
+
+export interface PayloadKey {
+  algorithm: UdpCipherAlgorithm;
+  keyId: number;              // 0-255, carried in the header so rotations can overlap
+  key: Buffer;
+}
+
+const FLAG_LAST = 0x01;
+const FLAG_AUTH = 0x02;
+const FLAG_ENCRYPTED = 0x04;
+const FLAG_PARITY = 0x08;
+const FLAG_FRAGMENT = 0x10;
+const FRAGMENT_FIELDS_LENGTH = 4;
+const LEGACY_FIXED_SIZE = 1 + 4 + 8 + 8 + 1 + 4 + 1 + 4;
+
+const FORMAT_CODES: Record<string, number> = {
+  [AudioFormat.PCM]: 0,
+  [AudioFormat.MP3]: 1,
+  [AudioFormat.OPUS]: 2
+};
+const FORMATS_BY_CODE = [AudioFormat.PCM, AudioFormat.MP3, AudioFormat.OPUS];
+
+export type PacketRejectReason =
+  | 'too_short'
+  | 'bad_magic'
+  | 'unsupported_version'
+  | 'bad_header'
+  | 'truncated'
+  | 'unknown_format'
+  | 'checksum_mismatch'
+  | 'not_encrypted'
+  | 'unknown_key'
+  | 'decrypt_failed'
+  | 'bad_fragment'
+  | 'bad_parity'              // FEC parity payload that cannot rebuild a packet
+  | 'unknown_payload_type'    // RTP payload type without a mapping
+  | 'payload_mismatch'        // RTP payload that does not decode to the session's format
+  | 'frame_too_large'         // TCP frame length over what the receiver buffers
+  | 'empty_frame';            // TCP frame of 0 bytes
+
+export class PacketDecodeError extends Error {
+  readonly reason: PacketRejectReason;
+
+  constructor(reason: PacketRejectReason, message: string) {
+    super(message);
+    this.name = 'PacketDecodeError';
+    this.reason = reason;
+  }
+}
+
+const CRC_TABLE = ((): Uint32Array => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function encodePacket(
+  packet: AudioPacket,
+  options: { authKey?: Buffer; encryption?: PayloadKey } = {}
+): Buffer {
+  const { authKey, encryption } = options;
+  const sessionId = Buffer.from(packet.sessionId, 'utf8');
+  if (sessionId.length > 255) {
+    throw new Error('Session ID longer than 255 bytes');
+  }
+
+  const tagOffset = PACKET_HEADER_SIZE + sessionId.length;
+  const keyIdOffset = tagOffset + (authKey ? AUTH_TAG_LENGTH : 0);
+  const fragmentOffset = keyIdOffset + (encryption ? 1 : 0);
+  const headerLength = fragmentOffset + (packet.fragment ? FRAGMENT_FIELDS_LENGTH : 0);
+  const payloadLength = packet.audioData.length + (encryption ? AEAD_TAG_LENGTH : 0);
+  const buffer = Buffer.alloc(headerLength + payloadLength);
+
+  PACKET_MAGIC.copy(buffer, 0);
+  buffer.writeUInt8(PACKET_VERSION, 4);
+  buffer.writeUInt16BE(headerLength, 5);
+  buffer.writeUInt8(
+    (packet.isLast ? FLAG_LAST : 0) | (authKey ? FLAG_AUTH : 0) | (encryption ? FLAG_ENCRYPTED : 0) |
+      (packet.parity ? FLAG_PARITY : 0) | (packet.fragment ? FLAG_FRAGMENT : 0),
+    7
+  );
+  buffer.writeUInt8(FORMAT_CODES[packet.format] ?? 0, 8);
+  buffer.writeUInt8(sessionId.length, 9);
+  buffer.writeUInt32BE(packet.sequenceNumber, 10);
+  buffer.writeBigUInt64BE(BigInt(packet.timestamp), 14);
+  buffer.writeBigUInt64BE(BigInt(packet.playbackTime), 22);
+  buffer.writeUInt32BE(packet.sampleRate, 30);
+  buffer.writeUInt32BE(payloadLength, 34);
+  sessionId.copy(buffer, PACKET_HEADER_SIZE);
+  if (packet.fragment) {
+    buffer.writeUInt16BE(packet.fragment.index, fragmentOffset);
+    buffer.writeUInt16BE(packet.fragment.count, fragmentOffset + 2);
+  }
+
+  if (encryption) {
+    buffer.writeUInt8(encryption.keyId, keyIdOffset);
+    sealPayload(encryption, buffer, packet).copy(buffer, headerLength);
+  } else {
+    packet.audioData.copy(buffer, headerLength);
+  }
+  buffer.writeUInt32BE(crc32(buffer.subarray(headerLength)), 38);
+
+  if (authKey) {
+    computeTag(authKey, buffer, tagOffset, buffer.length).copy(buffer, tagOffset);
+  }
+
+  return buffer;
+}
+
+/**
+ * Splits a frame into fragments whose payloads are at most maxPayloadBytes, for
+ * senders whose frames would exceed the path MTU. Frames that fit are returned
+ * as they are. Leave room for the AEAD tag when encrypting.
+ */
+export function fragmentPacket(packet: AudioPacket, maxPayloadBytes: number): AudioPacket[] {
+  if (packet.audioData.length <= maxPayloadBytes) {
+    return [packet];
+  }
+
+  const count = Math.ceil(packet.audioData.length / maxPayloadBytes);
+  if (count > MAX_FRAGMENTS) {
+    throw new Error(`Frame of ${packet.audioData.length} bytes needs ${count} fragments, more than ${MAX_FRAGMENTS}`);
+  }
+
+  return Array.from({ length: count }, (_, index) => ({
+    ...packet,
+    audioData: packet.audioData.subarray(index * maxPayloadBytes, (index + 1) * maxPayloadBytes),
+    fragment: { index, count }
+  }));
+}
+
+/**
+ * Checks the authentication tag of a datagram that already passed decodePacket().
+ */
+export function verifyPacketTag(buffer: Buffer, key: Buffer): 'valid' | 'missing' | 'invalid' {
+  if (!isVersionedPacket(buffer) || (buffer.readUInt8(7) & FLAG_AUTH) === 0) {
+    return 'missing';
+  }
+
+  const tagOffset = PACKET_HEADER_SIZE + buffer.readUInt8(9);
+  const end = buffer.readUInt16BE(5) + buffer.readUInt32BE(34);
+  const expected = computeTag(key, buffer, tagOffset, end);
+  const actual = buffer.subarray(tagOffset, tagOffset + AUTH_TAG_LENGTH);
+
+  return crypto.timingSafeEqual(expected, actual) ? 'valid' : 'invalid';
+}
+
+/**
+ * Per-session key for senders that share a secret with the receiver instead of
+ * sending a key in SESSION_START.
+ */
+export function deriveSessionKey(secret: string, sessionId: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(`chip-udp-session:${sessionId}`).digest();
+}
+
+/**
+ * Key ID of an encrypted datagram that already passed decodePacket(), or null when
+ * its payload is plaintext.
+ */
+export function packetKeyId(buffer: Buffer): number | null {
+  const flags = isVersionedPacket(buffer) ? buffer.readUInt8(7) : 0;
+  if ((flags & FLAG_ENCRYPTED) === 0) {
+    return null;
+  }
+  return buffer.readUInt8(PACKET_HEADER_SIZE + buffer.readUInt8(9) + (flags & FLAG_AUTH ? AUTH_TAG_LENGTH : 0));
+}
+
+/**
+ * Decrypts the payload of a decoded packet, throwing PacketDecodeError when the
+ * key is wrong or the ciphertext or header was tampered with.
+ */
+export function openPayload(key: PayloadKey, buffer: Buffer, packet: AudioPacket): Buffer {
+  if (packet.audioData.length < AEAD_TAG_LENGTH) {
+    throw new PacketDecodeError('decrypt_failed', 'Encrypted payload is shorter than its tag');
+  }
+
+  const ciphertext = packet.audioData.subarray(0, packet.audioData.length - AEAD_TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(
+    key.algorithm as crypto.CipherGCMTypes,
+    key.key,
+    payloadNonce(packet),
+    { authTagLength: AEAD_TAG_LENGTH }
+  );
+  decipher.setAAD(associatedData(buffer));
+  decipher.setAuthTag(packet.audioData.subarray(ciphertext.length));
+
+  try {
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new PacketDecodeError('decrypt_failed', `Payload failed to decrypt with key ${key.keyId}`);
+  }
+}
+
+function sealPayload(key: PayloadKey, buffer: Buffer, packet: AudioPacket): Buffer {
+  const cipher = crypto.createCipheriv(
+    key.algorithm as crypto.CipherGCMTypes,
+    key.key,
+    payloadNonce(packet),
+    { authTagLength: AEAD_TAG_LENGTH }
+  );
+  cipher.setAAD(associatedData(buffer));
+  return Buffer.concat([cipher.update(packet.audioData), cipher.final(), cipher.getAuthTag()]);
+}
+
+// Unique per key as long as the sequence number does not wrap; parity packets
+// share the sequence number of their group's first packet and use their own
+// prefix, and fragments of one frame add their index to it
+function payloadNonce(packet: AudioPacket): Buffer {
+  const label = packet.parity ? 'chip-udp-parity-nonce' : 'chip-udp-nonce';
+  const prefix = packet.fragment
+    ? `${label}:${packet.sessionId}:${packet.fragment.index}`
+    : `${label}:${packet.sessionId}`;
+  const nonce = Buffer.alloc(12);
+  crypto.createHash('sha256').update(prefix).digest().copy(nonce, 0, 0, 8);
+  nonce.writeUInt32BE(packet.sequenceNumber, 8);
+  return nonce;
+}
+
+// Every header byte except the CRC32 and the HMAC tag, which are computed after
+// encryption and cannot be part of it
+function associatedData(buffer: Buffer): Buffer {
+  const sessionIdEnd = PACKET_HEADER_SIZE + buffer.readUInt8(9);
+  const tagLength = buffer.readUInt8(7) & FLAG_AUTH ? AUTH_TAG_LENGTH : 0;
+  return Buffer.concat([
+    buffer.subarray(0, 38),
+    buffer.subarray(PACKET_HEADER_SIZE, sessionIdEnd),
+    buffer.subarray(sessionIdEnd + tagLength, buffer.readUInt16BE(5))
+  ]);
+}
+
+function computeTag(key: Buffer, buffer: Buffer, tagOffset: number, end: number): Buffer {
+  return crypto.createHmac('sha256', key)
+    .update(buffer.subarray(0, tagOffset))
+    .update(buffer.subarray(tagOffset + AUTH_TAG_LENGTH, end))
+    .digest()
+    .subarray(0, AUTH_TAG_LENGTH);
+}
+
+/**
+ * NACK datagrams sent back to the sender for missing sequence numbers:
+ *
+ *   offset  size  field
+ *        0     4  magic "CHPN"
+ *        4     1  version (1)
+ *        5     1  flags (bit 1: authentication tag present)
+ *        6     1  session ID length
+ *        7     2  range count
+ *        9     n  session ID (UTF-8)
+ *      9+n   6*k  ranges: first sequence (4), count (2)
+ *        -    16  HMAC-SHA256 tag over everything before it, truncated, when flagged
+ */
+export const NACK_MAGIC = Buffer.from('CHPN', 'ascii');
+
+export interface SequenceRange {
+  start: number;
+  count: number;
+}
+
+export function encodeNack(sessionId: string, ranges: SequenceRange[], options: { authKey?: Buffer } = {}): Buffer {
+  const id = Buffer.from(sessionId, 'utf8');
+  const rangesOffset = 9 + id.length;
+  const tagOffset = rangesOffset + ranges.length * 6;
+  const buffer = Buffer.alloc(tagOffset + (options.authKey ? AUTH_TAG_LENGTH : 0));
+
+  NACK_MAGIC.copy(buffer, 0);
+  buffer.writeUInt8(PACKET_VERSION, 4);
+  buffer.writeUInt8(options.authKey ? FLAG_AUTH : 0, 5);
+  buffer.writeUInt8(id.length, 6);
+  buffer.writeUInt16BE(ranges.length, 7);
+  id.copy(buffer, 9);
+  ranges.forEach((range, index) => {
+    buffer.writeUInt32BE(range.start, rangesOffset + index * 6);
+    buffer.writeUInt16BE(range.count, rangesOffset + index * 6 + 4);
+  });
+
+  if (options.authKey) {
+    computeTag(options.authKey, buffer, tagOffset, tagOffset).copy(buffer, tagOffset);
+  }
+  return buffer;
+}
+
+/**
+ * Decodes a NACK as a sender would. With authKey the tag is required and checked.
+ */
+export function decodeNack(buffer: Buffer, options: { authKey?: Buffer } = {}): { sessionId: string; ranges: SequenceRange[] } {
+  if (buffer.length < 9 || !buffer.subarray(0, 4).equals(NACK_MAGIC)) {
+    throw new PacketDecodeError('bad_magic', 'Datagram is not a NACK');
+  }
+
+  const tagged = (buffer.readUInt8(5) & FLAG_AUTH) !== 0;
+  const rangesOffset = 9 + buffer.readUInt8(6);
+  const tagOffset = rangesOffset + buffer.readUInt16BE(7) * 6;
+  if (buffer.length < tagOffset + (tagged ? AUTH_TAG_LENGTH : 0)) {
+    throw new PacketDecodeError('truncated', 'NACK is shorter than its ranges');
+  }
+
+  if (options.authKey) {
+    const expected = computeTag(options.authKey, buffer, tagOffset, tagOffset);
+    if (!tagged || !crypto.timingSafeEqual(expected, buffer.subarray(tagOffset, tagOffset + AUTH_TAG_LENGTH))) {
+      throw new Error('NACK failed authentication');
+    }
+  }
+
+  const ranges: SequenceRange[] = [];
+  for (let offset = rangesOffset; offset < tagOffset; offset += 6) {
+    ranges.push({ start: buffer.readUInt32BE(offset), count: buffer.readUInt16BE(offset + 4) });
+  }
+  return { sessionId: buffer.subarray(9, rangesOffset).toString('utf8'), ranges };
+}
+
+export function encodeLegacyPacket(packet: AudioPacket): Buffer {
+  const sessionId = Buffer.from(packet.sessionId, 'utf8');
+  const buffer = Buffer.alloc(LEGACY_FIXED_SIZE + sessionId.length + packet.audioData.length);
+
+  let offset = 0;
+  buffer.writeUInt8(sessionId.length, offset);
+  offset += 1;
+  sessionId.copy(buffer, offset);
+  offset += sessionId.length;
+  buffer.writeUInt32BE(packet.sequenceNumber, offset);
+  offset += 4;
+  buffer.writeBigUInt64BE(BigInt(packet.timestamp), offset);
+  offset += 8;
+  buffer.writeBigUInt64BE(BigInt(packet.playbackTime), offset);
+  offset += 8;
+  buffer.writeUInt8(packet.format === AudioFormat.PCM ? 0 : 1, offset);
+  offset += 1;
+  buffer.writeUInt32BE(packet.sampleRate, offset);
+  offset += 4;
+  buffer.writeUInt8(packet.isLast ? 1 : 0, offset);
+  offset += 1;
+  buffer.writeUInt32BE(packet.audioData.length, offset);
+  offset += 4;
+  packet.audioData.copy(buffer, offset);
+
+  return buffer;
+}
+
+export function isVersionedPacket(buffer: Buffer): boolean {
+  return buffer.length >= PACKET_MAGIC.length && buffer.subarray(0, PACKET_MAGIC.length).equals(PACKET_MAGIC);
+}
+
+/**
+ * Decodes a datagram, throwing PacketDecodeError with the rejection reason when it
+ * is malformed, truncated or corrupt.
+ */
+export function decodePacket(buffer: Buffer, options: { acceptLegacy?: boolean } = {}): AudioPacket {
+  if (isVersionedPacket(buffer)) {
+    return decodeVersionedPacket(buffer);
+  }
+  if (options.acceptLegacy) {
+    return decodeLegacyPacket(buffer);
+  }
+  if (buffer.length < PACKET_MAGIC.length) {
+    throw new PacketDecodeError('too_short', `Datagram of ${buffer.length} bytes is too short`);
+  }
+  throw new PacketDecodeError('bad_magic', 'Datagram does not start with the packet magic');
+}
+
+function decodeVersionedPacket(buffer: Buffer): AudioPacket {
+  if (buffer.length < PACKET_HEADER_SIZE) {
+    throw new PacketDecodeError('too_short', `Datagram of ${buffer.length} bytes is shorter than the header`);
+  }
+
+  const version = buffer.readUInt8(4);
+  if (version !== PACKET_VERSION) {
+    throw new PacketDecodeError('unsupported_version', `Unsupported packet version ${version}`);
+  }
+
+  const headerLength = buffer.readUInt16BE(5);
+  const sessionIdLength = buffer.readUInt8(9);
+  const flags = buffer.readUInt8(7);
+  const tagLength = flags & FLAG_AUTH ? AUTH_TAG_LENGTH : 0;
+  const keyIdLength = flags & FLAG_ENCRYPTED ? 1 : 0;
+  const fragmentOffset = PACKET_HEADER_SIZE + sessionIdLength + tagLength + keyIdLength;
+  if (headerLength < fragmentOffset + (flags & FLAG_FRAGMENT ? FRAGMENT_FIELDS_LENGTH : 0)) {
+    throw new PacketDecodeError(
+      'bad_header',
+      `Header length ${headerLength} cannot hold the session ID, tag, key ID and fragment fields`
+    );
+  }
+
+  const payloadLength = buffer.readUInt32BE(34);
+  if (buffer.length < headerLength + payloadLength) {
+    throw new PacketDecodeError(
+      'truncated',
+      `Datagram of ${buffer.length} bytes is shorter than its ${headerLength + payloadLength} declared bytes`
+    );
+  }
+
+  const formatCode = buffer.readUInt8(8);
+  const format = FORMATS_BY_CODE[formatCode];
+  if (!format) {
+    throw new PacketDecodeError('unknown_format', `Unknown audio format code ${formatCode}`);
+  }
+
+  const audioData = buffer.subarray(headerLength, headerLength + payloadLength);
+  const expected = buffer.readUInt32BE(38);
+  const actual = crc32(audioData);
+  if (actual !== expected) {
+    throw new PacketDecodeError(
+      'checksum_mismatch',
+      `Payload CRC32 ${actual.toString(16)} does not match ${expected.toString(16)}`
+    );
+  }
+
+  let fragment: PacketFragment | undefined;
+  if (flags & FLAG_FRAGMENT) {
+    fragment = { index: buffer.readUInt16BE(fragmentOffset), count: buffer.readUInt16BE(fragmentOffset + 2) };
+    if (fragment.count < 2 || fragment.count > MAX_FRAGMENTS || fragment.index >= fragment.count) {
+      throw new PacketDecodeError('bad_fragment', `Fragment ${fragment.index} of ${fragment.count} is out of range`);
+    }
+  }
+
+  return {
+    sessionId: buffer.subarray(PACKET_HEADER_SIZE, PACKET_HEADER_SIZE + sessionIdLength).toString('utf8'),
+    sequenceNumber: buffer.readUInt32BE(10),
+    timestamp: Number(buffer.readBigUInt64BE(14)),
+    playbackTime: Number(buffer.readBigUInt64BE(22)),
+    audioData,
+    format,
+    sampleRate: buffer.readUInt32BE(30),
+    isLast: (buffer.readUInt8(7) & FLAG_LAST) !== 0,
+    checksum: expected.toString(16).padStart(8, '0'),
+    ...(flags & FLAG_PARITY ? { parity: true } : {}),
+    ...(fragment ? { fragment } : {})
+  };
+}
+
+function decodeLegacyPacket(buffer: Buffer): AudioPacket {
+  if (buffer.length < 1) {
+    throw new PacketDecodeError('too_short', 'Empty datagram');
+  }
+
+  const sessionIdLength = buffer.readUInt8(0);
+  const headerLength = 1 + sessionIdLength;
+  if (buffer.length < headerLength + LEGACY_FIXED_SIZE - 1) {
+    throw new PacketDecodeError('too_short', `Legacy datagram of ${buffer.length} bytes is shorter than its header`);
+  }
+
+  let offset = headerLength;
+  const sequenceNumber = buffer.readUInt32BE(offset);
+  offset += 4;
+  const timestamp = Number(buffer.readBigUInt64BE(offset));
+  offset += 8;
+  const playbackTime = Number(buffer.readBigUInt64BE(offset));
+  offset += 8;
+  const formatByte = buffer.readUInt8(offset);
+  offset += 1;
+  const sampleRate = buffer.readUInt32BE(offset);
+  offset += 4;
+  const isLast = buffer.readUInt8(offset) === 1;
+  offset += 1;
+  const payloadLength = buffer.readUInt32BE(offset);
+  offset += 4;
+
+  if (buffer.length < offset + payloadLength) {
+    throw new PacketDecodeError(
+      'truncated',
+      `Legacy datagram of ${buffer.length} bytes is shorter than its ${offset + payloadLength} declared bytes`
+    );
+  }
+
+  const format = formatByte === 0 ? AudioFormat.PCM : formatByte === 1 ? AudioFormat.MP3 : undefined;
+  if (!format) {
+    throw new PacketDecodeError('unknown_format', `Unknown audio format code ${formatByte}`);
+  }
+
+  return {
+    sessionId: buffer.subarray(1, headerLength).toString('utf8'),
+    sequenceNumber,
+    timestamp,
+    playbackTime,
+    audioData: buffer.subarray(offset, offset + payloadLength),
+    format,
+    sampleRate,
+    isLast
+  };
+}
@@ -12,6 +12,7 @@
 import { UDPAudioServer } from './udp-audio-server';
 import { AudioSyncManager } from './audio-sync-manager';
 import { JitterBuffer } from './jitter-buffer';
+import { encodePacket } from './packet-codec';
 import { AudioPacket, AudioFormat, NetworkConditions, SyncTimestamps } from './types';
 import * as dgram from 'dgram';
 
@@ -131,7 +132,7 @@ class Phase1Demo {
       // Send 5 test packets
       for (let i = 1; i <= 5; i++) {
         const packet = this.createTestAudioPacket(sessionId, i);
-        const serializedPacket = this.serializeAudioPacket(packet);
+        const serializedPacket = encodePacket(packet);
         
         client.send(serializedPacket, serverAddress.port, '127.0.0.1');
         console.log(`📡 Sent packet ${i}/5`);
@@ -143,7 +144,7 @@ class Phase1Demo {
       // Send final packet
       const finalPacket = this.createTestAudioPacket(sessionId, 6);
       finalPacket.isLast = true;
-      const finalSerialized = this.serializeAudioPacket(finalPacket);
+      const finalSerialized = encodePacket(finalPacket);
       client.send(finalSerialized, serverAddress.port, '127.0.0.1');
       console.log('📡 Sent final packet (isLast=true)');
 
@@ -220,52 +221,6 @@ class Phase1Demo {
     };
   }
 
-  private serializeAudioPacket(packet: AudioPacket): Buffer {
-    // Serialize following the UDP protocol spec
-    const sessionIdBuffer = Buffer.from(packet.sessionId, 'utf8');
-    const audioDataBuffer = packet.audioData;
-    
-    const totalLength = 1 + sessionIdBuffer.length + 4 + 8 + 8 + 1 + 4 + 1 + 4 + audioDataBuffer.length;
-    const buffer = Buffer.allocUnsafe(totalLength);
-    
-    let offset = 0;
-    
-    // Session ID length and data
-    buffer.writeUInt8(sessionIdBuffer.length, offset);
-    offset += 1;
-    sessionIdBuffer.copy(buffer, offset);
-    offset += sessionIdBuffer.length;
-    
-    // Sequence number
-    buffer.writeUInt32BE(packet.sequenceNumber, offset);
-    offset += 4;
-    
-    // Timestamps
-    buffer.writeBigUInt64BE(BigInt(packet.timestamp), offset);
-    offset += 8;
-    buffer.writeBigUInt64BE(BigInt(packet.playbackTime), offset);
-    offset += 8;
-    
-    // Format (0 = PCM)
-    buffer.writeUInt8(packet.format === AudioFormat.PCM ? 0 : 1, offset);
-    offset += 1;
-    
-    // Sample rate
-    buffer.writeUInt32BE(packet.sampleRate, offset);
-    offset += 4;
-    
-    // Is last
-    buffer.writeUInt8(packet.isLast ? 1 : 0, offset);
-    offset += 1;
-    
-    // Audio data length and data
-    buffer.writeUInt32BE(audioDataBuffer.length, offset);
-    offset += 4;
-    audioDataBuffer.copy(buffer, offset);
-    
-    return buffer;
-  }
-
   async stop(): Promise<void> {
     console.log('🛑 Stopping Phase 1 Demo...');
     
@@ -120,6 +120,29 @@ describe('Phase 1 Unit Tests', () => {
       expect(timingStats.queueLength).toBeGreaterThan(0);
     });
 
+    it('should refuse chunks past their playout deadline only when asked to', () => {
+      const sessionId = 'sync-session-6';
+      syncManager.createSession(sessionId);
+
+      const first = createTestAudioPacket(sessionId, 0);
+      const syncTimestamps: SyncTimestamps = {
+        ttsGenerated: first.timestamp,
+        packetSent: first.timestamp,
+        packetReceived: Date.now(),
+        scheduledPlayback: first.playbackTime
+      };
+      const networkConditions: NetworkConditions = { avgLatency: 0, jitterMs: 0, packetLoss: 0, bandwidth: 0 };
+      expect(syncManager.scheduleAudioChunk(first, syncTimestamps, networkConditions)).toBe(true);
+
+      // Due 1s before the session's audio started
+      const overdue = { ...createTestAudioPacket(sessionId, 1), timestamp: first.timestamp, playbackTime: first.timestamp - 1000 };
+
+      expect(syncManager.scheduleAudioChunk(overdue, syncTimestamps, networkConditions, undefined, { dropIfLate: true })).toBe(false);
+      expect(syncManager.getQueueLength(sessionId)).toBe(1);
+      expect(syncManager.scheduleAudioChunk(overdue, syncTimestamps, networkConditions)).toBe(true);
+      expect(syncManager.getQueueLength(sessionId)).toBe(2);
+    });
+
     it('should adjust timing based on network conditions', () => {
       const sessionId = 'sync-session-5';
       syncManager.createSession(sessionId);
@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import { createClient, createCluster, RedisClientOptions, RedisClientType, RedisClusterType } from 'redis';
+import { logger } from './logger';
+import { RedisConfig, RedisNode } from './types';
+
+type SocketOptions = NonNullable<RedisClientOptions['socket']>;
+
+const SENTINEL_CONNECT_TIMEOUT_MS = 2000;
+
+/**
+ * Creates the receiver's main Redis client for the configured topology.
+ *
+ * No client reconnects by itself: the receiver replaces them after a connection
+ * loss, so that every reconnect resubscribes and settles the streams it
+ * interrupted.
+ *
+ * Sentinel: node-redis 4 has no Sentinel support, so the master address is looked
+ * up with SENTINEL get-master-addr-by-name and a plain client is opened to it.
+ * The client would reconnect to the same address, so after a failover the
+ * receiver calls this again for a new client, which asks the sentinels for the
+ * new master.
+ *
+ * Cluster: the cluster client routes commands by key and follows topology changes
+ * itself. It has the pub/sub, publish and stream commands the receiver uses, but
+ * unlike a plain client it never emits 'ready' and stays open when one of its
+ * node connections fails; it only forwards that node's 'error'.
+ */
+export type RedisConnection = RedisClientType | RedisClusterType;
+
+export function isRedisCluster(connection: RedisConnection): connection is RedisClusterType {
+  return 'masters' in connection;
+}
+
+export async function createRedisConnection(redis: RedisConfig): Promise<RedisConnection> {
+  switch (redis.mode) {
+    case 'sentinel': {
+      const master = await resolveSentinelMaster(redis);
+      logger.info('Resolved Redis master from Sentinel', { masterName: redis.sentinel.masterName, ...master });
+      return createClient(withoutAutoReconnect(buildClientOptions(redis, master))) as RedisClientType;
+    }
+    case 'cluster':
+      return createCluster({
+        rootNodes: redis.cluster.nodes.map(node => ({ socket: buildSocketOptions(redis, node) })),
+        defaults: {
+          username: redis.username,
+          password: redis.password,
+          // Nodes discovered through CLUSTER SLOTS need the same TLS settings
+          socket: { ...buildSocketOptions(redis), reconnectStrategy: false } as SocketOptions
+        }
+      }) as RedisClusterType;
+    default:
+      return createClient(withoutAutoReconnect(buildClientOptions(redis))) as RedisClientType;
+  }
+}
+
+function withoutAutoReconnect(options: RedisClientOptions): RedisClientOptions {
+  return { ...options, socket: { ...options.socket, reconnectStrategy: false } as SocketOptions };
+}
+
+export function buildClientOptions(
+  redis: RedisConfig,
+  node: RedisNode = { host: redis.host, port: redis.port }
+): RedisClientOptions {
+  const options: RedisClientOptions = {
+    socket: buildSocketOptions(redis, node),
+    password: redis.password
+  };
+  if (redis.username) {
+    options.username = redis.username;
+  }
+  return options;
+}
+
+export async function resolveSentinelMaster(redis: RedisConfig): Promise<RedisNode> {
+  const { masterName, nodes, password } = redis.sentinel;
+  let lastError: unknown = null;
+
+  for (const sentinel of nodes) {
+    const client = createClient({
+      socket: {
+        ...buildSocketOptions(redis, sentinel),
+        connectTimeout: SENTINEL_CONNECT_TIMEOUT_MS,
+        reconnectStrategy: false
+      } as SocketOptions,
+      password
+    });
+    // Failures surface through connect()/sendCommand(); this keeps them from being rethrown as events
+    client.on('error', () => undefined);
+
+    try {
+      await client.connect();
+      const reply = await client.sendCommand<string[] | null>(['SENTINEL', 'get-master-addr-by-name', masterName]);
+      if (Array.isArray(reply) && reply.length === 2) {
+        return { host: reply[0], port: parseInt(reply[1], 10) };
+      }
+      lastError = new Error(`unknown master "${masterName}"`);
+    } catch (error) {
+      lastError = error;
+    } finally {
+      if (client.isOpen) {
+        await client.disconnect().catch(() => undefined);
+      }
+    }
+
+    logger.warn('Sentinel could not resolve Redis master', {
+      sentinel: `${sentinel.host}:${sentinel.port}`,
+      masterName,
+      error: lastError instanceof Error ? lastError.message : lastError
+    });
+  }
+
+  const reason = lastError instanceof Error ? lastError.message : String(lastError);
+  throw new Error(`No Sentinel could resolve Redis master "${masterName}": ${reason}`);
+}
+
+function buildSocketOptions(redis: RedisConfig, node?: RedisNode): SocketOptions {
+  const address = node ? { host: node.host, port: node.port } : {};
+  const { tls } = redis;
+  if (!tls.enabled) {
+    return address;
+  }
+
+  const socket: SocketOptions = {
+    ...address,
+    tls: true,
+    rejectUnauthorized: tls.rejectUnauthorized
+  };
+  if (tls.caFile) socket.ca = fs.readFileSync(tls.caFile);
+  if (tls.certFile) socket.cert = fs.readFileSync(tls.certFile);
+  if (tls.keyFile) socket.key = fs.readFileSync(tls.keyFile);
+  if (tls.servername) socket.servername = tls.servername;
+  return socket;
+}
@@ -0,0 +1,225 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+
+export interface SequenceStatistics {
+  delivered: number;
+  duplicates: number;
+  reordered: number;   // Held back until an earlier chunk arrived
+  lost: number;        // Skipped after the reorder window filled or timed out
+  late: number;        // Arrived after their position was skipped
+}
+
+interface SequenceState<T> {
+  expected: number;
+  pending: Map<number, T>;
+  skipped: Set<number>;
+  gapTimer: NodeJS.Timeout | null;
+  utterance: string | undefined;
+  finished: Set<string>;       // Recent utterances whose late chunks are dropped
+  lastActivity: number;
+  statistics: SequenceStatistics;
+}
+
+/**
+ * Per-session reorder window for sequenced chunks.
+ *
+ * push() returns the chunks that can be delivered in order. Chunks after a gap
+ * are held until the gap fills, the window overflows, or the gap timeout
+ * expires; in the last case they are handed out through a 'release' event.
+ * Emits 'gap' (sessionId, expected, received) whenever sequences are given up.
+ *
+ * Every utterance numbers its chunks from zero. complete() ends the current
+ * one, and a chunk naming another utterance than the current one starts it, so
+ * chunks that overtake the next utterance's first chunk are held, not dropped.
+ */
+export class ReorderBuffer<T> extends EventEmitter {
+  private static readonly MAX_SKIPPED = 256;
+  private static readonly MAX_FINISHED = 8;
+
+  private windowSize: number;
+  private gapTimeoutMs: number;
+  private sessions = new Map<string, SequenceState<T>>();
+
+  constructor(windowSize: number, gapTimeoutMs: number) {
+    super();
+    this.windowSize = windowSize;
+    this.gapTimeoutMs = gapTimeoutMs;
+  }
+
+  push(sessionId: string, sequence: number, item: T, isFirst: boolean, utterance?: string): T[] {
+    let state = this.sessions.get(sessionId);
+    if (!state) {
+      state = this.createState();
+      this.sessions.set(sessionId, state);
+    }
+    state.lastActivity = Date.now();
+
+    if (utterance !== undefined && utterance !== state.utterance) {
+      if (state.finished.has(utterance)) {
+        state.statistics.duplicates++;
+        logger.debug('Dropping chunk of a finished utterance', { sessionId, sequence, utterance });
+        this.emit('duplicate', sessionId, sequence);
+        return [];
+      }
+      // A new utterance may start before the last one completed
+      this.finishUtterance(state);
+      state.utterance = utterance;
+    }
+
+    if (sequence < state.expected || state.pending.has(sequence)) {
+      if (state.skipped.has(sequence)) {
+        state.statistics.late++;
+        logger.warn('Dropping chunk that arrived after its gap was skipped', { sessionId, sequence, isFirst });
+        this.emit('late', sessionId, sequence);
+      } else {
+        state.statistics.duplicates++;
+        logger.debug('Dropping duplicate chunk', { sessionId, sequence });
+        this.emit('duplicate', sessionId, sequence);
+      }
+      return [];
+    }
+
+    if (sequence > state.expected) {
+      state.pending.set(sequence, item);
+      if (state.pending.size > this.windowSize) {
+        return this.skipGap(sessionId, state);
+      }
+      this.startTimer(sessionId, state);
+      return [];
+    }
+
+    const ready = [item];
+    state.expected++;
+    state.statistics.delivered++;
+    ready.push(...this.drainConsecutive(state, true));
+    this.restartTimer(sessionId, state);
+    return ready;
+  }
+
+  /**
+   * Ends the current utterance; the next one numbers its chunks from zero.
+   */
+  complete(sessionId: string): void {
+    const state = this.sessions.get(sessionId);
+    if (!state) return;
+
+    this.finishUtterance(state);
+  }
+
+  getStatistics(sessionId: string): SequenceStatistics | null {
+    const state = this.sessions.get(sessionId);
+    return state ? { ...state.statistics } : null;
+  }
+
+  cleanup(maxIdleMs: number): void {
+    const cutoff = Date.now() - maxIdleMs;
+    for (const [sessionId, state] of this.sessions) {
+      if (state.lastActivity < cutoff) {
+        this.clearTimer(state);
+        this.sessions.delete(sessionId);
+      }
+    }
+  }
+
+  stop(): void {
+    this.sessions.forEach(state => this.clearTimer(state));
+    this.sessions.clear();
+  }
+
+  private createState(): SequenceState<T> {
+    return {
+      expected: 0,
+      pending: new Map(),
+      skipped: new Set(),
+      gapTimer: null,
+      utterance: undefined,
+      finished: new Set(),
+      lastActivity: Date.now(),
+      statistics: { delivered: 0, duplicates: 0, reordered: 0, lost: 0, late: 0 }
+    };
+  }
+
+  private finishUtterance(state: SequenceState<T>): void {
+    this.clearTimer(state);
+    state.expected = 0;
+    state.pending.clear();
+    state.skipped.clear();
+    if (state.utterance !== undefined) {
+      state.finished.add(state.utterance);
+      if (state.finished.size > ReorderBuffer.MAX_FINISHED) {
+        state.finished.delete(state.finished.values().next().value as string);
+      }
+      state.utterance = undefined;
+    }
+  }
+
+  private skipGap(sessionId: string, state: SequenceState<T>): T[] {
+    if (state.pending.size === 0) return [];
+
+    const next = Math.min(...Array.from(state.pending.keys()));
+    const lostCount = next - state.expected;
+
+    state.statistics.lost += lostCount;
+    for (let sequence = state.expected; sequence < next; sequence++) {
+      state.skipped.add(sequence);
+    }
+    while (state.skipped.size > ReorderBuffer.MAX_SKIPPED) {
+      state.skipped.delete(state.skipped.values().next().value as number);
+    }
+
+    logger.warn('Chunk gap detected', {
+      sessionId,
+      expected: state.expected,
+      received: next,
+      lostCount
+    });
+    this.emit('gap', sessionId, state.expected, next);
+
+    state.expected = next;
+    const ready = this.drainConsecutive(state, false);
+    this.restartTimer(sessionId, state);
+    return ready;
+  }
+
+  private drainConsecutive(state: SequenceState<T>, gapFilled: boolean): T[] {
+    const ready: T[] = [];
+    let item = state.pending.get(state.expected);
+
+    while (item !== undefined) {
+      state.pending.delete(state.expected);
+      ready.push(item);
+      state.expected++;
+      state.statistics.delivered++;
+      if (gapFilled) state.statistics.reordered++;
+      item = state.pending.get(state.expected);
+    }
+
+    return ready;
+  }
+
+  private startTimer(sessionId: string, state: SequenceState<T>): void {
+    if (state.gapTimer) return;
+
+    state.gapTimer = setTimeout(() => {
+      state.gapTimer = null;
+      const ready = this.skipGap(sessionId, state);
+      if (ready.length > 0) {
+        this.emit('release', sessionId, ready);
+      }
+    }, this.gapTimeoutMs);
+  }
+
+  private restartTimer(sessionId: string, state: SequenceState<T>): void {
+    this.clearTimer(state);
+    if (state.pending.size > 0) {
+      this.startTimer(sessionId, state);
+    }
+  }
+
+  private clearTimer(state: SequenceState<T> | undefined): void {
+    if (state?.gapTimer) {
+      clearTimeout(state.gapTimer);
+      state.gapTimer = null;
+    }
+  }
+}
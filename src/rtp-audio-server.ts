@@ -0,0 +1,617 @@
+import * as crypto from 'crypto';
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import { logger } from './logger';
+import { PacketDecodeError, PacketRejectReason } from './packet-codec';
+import {
+  compactNtp,
+  decodeRtcpPacket,
+  decodeRtpPacket,
+  decodeRtpPayload,
+  encodeReceiverReport,
+  isRtcpPacket,
+  RtcpReportBlock,
+  RtpAudio,
+  RtpPacket,
+  STATIC_PAYLOAD_TYPES
+} from './rtp-codec';
+import { SequenceWindow, serialDistance } from './sequence-window';
+import { formatSource, unmapAddress } from './udp-audio-server';
+import {
+  AudioPacket,
+  NetworkConditions,
+  RtpPayloadMapping,
+  SessionEndReason,
+  SessionStatistics,
+  SessionTimeoutPhase,
+  SyncTimestamps,
+  UdpInactivityConfig,
+  UdpSocketConfig
+} from './types';
+
+interface RtpSession {
+  sessionId: string;
+  remoteAddress: string;      // From clientEndpoint; RTP and RTCP must come from it when it is an IP
+  remotePort: number;
+  ssrc: number | null;        // Bound to the first SSRC seen when SESSION_START named none
+  format: string;             // What the payload type must decode to
+  sampleRate: number;
+  rtcpSource: { address: string; port: number } | null; // Where reports go; the RTP source port + 1 until RTCP arrives
+  rtpSourcePort: number | null;
+  reception: ReceptionState | null;  // Set by the first packet
+  sequences: SequenceWindow;  // Over sequence numbers counted from the first packet
+  lastSenderReport: { ntp: number; receivedAt: number } | null;
+  lastPacketTime: number;
+  statistics: SessionStatistics;
+  networkConditions: NetworkConditions;
+}
+
+// RFC 3550 appendix A bookkeeping. Sequence numbers and timestamps are extended
+// past their 16 and 32 bits so wraps do not look like loss or a jump back.
+interface ReceptionState {
+  clockRate: number;
+  baseSequence: number;
+  highestSequence: number;
+  baseTimestamp: number;
+  highestTimestamp: number;
+  streamStart: number;        // Arrival of the first packet; media offsets count from here
+  received: number;
+  receivedBytes: number;
+  expectedPrior: number;      // At the last report, for the fraction lost
+  receivedPrior: number;
+  transit: number | null;
+  jitter: number;             // Interarrival jitter in timestamp units
+}
+
+export interface RTPAudioServerOptions {
+  bindAddress?: string;           // All IPv4 interfaces when unset; an IPv6 address makes the sockets udp6
+  socket?: Partial<UdpSocketConfig>;
+  payloadTypes?: Record<number, RtpPayloadMapping>; // Dynamic payload types on top of the static ones
+  reportIntervalMs?: number;      // 0 sends no receiver reports
+  cname?: string;                 // Our canonical name in receiver reports
+  inactivity?: UdpInactivityConfig; // End sessions whose sender went silent
+}
+
+/**
+ * Receives plain RTP for sessions negotiated with transport 'rtp', so tools
+ * like ffmpeg and GStreamer can stand in for the voice service. RTCP is read on
+ * the next port up (and on the RTP port when multiplexed); receiver reports go
+ * back to where the sender's RTCP comes from.
+ *
+ * Packets are mapped onto the AudioPacket the UDP server produces: sequence
+ * numbers count from 0 at the session's first packet, timestamp is the arrival
+ * of that first packet and playbackTime adds the packet's RTP timestamp offset,
+ * so the sync manager places each packet by its position in the stream.
+ * Duplicates, and packets too old to tell, are dropped as on the UDP server.
+ *
+ * Emits the UDP server's 'audioPacket', 'sessionEnd' (on RTCP BYE, when closed
+ * or timed out), 'sessionTimeout', 'packetRejected' and 'sourceViolation'
+ * events, plus 'receiverReport' (sessionId, report) for every report block sent.
+ * Inactivity timeouts work as on the UDP server, with 'sessionEnd' reason
+ * 'TIMEOUT'.
+ */
+export class RTPAudioServer extends EventEmitter {
+  private rtpSocket: dgram.Socket;
+  private rtcpSocket: dgram.Socket;
+  private port: number;
+  private bindAddress: string | undefined;
+  private socketType: dgram.SocketType;
+  private payloadTypes = new Map<number, RtpPayloadMapping>();
+  private reportIntervalMs: number;
+  private cname: string;
+  private ssrc = crypto.randomBytes(4).readUInt32BE(0);
+  private sessions = new Map<string, RtpSession>();
+  private sessionsBySsrc = new Map<number, RtpSession>();
+  private rejectedPackets: Partial<Record<PacketRejectReason, number>> = {};
+  private reportTimer: NodeJS.Timeout | null = null;
+  private inactivity: UdpInactivityConfig;
+  private inactivityTimer: NodeJS.Timeout | null = null;
+
+  constructor(port: number = 5004, options: RTPAudioServerOptions = {}) {
+    super();
+    this.port = port;
+    this.bindAddress = options.bindAddress;
+    this.reportIntervalMs = options.reportIntervalMs ?? 5000;
+    this.cname = options.cname ?? 'chip-receiver';
+    this.inactivity = options.inactivity ?? { idleTimeoutMs: 0, firstPacketTimeoutMs: 0 };
+    for (const [payloadType, mapping] of Object.entries({ ...STATIC_PAYLOAD_TYPES, ...options.payloadTypes })) {
+      this.payloadTypes.set(Number(payloadType), mapping);
+    }
+
+    this.socketType = this.bindAddress && net.isIPv6(this.bindAddress) ? 'udp6' : 'udp4';
+    const socketOptions = {
+      type: this.socketType,
+      ipv6Only: options.socket?.ipv6Only ?? false,
+      reuseAddr: options.socket?.reuseAddr ?? false
+    };
+    this.rtpSocket = dgram.createSocket(socketOptions);
+    this.rtcpSocket = dgram.createSocket(socketOptions);
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.rtpSocket.on('message', (msg, rinfo) => {
+      const source = { ...rinfo, address: unmapAddress(rinfo.address) };
+      if (isRtcpPacket(msg)) {
+        this.handleRtcpDatagram(msg, source);
+      } else {
+        this.handleRtpDatagram(msg, source);
+      }
+    });
+
+    this.rtcpSocket.on('message', (msg, rinfo) => {
+      this.handleRtcpDatagram(msg, { ...rinfo, address: unmapAddress(rinfo.address) });
+    });
+
+    for (const socket of [this.rtpSocket, this.rtcpSocket]) {
+      socket.on('error', (err) => {
+        logger.error('RTP server error', { error: err });
+        this.emit('error', err);
+      });
+    }
+  }
+
+  async start(): Promise<void> {
+    await bindSocket(this.rtpSocket, this.port, this.bindAddress);
+    // Port 0 lets the OS pick both, which only tests do
+    await bindSocket(this.rtcpSocket, this.port === 0 ? 0 : this.port + 1, this.bindAddress);
+
+    if (this.reportIntervalMs > 0) {
+      this.reportTimer = setInterval(() => this.sendReports(), this.reportIntervalMs);
+    }
+    logger.info('RTP audio server listening', {
+      address: this.rtpSocket.address().address,
+      rtpPort: this.getPort(),
+      rtcpPort: this.getRtcpPort(),
+      payloadTypes: Array.from(this.payloadTypes.keys())
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this.reportTimer) {
+      clearInterval(this.reportTimer);
+      this.reportTimer = null;
+    }
+    if (this.inactivityTimer) {
+      clearInterval(this.inactivityTimer);
+      this.inactivityTimer = null;
+    }
+    await Promise.all([this.rtpSocket, this.rtcpSocket].map(socket =>
+      new Promise<void>(resolve => socket.close(() => resolve()))
+    ));
+    logger.info('RTP audio server stopped');
+  }
+
+  expectSession(
+    sessionId: string,
+    remoteAddress: string,
+    remotePort: number,
+    options: { format: string; sampleRate: number; ssrc?: number }
+  ): void {
+    const previous = this.sessions.get(sessionId);
+    if (previous?.ssrc != null) {
+      this.sessionsBySsrc.delete(previous.ssrc);
+    }
+
+    const session: RtpSession = {
+      sessionId,
+      remoteAddress,
+      remotePort,
+      ssrc: options.ssrc ?? null,
+      format: options.format,
+      sampleRate: options.sampleRate,
+      rtcpSource: null,
+      rtpSourcePort: null,
+      reception: null,
+      sequences: new SequenceWindow(),
+      lastSenderReport: null,
+      lastPacketTime: Date.now(),
+      statistics: {
+        totalPackets: 0,
+        lostPackets: 0,
+        retransmittedPackets: 0,
+        fecRecoveredPackets: 0,
+        fecUnrecoverablePackets: 0,
+        reorderedPackets: 0,
+        duplicatePackets: 0,
+        stalePackets: 0,
+        incompleteFrames: 0,
+        sourceViolations: 0,
+        avgLatency: 0,
+        jitterMs: 0,
+        audioDuration: 0,
+        startTime: Date.now(),
+        endTime: 0
+      },
+      networkConditions: {
+        avgLatency: 0,
+        jitterMs: 0,
+        packetLoss: 0,
+        bandwidth: 0
+      }
+    };
+
+    this.sessions.set(sessionId, session);
+    if (session.ssrc !== null) {
+      this.sessionsBySsrc.set(session.ssrc, session);
+    }
+    this.ensureInactivityTimer();
+    logger.info('RTP session initialized', {
+      sessionId,
+      remoteAddress,
+      ssrc: session.ssrc ?? 'first seen',
+      format: options.format,
+      sampleRate: options.sampleRate
+    });
+  }
+
+  private handleRtpDatagram(buffer: Buffer, rinfo: dgram.RemoteInfo): void {
+    try {
+      const rtp = decodeRtpPacket(buffer);
+      const receiveTime = Date.now();
+
+      const session = this.sessionsBySsrc.get(rtp.ssrc) ?? this.bindSsrc(rtp.ssrc, rinfo);
+      if (!session) {
+        logger.warn('Received RTP packet for unknown SSRC', { ssrc: rtp.ssrc, source: formatSource(rinfo.address, rinfo.port) });
+        return;
+      }
+
+      if (!this.checkSource(session, rinfo)) {
+        return;
+      }
+
+      const mapping = this.payloadTypes.get(rtp.payloadType);
+      if (!mapping) {
+        throw new PacketDecodeError('unknown_payload_type', `No mapping for RTP payload type ${rtp.payloadType}`);
+      }
+      const audio = decodeRtpPayload(rtp.payload, mapping);
+      if (audio.format !== session.format || audio.sampleRate !== session.sampleRate) {
+        throw new PacketDecodeError(
+          'payload_mismatch',
+          `Payload type ${rtp.payloadType} decodes to ${audio.format}/${audio.sampleRate}, ` +
+          `session ${session.sessionId} expects ${session.format}/${session.sampleRate}`
+        );
+      }
+
+      session.rtpSourcePort = rinfo.port;
+      this.receivePacket(session, rtp, mapping, audio, receiveTime);
+    } catch (error) {
+      if (error instanceof PacketDecodeError) {
+        this.rejectPacket(error, rinfo);
+        return;
+      }
+      logger.error('Failed to process RTP packet', { error, rinfo });
+    }
+  }
+
+  // Sessions that did not name their SSRC take the first one from their sender
+  private bindSsrc(ssrc: number, rinfo: dgram.RemoteInfo): RtpSession | undefined {
+    const session = Array.from(this.sessions.values()).find(candidate =>
+      candidate.ssrc === null &&
+      (net.isIP(candidate.remoteAddress) === 0 || candidate.remoteAddress === rinfo.address)
+    );
+    if (!session) return undefined;
+
+    session.ssrc = ssrc;
+    this.sessionsBySsrc.set(ssrc, session);
+    logger.info('RTP session bound to SSRC', { sessionId: session.sessionId, ssrc, source: formatSource(rinfo.address, rinfo.port) });
+    return session;
+  }
+
+  private checkSource(session: RtpSession, rinfo: dgram.RemoteInfo): boolean {
+    // A host name in clientEndpoint cannot be compared with datagram sources
+    if (net.isIP(session.remoteAddress) === 0 || rinfo.address === session.remoteAddress) {
+      return true;
+    }
+
+    const source = formatSource(rinfo.address, rinfo.port);
+    session.statistics.sourceViolations++;
+    // Logged once per session and then at powers of ten to keep floods out of the logs
+    if (Math.log10(session.statistics.sourceViolations) % 1 === 0) {
+      logger.warn('RTP packet from unexpected source', {
+        sessionId: session.sessionId,
+        source,
+        expected: session.remoteAddress,
+        violations: session.statistics.sourceViolations
+      });
+    }
+    this.emit('sourceViolation', 'address', source, session.sessionId);
+    return false;
+  }
+
+  private receivePacket(
+    session: RtpSession,
+    rtp: RtpPacket,
+    mapping: RtpPayloadMapping,
+    audio: RtpAudio,
+    receiveTime: number
+  ): void {
+    const state = session.reception ?? (session.reception = {
+      clockRate: mapping.clockRate,
+      baseSequence: rtp.sequenceNumber,
+      highestSequence: rtp.sequenceNumber,
+      baseTimestamp: rtp.timestamp,
+      highestTimestamp: rtp.timestamp,
+      streamStart: receiveTime,
+      received: 0,
+      receivedBytes: 0,
+      expectedPrior: 0,
+      receivedPrior: 0,
+      transit: null,
+      jitter: 0
+    });
+
+    // Closest extension to the highest seen, in either direction
+    const sequence = state.highestSequence + serialDistance(state.highestSequence, rtp.sequenceNumber, 16);
+    const timestamp = state.highestTimestamp + serialDistance(state.highestTimestamp, rtp.timestamp);
+    if (sequence < state.baseSequence) {
+      logger.debug('Dropping RTP packet from before the session started', { sessionId: session.sessionId, sequence });
+      return;
+    }
+
+    const { kind } = session.sequences.record(sequence - state.baseSequence);
+    if (kind === 'duplicate' || kind === 'stale') {
+      if (kind === 'stale') {
+        session.statistics.stalePackets++;
+      } else {
+        session.statistics.duplicatePackets++;
+      }
+      logger.debug('Dropping duplicate RTP packet', { sessionId: session.sessionId, sequence, kind });
+      return;
+    }
+    if (kind === 'reordered') {
+      session.statistics.reorderedPackets++;
+    }
+
+    if (sequence > state.highestSequence + 1) {
+      logger.warn('Packet loss detected', {
+        sessionId: session.sessionId,
+        expected: state.highestSequence + 1 - state.baseSequence,
+        received: sequence - state.baseSequence,
+        lostCount: sequence - state.highestSequence - 1
+      });
+    }
+    state.highestSequence = Math.max(state.highestSequence, sequence);
+    state.highestTimestamp = Math.max(state.highestTimestamp, timestamp);
+    state.received++;
+    state.receivedBytes += rtp.payload.length;
+
+    // Interarrival jitter: how much the transit time varies, in timestamp units
+    const transit = (receiveTime - state.streamStart) * state.clockRate / 1000 - (timestamp - state.baseTimestamp);
+    if (state.transit !== null) {
+      state.jitter += (Math.abs(transit - state.transit) - state.jitter) / 16;
+    }
+    state.transit = transit;
+
+    const offsetMs = (timestamp - state.baseTimestamp) * 1000 / state.clockRate;
+    const packet: AudioPacket = {
+      sessionId: session.sessionId,
+      sequenceNumber: sequence - state.baseSequence,
+      timestamp: state.streamStart,
+      playbackTime: state.streamStart + offsetMs,
+      audioData: audio.audioData,
+      format: audio.format,
+      sampleRate: audio.sampleRate,
+      isLast: false
+    };
+    const syncTimestamps: SyncTimestamps = {
+      ttsGenerated: packet.playbackTime, // The sender's clock, anchored at the first arrival
+      packetSent: packet.playbackTime,
+      packetReceived: receiveTime,
+      scheduledPlayback: packet.playbackTime
+    };
+
+    this.updateSessionStatistics(session, state, receiveTime - packet.playbackTime, receiveTime);
+    this.emit('audioPacket', packet, syncTimestamps, session.networkConditions, { recovery: null });
+  }
+
+  private updateSessionStatistics(session: RtpSession, state: ReceptionState, delay: number, receiveTime: number): void {
+    const { statistics, networkConditions } = session;
+    const expected = state.highestSequence - state.baseSequence + 1;
+    statistics.totalPackets = state.received;
+    // Late packets fill their gap again; duplicates do not make loss negative
+    statistics.lostPackets = Math.max(0, expected - state.received);
+
+    // Latency relative to the first packet, the only clock we share with the sender
+    statistics.avgLatency =
+      (statistics.avgLatency * (state.received - 1) + Math.max(0, delay)) / state.received;
+
+    networkConditions.avgLatency = statistics.avgLatency;
+    networkConditions.jitterMs = state.jitter * 1000 / state.clockRate;
+    networkConditions.packetLoss = statistics.lostPackets / expected;
+    const elapsed = (receiveTime - statistics.startTime) / 1000;
+    if (elapsed > 0) {
+      networkConditions.bandwidth = state.receivedBytes / elapsed;
+    }
+    session.lastPacketTime = receiveTime;
+  }
+
+  private handleRtcpDatagram(buffer: Buffer, rinfo: dgram.RemoteInfo): void {
+    try {
+      for (const packet of decodeRtcpPacket(buffer)) {
+        const ssrcs = packet.type === 'bye' ? packet.ssrcs : [packet.ssrc];
+        for (const ssrc of ssrcs) {
+          const session = this.sessionsBySsrc.get(ssrc);
+          if (!session || !this.checkSource(session, rinfo)) continue;
+
+          session.rtcpSource = { address: rinfo.address, port: rinfo.port };
+          if (packet.type === 'sr') {
+            session.lastSenderReport = { ntp: compactNtp(packet.ntpTimestamp), receivedAt: Date.now() };
+          } else if (packet.type === 'bye') {
+            logger.info('RTP sender left the session', { sessionId: session.sessionId, ssrc });
+            this.endSession(session.sessionId);
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof PacketDecodeError) {
+        this.rejectPacket(error, rinfo);
+        return;
+      }
+      logger.error('Failed to process RTCP packet', { error, rinfo });
+    }
+  }
+
+  private rejectPacket(error: PacketDecodeError, rinfo: dgram.RemoteInfo): void {
+    this.rejectedPackets[error.reason] = (this.rejectedPackets[error.reason] || 0) + 1;
+    logger.warn('Rejected RTP packet', {
+      reason: error.reason,
+      error: error.message,
+      from: formatSource(rinfo.address, rinfo.port),
+      size: rinfo.size
+    });
+    this.emit('packetRejected', error.reason, rinfo);
+  }
+
+  /**
+   * Sends a receiver report to every sender heard from so far.
+   */
+  sendReports(): void {
+    for (const session of this.sessions.values()) {
+      const destination = session.rtcpSource ??
+        (session.rtpSourcePort !== null ? { address: session.remoteAddress, port: session.rtpSourcePort + 1 } : null);
+      const report = this.buildReport(session);
+      if (!destination || !report || net.isIP(destination.address) === 0) continue;
+
+      const packet = encodeReceiverReport(this.ssrc, [report], this.cname);
+      this.rtcpSocket.send(packet, destination.port, this.socketAddress(destination.address), (error) => {
+        if (error) {
+          logger.warn('Failed to send RTCP receiver report', { sessionId: session.sessionId, error: error.message });
+        }
+      });
+      this.emit('receiverReport', session.sessionId, report);
+    }
+  }
+
+  private buildReport(session: RtpSession): RtcpReportBlock | null {
+    const state = session.reception;
+    if (!state || session.ssrc === null) return null;
+
+    const expected = state.highestSequence - state.baseSequence + 1;
+    const expectedInterval = expected - state.expectedPrior;
+    const lostInterval = expectedInterval - (state.received - state.receivedPrior);
+    state.expectedPrior = expected;
+    state.receivedPrior = state.received;
+
+    return {
+      ssrc: session.ssrc,
+      fractionLost: expectedInterval > 0 && lostInterval > 0 ? Math.floor((lostInterval * 256) / expectedInterval) : 0,
+      cumulativeLost: expected - state.received,
+      highestSequence: state.highestSequence,
+      jitter: state.jitter,
+      lastSenderReport: session.lastSenderReport?.ntp ?? 0,
+      delaySinceLastSenderReport: session.lastSenderReport
+        ? Math.floor((Date.now() - session.lastSenderReport.receivedAt) * 65536 / 1000)
+        : 0
+    };
+  }
+
+  // A dual-stack socket reaches IPv4 senders through their IPv4-mapped address
+  private socketAddress(address: string): string {
+    return this.socketType === 'udp6' && net.isIPv4(address) ? `::ffff:${address}` : address;
+  }
+
+  private ensureInactivityTimer(): void {
+    const timeouts = [this.inactivity.idleTimeoutMs, this.inactivity.firstPacketTimeoutMs].filter(ms => ms > 0);
+    if (this.inactivityTimer || timeouts.length === 0) return;
+    this.inactivityTimer = setInterval(() => this.sweepInactiveSessions(), Math.max(5, Math.floor(Math.min(...timeouts) / 2)));
+  }
+
+  private sweepInactiveSessions(): void {
+    const now = Date.now();
+    for (const session of Array.from(this.sessions.values())) {
+      // lastPacketTime starts out as the time the session was expected
+      const phase: SessionTimeoutPhase = session.reception === null ? 'first_packet' : 'idle';
+      const timeoutMs = phase === 'first_packet' ? this.inactivity.firstPacketTimeoutMs : this.inactivity.idleTimeoutMs;
+      if (timeoutMs > 0 && now - session.lastPacketTime >= timeoutMs) {
+        logger.warn('RTP session timed out', { sessionId: session.sessionId, phase, silentMs: now - session.lastPacketTime });
+        this.emit('sessionTimeout', session.sessionId, phase);
+        this.endSession(session.sessionId, 'TIMEOUT');
+      }
+    }
+
+    if (this.sessions.size === 0 && this.inactivityTimer) {
+      clearInterval(this.inactivityTimer);
+      this.inactivityTimer = null;
+    }
+  }
+
+  private endSession(sessionId: string, reason: SessionEndReason = 'COMPLETED'): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.statistics.endTime = Date.now();
+    session.statistics.audioDuration = session.statistics.endTime - session.statistics.startTime;
+
+    logger.info('RTP session ended', {
+      sessionId,
+      ssrc: session.ssrc,
+      reason,
+      statistics: session.statistics,
+      networkConditions: session.networkConditions
+    });
+
+    this.emit('sessionEnd', sessionId, session.statistics, reason);
+    this.sessions.delete(sessionId);
+    if (session.ssrc !== null) {
+      this.sessionsBySsrc.delete(session.ssrc);
+    }
+  }
+
+  closeSession(sessionId: string): SessionStatistics | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+
+    this.endSession(sessionId);
+    return { ...session.statistics };
+  }
+
+  getPort(): number {
+    try {
+      return this.rtpSocket.address().port;
+    } catch {
+      return this.port; // Not bound yet
+    }
+  }
+
+  getRtcpPort(): number {
+    try {
+      return this.rtcpSocket.address().port;
+    } catch {
+      return this.port + 1;
+    }
+  }
+
+  getSessionStatistics(sessionId: string): SessionStatistics | null {
+    const session = this.sessions.get(sessionId);
+    return session ? { ...session.statistics } : null;
+  }
+
+  getNetworkConditions(sessionId: string): NetworkConditions | null {
+    const session = this.sessions.get(sessionId);
+    return session ? { ...session.networkConditions } : null;
+  }
+
+  getRejectedPackets(): Partial<Record<PacketRejectReason, number>> {
+    return { ...this.rejectedPackets };
+  }
+
+  getActiveSessions(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  isSessionActive(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+}
+
+function bindSocket(socket: dgram.Socket, port: number, address: string | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(port, address, () => {
+      socket.removeListener('error', reject);
+      resolve();
+    });
+  });
+}
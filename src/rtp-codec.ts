@@ -0,0 +1,288 @@
+import { PacketDecodeError } from './packet-codec';
+import { AudioFormat, RtpPayloadMapping } from './types';
+
+/**
+ * RTP and RTCP (RFC 3550) for the RTP ingest mode, so standard tools such as
+ * ffmpeg and GStreamer can stream to the receiver.
+ *
+ * RTP header (all integers big-endian):
+ *
+ *   offset  size  field
+ *        0     1  version (2), padding, extension, CSRC count
+ *        1     1  marker, payload type
+ *        2     2  sequence number (wraps)
+ *        4     4  timestamp in payload clock units (wraps)
+ *        8     4  SSRC
+ *       12  4*cc  CSRC list, skipped
+ *        +     4  header extension profile and length in words, when flagged; skipped
+ *
+ * With padding flagged, the last payload byte says how many bytes to cut.
+ *
+ * Payload types map to encodings: the static types 0 (PCMU/8000) and 10/11
+ * (L16/44100, stereo and mono) plus configured dynamic types (96-127). PCMU and
+ * L16 are converted to the receiver's PCM, 32-bit float mono with stereo mixed
+ * down; Opus is passed through.
+ *
+ * Only SR, RR and BYE are read from incoming RTCP. Receiver reports go out as
+ * a compound RR + SDES (CNAME) packet.
+ */
+export const RTP_VERSION = 2;
+export const RTP_HEADER_SIZE = 12;
+
+export const RTCP_SR = 200;
+export const RTCP_RR = 201;
+export const RTCP_SDES = 202;
+export const RTCP_BYE = 203;
+
+export const STATIC_PAYLOAD_TYPES: Readonly<Record<number, RtpPayloadMapping>> = {
+  0: { encoding: 'PCMU', clockRate: 8000, channels: 1 },
+  10: { encoding: 'L16', clockRate: 44100, channels: 2 },
+  11: { encoding: 'L16', clockRate: 44100, channels: 1 }
+};
+
+const RTCP_HEADER_SIZE = 4;
+const REPORT_BLOCK_SIZE = 24;
+const SDES_CNAME = 1;
+
+export interface RtpPacket {
+  marker: boolean;
+  payloadType: number;
+  sequenceNumber: number;     // 16 bits
+  timestamp: number;          // 32 bits
+  ssrc: number;
+  payload: Buffer;
+}
+
+export interface RtcpReportBlock {
+  ssrc: number;               // Source this block reports on
+  fractionLost: number;       // Lost since the previous report, in 1/256
+  cumulativeLost: number;
+  highestSequence: number;    // Extended: wrap count in the upper 16 bits
+  jitter: number;             // Interarrival jitter in timestamp units
+  lastSenderReport: number;   // Middle 32 bits of the last SR's NTP timestamp, 0 without one
+  delaySinceLastSenderReport: number; // In 1/65536 s, 0 without an SR
+}
+
+export type RtcpPacket =
+  | { type: 'sr'; ssrc: number; ntpTimestamp: bigint; rtpTimestamp: number; packetCount: number; octetCount: number }
+  | { type: 'rr'; ssrc: number; reports: RtcpReportBlock[] }
+  | { type: 'bye'; ssrcs: number[] };
+
+export interface RtpAudio {
+  audioData: Buffer;
+  format: AudioFormat;
+  sampleRate: number;
+}
+
+export function encodeRtpPacket(packet: RtpPacket): Buffer {
+  const header = Buffer.alloc(RTP_HEADER_SIZE);
+  header.writeUInt8(RTP_VERSION << 6, 0);
+  header.writeUInt8((packet.marker ? 0x80 : 0) | (packet.payloadType & 0x7f), 1);
+  header.writeUInt16BE(packet.sequenceNumber & 0xffff, 2);
+  header.writeUInt32BE(packet.timestamp >>> 0, 4);
+  header.writeUInt32BE(packet.ssrc >>> 0, 8);
+  return Buffer.concat([header, packet.payload]);
+}
+
+export function decodeRtpPacket(buffer: Buffer): RtpPacket {
+  if (buffer.length < RTP_HEADER_SIZE) {
+    throw new PacketDecodeError('too_short', `RTP datagram of ${buffer.length} bytes is shorter than its header`);
+  }
+
+  const first = buffer.readUInt8(0);
+  const version = first >> 6;
+  if (version !== RTP_VERSION) {
+    throw new PacketDecodeError('unsupported_version', `Unsupported RTP version ${version}`);
+  }
+
+  let offset = RTP_HEADER_SIZE + (first & 0x0f) * 4;
+  if (first & 0x10) {
+    if (buffer.length < offset + 4) {
+      throw new PacketDecodeError('truncated', 'RTP header extension runs past the datagram');
+    }
+    offset += 4 + buffer.readUInt16BE(offset + 2) * 4;
+  }
+
+  let end = buffer.length;
+  if (first & 0x20 && end > offset) {
+    end -= buffer.readUInt8(end - 1);
+  }
+  if (end < offset) {
+    throw new PacketDecodeError('truncated', `RTP datagram of ${buffer.length} bytes is shorter than its header and padding`);
+  }
+
+  const second = buffer.readUInt8(1);
+  return {
+    marker: (second & 0x80) !== 0,
+    payloadType: second & 0x7f,
+    sequenceNumber: buffer.readUInt16BE(2),
+    timestamp: buffer.readUInt32BE(4),
+    ssrc: buffer.readUInt32BE(8),
+    payload: buffer.subarray(offset, end)
+  };
+}
+
+/**
+ * True for RTCP sent to the RTP port (RFC 5761 multiplexing): its packet type
+ * takes the place of marker and payload type.
+ */
+export function isRtcpPacket(buffer: Buffer): boolean {
+  if (buffer.length < RTCP_HEADER_SIZE) return false;
+  const packetType = buffer.readUInt8(1);
+  return packetType >= 192 && packetType <= 223;
+}
+
+/**
+ * Converts an RTP payload to what the audio processor plays.
+ */
+export function decodeRtpPayload(payload: Buffer, mapping: RtpPayloadMapping): RtpAudio {
+  switch (mapping.encoding) {
+    case 'opus':
+      return { audioData: payload, format: AudioFormat.OPUS, sampleRate: mapping.clockRate };
+    case 'PCMU':
+      return { audioData: mixDown(payload, 1, mapping.channels, ulawSample), format: AudioFormat.PCM, sampleRate: mapping.clockRate };
+    case 'L16':
+      return {
+        audioData: mixDown(payload, 2, mapping.channels, (data, offset) => data.readInt16BE(offset) / 32768),
+        format: AudioFormat.PCM,
+        sampleRate: mapping.clockRate
+      };
+  }
+}
+
+function mixDown(
+  payload: Buffer,
+  bytesPerSample: number,
+  channels: number,
+  readSample: (data: Buffer, offset: number) => number
+): Buffer {
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(payload.length / frameSize);
+  const output = Buffer.alloc(frames * 4);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(payload, frame * frameSize + channel * bytesPerSample);
+    }
+    output.writeFloatLE(sum / channels, frame * 4);
+  }
+  return output;
+}
+
+// G.711 mu-law expansion to [-1, 1)
+function ulawSample(data: Buffer, offset: number): number {
+  const value = ~data[offset] & 0xff;
+  const exponent = (value >> 4) & 0x07;
+  const magnitude = ((((value & 0x0f) << 3) + 0x84) << exponent) - 0x84;
+  return (value & 0x80 ? -magnitude : magnitude) / 32768;
+}
+
+/**
+ * Reads the SR, RR and BYE packets of a compound RTCP packet; other packet
+ * types are skipped.
+ */
+export function decodeRtcpPacket(buffer: Buffer): RtcpPacket[] {
+  const packets: RtcpPacket[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    if (buffer.length < offset + RTCP_HEADER_SIZE) {
+      throw new PacketDecodeError('too_short', 'RTCP packet shorter than its header');
+    }
+
+    const first = buffer.readUInt8(offset);
+    if (first >> 6 !== RTP_VERSION) {
+      throw new PacketDecodeError('unsupported_version', `Unsupported RTCP version ${first >> 6}`);
+    }
+    const count = first & 0x1f;
+    const packetType = buffer.readUInt8(offset + 1);
+    const end = offset + (buffer.readUInt16BE(offset + 2) + 1) * 4;
+    if (end > buffer.length) {
+      throw new PacketDecodeError('truncated', `RTCP packet type ${packetType} runs past the datagram`);
+    }
+
+    const body = buffer.subarray(offset + RTCP_HEADER_SIZE, end);
+    if (packetType === RTCP_SR && body.length >= 24) {
+      packets.push({
+        type: 'sr',
+        ssrc: body.readUInt32BE(0),
+        ntpTimestamp: body.readBigUInt64BE(4),
+        rtpTimestamp: body.readUInt32BE(12),
+        packetCount: body.readUInt32BE(16),
+        octetCount: body.readUInt32BE(20)
+      });
+    } else if (packetType === RTCP_RR && body.length >= 4 + count * REPORT_BLOCK_SIZE) {
+      packets.push({ type: 'rr', ssrc: body.readUInt32BE(0), reports: readReportBlocks(body.subarray(4), count) });
+    } else if (packetType === RTCP_BYE && body.length >= count * 4) {
+      packets.push({ type: 'bye', ssrcs: Array.from({ length: count }, (_, i) => body.readUInt32BE(i * 4)) });
+    }
+    offset = end;
+  }
+  return packets;
+}
+
+function readReportBlocks(data: Buffer, count: number): RtcpReportBlock[] {
+  return Array.from({ length: count }, (_, i) => {
+    const offset = i * REPORT_BLOCK_SIZE;
+    return {
+      ssrc: data.readUInt32BE(offset),
+      fractionLost: data.readUInt8(offset + 4),
+      cumulativeLost: data.readIntBE(offset + 5, 3),
+      highestSequence: data.readUInt32BE(offset + 8),
+      jitter: data.readUInt32BE(offset + 12),
+      lastSenderReport: data.readUInt32BE(offset + 16),
+      delaySinceLastSenderReport: data.readUInt32BE(offset + 20)
+    };
+  });
+}
+
+/**
+ * Builds a compound receiver report: RR with up to 31 report blocks followed
+ * by SDES carrying our CNAME, as RFC 3550 requires.
+ */
+export function encodeReceiverReport(ssrc: number, reports: RtcpReportBlock[], cname: string): Buffer {
+  if (reports.length > 31) {
+    throw new Error(`A receiver report holds at most 31 report blocks, got ${reports.length}`);
+  }
+
+  const rr = Buffer.alloc(RTCP_HEADER_SIZE + 4 + reports.length * REPORT_BLOCK_SIZE);
+  writeRtcpHeader(rr, reports.length, RTCP_RR);
+  rr.writeUInt32BE(ssrc >>> 0, 4);
+  reports.forEach((report, i) => {
+    const offset = 8 + i * REPORT_BLOCK_SIZE;
+    // Cumulative loss is a signed 24-bit field; duplicates can make it negative
+    const cumulativeLost = Math.max(-0x800000, Math.min(0x7fffff, report.cumulativeLost));
+    rr.writeUInt32BE(report.ssrc >>> 0, offset);
+    rr.writeUInt8(Math.max(0, Math.min(255, report.fractionLost)), offset + 4);
+    rr.writeIntBE(cumulativeLost, offset + 5, 3);
+    rr.writeUInt32BE(report.highestSequence >>> 0, offset + 8);
+    rr.writeUInt32BE(Math.round(report.jitter) >>> 0, offset + 12);
+    rr.writeUInt32BE(report.lastSenderReport >>> 0, offset + 16);
+    rr.writeUInt32BE(report.delaySinceLastSenderReport >>> 0, offset + 20);
+  });
+
+  // One chunk: SSRC, the CNAME item, then at least one zero byte ending the item
+  // list and padding to a 32-bit boundary
+  const name = Buffer.from(cname, 'utf8').subarray(0, 255);
+  const chunkLength = Math.ceil((4 + 2 + name.length + 1) / 4) * 4;
+  const sdes = Buffer.alloc(RTCP_HEADER_SIZE + chunkLength);
+  writeRtcpHeader(sdes, 1, RTCP_SDES);
+  sdes.writeUInt32BE(ssrc >>> 0, 4);
+  sdes.writeUInt8(SDES_CNAME, 8);
+  sdes.writeUInt8(name.length, 9);
+  name.copy(sdes, 10);
+
+  return Buffer.concat([rr, sdes]);
+}
+
+function writeRtcpHeader(packet: Buffer, count: number, packetType: number): void {
+  packet.writeUInt8((RTP_VERSION << 6) | count, 0);
+  packet.writeUInt8(packetType, 1);
+  packet.writeUInt16BE(packet.length / 4 - 1, 2);
+}
+
+/**
+ * The middle 32 bits of an NTP timestamp, as echoed in report blocks.
+ */
+export function compactNtp(ntpTimestamp: bigint): number {
+  return Number((ntpTimestamp >> 16n) & 0xffffffffn);
+}
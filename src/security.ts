@@ -5,6 +5,8 @@ export class SecurityValidator {
   private static readonly MAX_AUDIO_CHUNK_SIZE = 10 * 1024 * 1024; // 10MB per chunk
   private static readonly MAX_SESSION_ID_LENGTH = 128;
   private static readonly VALID_AUDIO_FORMATS = Object.values(AudioFormat);
+  // Session keys in SESSION_START (authKey, encryption.key) and SESSION_REKEY (key)
+  private static readonly SECRET_FIELD_PATTERN = /"(authKey|key)"(\s*):(\s*)"(?:[^"\\]|\\.)*"/g;
 
   static validateAudioData(data: AudioData): boolean {
     try {
@@ -57,6 +59,14 @@ export class SecurityValidator {
     return /^[a-zA-Z0-9-_]+$/.test(sessionId);
   }
 
+  /**
+   * Blanks out session keys in a raw message before it is logged or
+   * dead-lettered. Works on text, so it also covers messages that are not valid JSON.
+   */
+  static redactSecrets(message: string): string {
+    return message.replace(this.SECRET_FIELD_PATTERN, '"$1"$2:$3"[REDACTED]"');
+  }
+
   static sanitizeFilePath(filename: string): string {
     // Handle both Unix and Windows path separators by extracting the basename
     // Split on both / and \ to handle cross-platform paths
@@ -0,0 +1,81 @@
+// in_order: the next sequence; gap: ahead of it, skipping some; reordered: fills
+// an earlier gap; duplicate: already seen; stale: too far back to tell
+export type SequenceArrivalKind = 'in_order' | 'gap' | 'reordered' | 'duplicate' | 'stale';
+
+export interface SequenceArrival {
+  kind: SequenceArrivalKind;
+  skipped: number;            // Sequences jumped over and now missing; 0 unless kind is 'gap'
+}
+
+const SEQUENCE_RANGE = 2 ** 32;
+
+/**
+ * Signed distance from one sequence number to another in serial-number
+ * arithmetic (RFC 1982): positive when `to` comes after `from`, across the wrap.
+ * Counters are 32 bits wide unless given otherwise, e.g. 16 for RTP sequences.
+ */
+export function serialDistance(from: number, to: number, bits: 16 | 32 = 32): number {
+  const range = bits === 32 ? SEQUENCE_RANGE : 2 ** bits;
+  const forward = (((to - from) % range) + range) % range;
+  return forward < range / 2 ? forward : forward - range;
+}
+
+/**
+ * Tells how each 32-bit sequence number of a session relates to the ones seen
+ * before it, with a window of the most recent sequences to catch duplicates.
+ *
+ * Sequences are expected from 0. Anything further back than the window, or
+ * from before the session's first sequence, cannot be told apart from a
+ * duplicate and is reported as 'stale'.
+ */
+export class SequenceWindow {
+  static readonly DEFAULT_SIZE = 1024;
+
+  private size: number;
+  private seen: Uint8Array;
+  private next = 0;           // Sequence after the highest seen
+  private tracked = 0;        // Sequences from 0 to next, seen or missing; capped at the window
+
+  // A power of two, so sequences keep their slots across the wrap
+  constructor(size: number = SequenceWindow.DEFAULT_SIZE) {
+    this.size = size;
+    this.seen = new Uint8Array(size);
+  }
+
+  classify(sequence: number): SequenceArrival {
+    const distance = serialDistance(this.next, sequence);
+    if (distance >= 0) {
+      return { kind: distance === 0 ? 'in_order' : 'gap', skipped: distance };
+    }
+    if (-distance > this.tracked) {
+      return { kind: 'stale', skipped: 0 };
+    }
+    return { kind: this.seen[sequence % this.size] ? 'duplicate' : 'reordered', skipped: 0 };
+  }
+
+  /**
+   * Classifies the sequence and marks it as seen.
+   */
+  record(sequence: number): SequenceArrival {
+    const arrival = this.classify(sequence);
+    if (arrival.kind === 'in_order' || arrival.kind === 'gap') {
+      // Slots of skipped sequences still hold marks from a lap ago
+      for (let i = 0; i < Math.min(arrival.skipped, this.size); i++) {
+        this.seen[(this.next + i) % SEQUENCE_RANGE % this.size] = 0;
+      }
+      this.seen[sequence % this.size] = 1;
+      this.next = (sequence + 1) % SEQUENCE_RANGE;
+      this.tracked = Math.min(this.size, this.tracked + arrival.skipped + 1);
+    } else if (arrival.kind === 'reordered') {
+      this.seen[sequence % this.size] = 1;
+    }
+    return arrival;
+  }
+
+  /**
+   * The sequence after the highest seen, i.e. the next one expected.
+   */
+  getNext(): number {
+    return this.next;
+  }
+}
@@ -0,0 +1,157 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+import { SessionLifecycle, SessionTransition, StatusMessage, StatusValue } from './types';
+
+// Allowed next states; repeating the current state only updates progress
+const TRANSITIONS: Record<StatusValue, StatusValue[]> = {
+  [StatusValue.QUEUED]: [StatusValue.PROCESSING, StatusValue.CANCELLED],
+  [StatusValue.PROCESSING]: [StatusValue.STREAMING, StatusValue.COMPLETED, StatusValue.CANCELLED],
+  [StatusValue.STREAMING]: [StatusValue.COMPLETED, StatusValue.CANCELLED],
+  // A finished session may be reused for the next utterance
+  [StatusValue.COMPLETED]: [StatusValue.QUEUED],
+  [StatusValue.CANCELLED]: [StatusValue.QUEUED]
+};
+
+const TERMINAL_STATES = new Set<StatusValue>([StatusValue.COMPLETED, StatusValue.CANCELLED]);
+
+/**
+ * Tracks each session through QUEUED -> PROCESSING -> STREAMING -> COMPLETED/CANCELLED
+ * from the voice service's STATUS messages.
+ *
+ * Emits 'stateChange' (sessionId, state, previous, lifecycle) for accepted transitions
+ * and 'illegalTransition' (sessionId, from, to) for rejected ones.
+ */
+export class SessionLifecycleTracker extends EventEmitter {
+  private static readonly MAX_FINISHED_SESSIONS = 100;
+
+  private sessions = new Map<string, SessionLifecycle>();
+  private illegalTransitions = 0;
+
+  apply(message: StatusMessage): boolean {
+    const { sessionId, data } = message;
+    const state = data.status as StatusValue;
+
+    if (!Object.values(StatusValue).includes(state)) {
+      logger.warn('Unknown session status', { sessionId, status: data.status });
+      this.rejectTransition(sessionId, this.getState(sessionId), data.status);
+      return false;
+    }
+
+    const now = Date.now();
+    const lifecycle = this.sessions.get(sessionId);
+
+    if (!lifecycle) {
+      // Sessions can be joined mid-flight, e.g. after a restart
+      this.sessions.set(sessionId, {
+        sessionId,
+        state,
+        progress: data.progress?.percentage ?? null,
+        message: data.message ?? null,
+        createdAt: now,
+        updatedAt: now,
+        transitions: [this.createTransition(message, now)]
+      });
+      this.evictFinished();
+      this.emit('stateChange', sessionId, state, null, this.getSession(sessionId));
+      return true;
+    }
+
+    if (lifecycle.state === state) {
+      lifecycle.progress = data.progress?.percentage ?? lifecycle.progress;
+      lifecycle.message = data.message ?? lifecycle.message;
+      lifecycle.updatedAt = now;
+      return true;
+    }
+
+    if (!TRANSITIONS[lifecycle.state].includes(state)) {
+      this.rejectTransition(sessionId, lifecycle.state, state);
+      return false;
+    }
+
+    const previous = lifecycle.state;
+    if (TERMINAL_STATES.has(previous)) {
+      // Next utterance on the same session starts a fresh history
+      lifecycle.transitions = [];
+      lifecycle.createdAt = now;
+      lifecycle.progress = null;
+    }
+
+    lifecycle.state = state;
+    lifecycle.progress = data.progress?.percentage ?? (state === StatusValue.COMPLETED ? 100 : lifecycle.progress);
+    lifecycle.message = data.message ?? null;
+    lifecycle.updatedAt = now;
+    lifecycle.transitions.push(this.createTransition(message, now));
+
+    // Keep finished sessions last so the oldest are evicted first
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, lifecycle);
+    this.evictFinished();
+
+    this.emit('stateChange', sessionId, state, previous, this.getSession(sessionId));
+    return true;
+  }
+
+  getState(sessionId: string): StatusValue | null {
+    return this.sessions.get(sessionId)?.state ?? null;
+  }
+
+  isCancelled(sessionId: string): boolean {
+    return this.getState(sessionId) === StatusValue.CANCELLED;
+  }
+
+  getSession(sessionId: string): SessionLifecycle | null {
+    const lifecycle = this.sessions.get(sessionId);
+    return lifecycle ? { ...lifecycle, transitions: [...lifecycle.transitions] } : null;
+  }
+
+  getSummary(): { sessions: Record<string, number>; illegalTransitions: number } {
+    const sessions: Record<string, number> = {};
+    this.sessions.forEach(lifecycle => {
+      sessions[lifecycle.state] = (sessions[lifecycle.state] || 0) + 1;
+    });
+    return { sessions, illegalTransitions: this.illegalTransitions };
+  }
+
+  cleanup(maxIdleMs: number): number {
+    // Sessions whose final status never arrived
+    const cutoff = Date.now() - maxIdleMs;
+    let removed = 0;
+    for (const [sessionId, lifecycle] of this.sessions) {
+      if (lifecycle.updatedAt < cutoff) {
+        this.sessions.delete(sessionId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private createTransition(message: StatusMessage, receivedAt: number): SessionTransition {
+    return {
+      state: message.data.status as StatusValue,
+      at: receivedAt,
+      messageTimestamp: message.timestamp,
+      progress: message.data.progress?.percentage ?? null
+    };
+  }
+
+  private rejectTransition(sessionId: string, from: StatusValue | null, to: string): void {
+    this.illegalTransitions++;
+    logger.warn('Illegal session status transition', { sessionId, from, to });
+    this.emit('illegalTransition', sessionId, from, to);
+  }
+
+  private evictFinished(): void {
+    let finished = 0;
+    this.sessions.forEach(lifecycle => {
+      if (TERMINAL_STATES.has(lifecycle.state)) finished++;
+    });
+
+    for (const [sessionId, lifecycle] of this.sessions) {
+      if (finished <= SessionLifecycleTracker.MAX_FINISHED_SESSIONS) break;
+      if (TERMINAL_STATES.has(lifecycle.state)) {
+        this.sessions.delete(sessionId);
+        finished--;
+      }
+    }
+  }
+}
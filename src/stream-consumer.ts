@@ -0,0 +1,181 @@
+import { EventEmitter } from 'events';
+import { RedisConnection } from './redis-connection';
+import { logger } from './logger';
+import { IngestionConfig } from './types';
+
+// Handles one entry to the end, dead-lettering it on failure; the entry is
+// acknowledged once it resolves, so it must not reject
+export type StreamEntryHandler = (message: string, replayed: boolean) => Promise<void>;
+
+interface StreamEntry {
+  id: string;
+  message: Record<string, string>;
+}
+
+/**
+ * Consumes voice responses from a Redis Stream through a consumer group.
+ *
+ * Entries are acknowledged only after the handler finished with them, so chunks
+ * published while the receiver was down, or delivered but never acknowledged
+ * before a crash, are replayed instead of lost. Entries the handler fails on are
+ * dead-lettered by it and then acknowledged like any other, not retried.
+ */
+export class RedisStreamConsumer extends EventEmitter {
+  static readonly MESSAGE_FIELD = 'message';
+
+  private client: RedisConnection;
+  private options: IngestionConfig;
+  private handler: StreamEntryHandler;
+  private running = false;
+  private pollLoop: Promise<void> | null = null;
+  private claimTimer: NodeJS.Timeout | null = null;
+
+  constructor(client: RedisConnection, options: IngestionConfig, handler: StreamEntryHandler) {
+    super();
+    this.client = client;
+    this.options = options;
+    this.handler = handler;
+  }
+
+  async start(): Promise<void> {
+    await this.ensureGroup();
+
+    this.running = true;
+
+    // Entries delivered to this consumer before a restart come first
+    await this.replayOwnPending();
+    await this.reclaimIdle();
+
+    this.claimTimer = setInterval(() => {
+      this.reclaimIdle().catch((error) => {
+        logger.error('Failed to reclaim idle stream entries', { error });
+      });
+    }, this.options.claimIdleMs);
+
+    this.pollLoop = this.poll();
+
+    logger.info('Stream consumer started', {
+      stream: this.options.streamKey,
+      group: this.options.consumerGroup,
+      consumer: this.options.consumerName
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.claimTimer) {
+      clearInterval(this.claimTimer);
+      this.claimTimer = null;
+    }
+
+    if (this.pollLoop) {
+      await this.pollLoop;
+      this.pollLoop = null;
+    }
+
+    logger.info('Stream consumer stopped', { stream: this.options.streamKey });
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  private async ensureGroup(): Promise<void> {
+    try {
+      await this.client.xGroupCreate(this.options.streamKey, this.options.consumerGroup, '0', {
+        MKSTREAM: true
+      });
+      logger.info('Created stream consumer group', {
+        stream: this.options.streamKey,
+        group: this.options.consumerGroup
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('BUSYGROUP')) {
+        return; // Group already exists
+      }
+      throw error;
+    }
+  }
+
+  private async replayOwnPending(): Promise<void> {
+    let lastId = '0';
+
+    while (this.running) {
+      const reply = await this.client.xReadGroup(
+        this.options.consumerGroup,
+        this.options.consumerName,
+        { key: this.options.streamKey, id: lastId },
+        { COUNT: this.options.batchSize }
+      );
+
+      const entries = reply?.[0]?.messages ?? [];
+      if (entries.length === 0) break;
+
+      logger.info('Replaying unacknowledged stream entries', { count: entries.length });
+      for (const entry of entries) {
+        await this.processEntry(entry, true);
+        lastId = entry.id;
+      }
+    }
+  }
+
+  private async reclaimIdle(): Promise<void> {
+    let cursor = '0-0';
+
+    do {
+      const reply = await this.client.xAutoClaim(
+        this.options.streamKey,
+        this.options.consumerGroup,
+        this.options.consumerName,
+        this.options.claimIdleMs,
+        cursor,
+        { COUNT: this.options.batchSize }
+      );
+
+      const entries = reply.messages.filter((entry): entry is StreamEntry => entry !== null);
+      if (entries.length > 0) {
+        logger.warn('Reclaimed idle stream entries', { count: entries.length });
+      }
+      for (const entry of entries) {
+        await this.processEntry(entry, true);
+      }
+
+      cursor = String(reply.nextId);
+    } while (this.running && cursor !== '0-0');
+  }
+
+  private async poll(): Promise<void> {
+    while (this.running) {
+      try {
+        const reply = await this.client.xReadGroup(
+          this.options.consumerGroup,
+          this.options.consumerName,
+          { key: this.options.streamKey, id: '>' },
+          { COUNT: this.options.batchSize, BLOCK: this.options.blockMs }
+        );
+
+        for (const entry of reply?.[0]?.messages ?? []) {
+          await this.processEntry(entry, false);
+        }
+      } catch (error) {
+        if (!this.running) break;
+        logger.error('Failed to read from stream', { error, stream: this.options.streamKey });
+        this.emit('error', error);
+        await new Promise(resolve => setTimeout(resolve, this.options.blockMs));
+      }
+    }
+  }
+
+  private async processEntry(entry: StreamEntry, replayed: boolean): Promise<void> {
+    const payload = entry.message[RedisStreamConsumer.MESSAGE_FIELD];
+
+    if (payload === undefined) {
+      logger.warn('Stream entry without message field', { id: entry.id });
+    } else {
+      await this.handler(payload, replayed);
+    }
+
+    await this.client.xAck(this.options.streamKey, this.options.consumerGroup, entry.id);
+  }
+}
@@ -0,0 +1,148 @@
+import { logger } from './logger';
+import { InterruptedStreamPolicy } from './types';
+
+export type ReconcileOutcome = 'finalized' | 'waiting' | 'resumed' | 'expired' | 'interrupted';
+
+export interface ReconciledStream {
+  sessionId: string;
+  outcome: ReconcileOutcome;
+  updatedAt: number;
+}
+
+export interface ReconcilerStatus {
+  policy: InterruptedStreamPolicy;
+  graceMs: number;
+  reconnects: number;
+  lastReconnectAt: number | null;
+  streams: ReconciledStream[];
+}
+
+/**
+ * Decides what happens to audio streams that were mid-flight when the Redis
+ * connection dropped, once the receiver has reconnected.
+ */
+export class StreamReconciler {
+  private static readonly MAX_HISTORY = 50;
+
+  private readonly policy: InterruptedStreamPolicy;
+  private readonly graceMs: number;
+  private readonly finalizeStream: (sessionId: string) => Promise<void>;
+  private graceTimers = new Map<string, NodeJS.Timeout>();
+  private interrupted = new Set<string>();
+  private history = new Map<string, ReconciledStream>();
+  private reconnects = 0;
+  private lastReconnectAt: number | null = null;
+
+  constructor(
+    policy: InterruptedStreamPolicy,
+    graceMs: number,
+    finalizeStream: (sessionId: string) => Promise<void>
+  ) {
+    this.policy = policy;
+    this.graceMs = graceMs;
+    this.finalizeStream = finalizeStream;
+  }
+
+  async reconcile(sessionIds: string[]): Promise<void> {
+    this.reconnects++;
+    this.lastReconnectAt = Date.now();
+
+    if (sessionIds.length > 0) {
+      logger.info('Reconciling streams interrupted by Redis reconnect', {
+        policy: this.policy,
+        streams: sessionIds.length
+      });
+    }
+
+    for (const sessionId of sessionIds) {
+      switch (this.policy) {
+        case 'finalize':
+          await this.finalizeStream(sessionId);
+          this.record(sessionId, 'finalized');
+          break;
+        case 'wait':
+          this.startGracePeriod(sessionId);
+          break;
+        case 'interrupt':
+          await this.finalizeStream(sessionId);
+          this.interrupted.add(sessionId);
+          this.record(sessionId, 'interrupted');
+          break;
+      }
+    }
+  }
+
+  noteActivity(sessionId: string): void {
+    const timer = this.graceTimers.get(sessionId);
+    if (!timer) return;
+
+    clearTimeout(timer);
+    this.graceTimers.delete(sessionId);
+    this.record(sessionId, 'resumed');
+    logger.info('Interrupted stream resumed after reconnect', { sessionId });
+  }
+
+  isInterrupted(sessionId: string): boolean {
+    return this.interrupted.has(sessionId);
+  }
+
+  forget(sessionId: string): void {
+    // A new first chunk starts a fresh stream for this session
+    this.interrupted.delete(sessionId);
+    const timer = this.graceTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.graceTimers.delete(sessionId);
+    }
+  }
+
+  getStatus(): ReconcilerStatus {
+    return {
+      policy: this.policy,
+      graceMs: this.graceMs,
+      reconnects: this.reconnects,
+      lastReconnectAt: this.lastReconnectAt,
+      streams: Array.from(this.history.values())
+    };
+  }
+
+  stop(): void {
+    this.graceTimers.forEach(timer => clearTimeout(timer));
+    this.graceTimers.clear();
+  }
+
+  private startGracePeriod(sessionId: string): void {
+    if (this.graceTimers.has(sessionId)) return;
+
+    this.record(sessionId, 'waiting');
+    const timer = setTimeout(async () => {
+      this.graceTimers.delete(sessionId);
+      logger.warn('Interrupted stream did not resume within grace period', {
+        sessionId,
+        graceMs: this.graceMs
+      });
+      try {
+        await this.finalizeStream(sessionId);
+      } catch (error) {
+        logger.error('Failed to finalize expired stream', { error, sessionId });
+      }
+      this.record(sessionId, 'expired');
+    }, this.graceMs);
+
+    this.graceTimers.set(sessionId, timer);
+  }
+
+  private record(sessionId: string, outcome: ReconcileOutcome): void {
+    // Re-insert so the most recent outcomes are last
+    this.history.delete(sessionId);
+    this.history.set(sessionId, { sessionId, outcome, updatedAt: Date.now() });
+
+    if (this.history.size > StreamReconciler.MAX_HISTORY) {
+      const oldest = this.history.keys().next().value;
+      if (oldest !== undefined) {
+        this.history.delete(oldest);
+        this.interrupted.delete(oldest);
+      }
+    }
+  }
+}
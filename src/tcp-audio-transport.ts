@@ -0,0 +1,155 @@
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import { logger } from './logger';
+import { PacketDecodeError } from './packet-codec';
+
+/**
+ * Stream framing for venues that block inbound UDP: each frame is a 4-byte
+ * big-endian length followed by one datagram in the UDP wire format
+ * (packet-codec.ts), tags and encryption included. Fragmenting, NACKs and FEC
+ * are pointless over a reliable stream and are not used.
+ */
+export const FRAME_HEADER_SIZE = 4;
+
+export function encodeFrame(datagram: Buffer): Buffer {
+  const header = Buffer.alloc(FRAME_HEADER_SIZE);
+  header.writeUInt32BE(datagram.length, 0);
+  return Buffer.concat([header, datagram]);
+}
+
+export interface TCPAudioTransportOptions {
+  bindAddress?: string;
+  maxFrameBytes?: number;     // Connections announcing a larger frame are closed
+  maxConnections?: number;    // Further connections are refused while this many are open
+  idleTimeoutMs?: number;     // Connections that send nothing for this long are closed; 0 never
+}
+
+/**
+ * Accepts sender connections and splits their byte streams into frames.
+ *
+ * Emits 'frame' (datagram, source) with the source shaped like a dgram
+ * RemoteInfo, 'frameRejected' (error, source) before closing a connection whose
+ * framing cannot be trusted any more, and 'connections' (count) whenever a
+ * connection opens or closes. Connections over `maxConnections` are closed
+ * right away, and idle ones after `idleTimeoutMs`.
+ */
+export class TCPAudioTransport extends EventEmitter {
+  private server: net.Server;
+  private port: number;
+  private bindAddress: string | undefined;
+  private maxFrameBytes: number;
+  private maxConnections: number;
+  private idleTimeoutMs: number;
+  private connections = new Set<net.Socket>();
+
+  constructor(port: number, options: TCPAudioTransportOptions = {}) {
+    super();
+    this.port = port;
+    this.bindAddress = options.bindAddress;
+    this.maxFrameBytes = options.maxFrameBytes ?? 1024 * 1024;
+    this.maxConnections = options.maxConnections ?? 64;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 30000;
+    this.server = net.createServer(socket => this.handleConnection(socket));
+    this.server.on('error', (err) => {
+      logger.error('TCP audio transport error', { error: err });
+      this.emit('error', err);
+    });
+  }
+
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, this.bindAddress, () => {
+        this.server.removeListener('error', reject);
+        logger.info('TCP audio transport listening', { port: this.getPort() });
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.connections) {
+      socket.destroy();
+    }
+    return new Promise((resolve) => {
+      this.server.close(() => {
+        logger.info('TCP audio transport stopped');
+        resolve();
+      });
+    });
+  }
+
+  getPort(): number {
+    const address = this.server.address();
+    return address && typeof address === 'object' ? address.port : this.port;
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const source: dgram.RemoteInfo = {
+      address: socket.remoteAddress ?? '',
+      family: socket.remoteFamily === 'IPv6' ? 'IPv6' : 'IPv4',
+      port: socket.remotePort ?? 0,
+      size: 0
+    };
+    if (this.connections.size >= this.maxConnections) {
+      logger.warn('Refusing TCP audio connection over the limit', {
+        address: source.address,
+        port: source.port,
+        maxConnections: this.maxConnections
+      });
+      socket.destroy();
+      return;
+    }
+
+    // Frames are small and latency-bound; don't let Nagle hold them back
+    socket.setNoDelay(true);
+    this.connections.add(socket);
+    this.emit('connections', this.connections.size);
+    logger.info('TCP audio connection opened', { address: source.address, port: source.port });
+
+    if (this.idleTimeoutMs > 0) {
+      socket.setTimeout(this.idleTimeoutMs);
+      socket.on('timeout', () => {
+        logger.warn('Closing idle TCP audio connection', { address: source.address, port: source.port });
+        socket.destroy();
+      });
+    }
+
+    let pending = Buffer.alloc(0);
+    socket.on('data', (data: Buffer) => {
+      pending = pending.length ? Buffer.concat([pending, data]) : data;
+      while (pending.length >= FRAME_HEADER_SIZE) {
+        const length = pending.readUInt32BE(0);
+        if (length === 0 || length > this.maxFrameBytes) {
+          this.emit('frameRejected', length === 0
+            ? new PacketDecodeError('empty_frame', 'Frame of 0 bytes')
+            : new PacketDecodeError('frame_too_large', `Frame of ${length} bytes is over ${this.maxFrameBytes}`),
+          source);
+          socket.destroy();
+          return;
+        }
+        if (pending.length < FRAME_HEADER_SIZE + length) break;
+
+        const datagram = pending.subarray(FRAME_HEADER_SIZE, FRAME_HEADER_SIZE + length);
+        pending = pending.subarray(FRAME_HEADER_SIZE + length);
+        this.emit('frame', datagram, { ...source, size: length });
+      }
+    });
+
+    socket.on('error', (error) => {
+      logger.warn('TCP audio connection error', { address: source.address, port: source.port, error: error.message });
+    });
+
+    socket.on('close', () => {
+      pending = Buffer.alloc(0);
+      this.connections.delete(socket);
+      this.emit('connections', this.connections.size);
+      logger.info('TCP audio connection closed', { address: source.address, port: source.port });
+    });
+  }
+}
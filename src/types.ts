@@ -32,6 +32,7 @@ export interface AudioMetadata {
   sampleRate: number;
   isFirst: boolean;
   isFinal: boolean;
+  sequence?: number;          // Position within the stream, 0 for the isFirst chunk
   subtitles?: {
     text: string;
     startTime: number;
@@ -56,6 +57,7 @@ export interface ErrorData {
 }
 
 export interface BaseMessage {
+  version?: string;           // "MAJOR.MINOR"; absent means 1.0
   id: string;
   type: string;
   service: string;
@@ -79,9 +81,44 @@ export interface ErrorMessage extends BaseMessage {
   error: ErrorData;
 }
 
+export interface SessionTransition {
+  state: StatusValue;
+  at: number;                 // Receive time
+  messageTimestamp: string;   // Timestamp set by the voice service
+  progress: number | null;
+}
+
+export interface SessionLifecycle {
+  sessionId: string;
+  state: StatusValue;
+  progress: number | null;    // Latest progress percentage
+  message: string | null;
+  createdAt: number;
+  updatedAt: number;
+  transitions: SessionTransition[];
+}
+
+export type TimelineOutcome = 'completed' | 'cancelled' | 'error' | 'interrupted' | 'abandoned' | 'superseded';
+
+export interface LatencyTimeline {
+  correlationId: string;
+  sessionId: string;
+  format: string;
+  messageTimestamp: string;   // Timestamp of the first chunk as sent by the voice service
+  sentAt: number | null;      // Parsed messageTimestamp, null if unparseable
+  receivedAt: number;
+  firstByteAt: number | null; // First byte written to the audio output
+  finalizedAt: number | null;
+  chunks: number;
+  timeToFirstAudioMs: number | null;
+  totalMs: number | null;
+  outcome: TimelineOutcome | null;
+}
+
 export type VoiceResponseMessage = AudioOutputMessage | StatusMessage | ErrorMessage;
 
 export interface ServiceHealth {
+  version?: string;
   service: string;
   status: 'healthy' | 'unhealthy';
   timestamp: number;
@@ -92,26 +129,98 @@ export interface ServiceHealth {
   };
 }
 
+export interface OutputDeviceStatus {
+  type: AudioPlayerConfig['type'];
+  device: string | null;
+  available: boolean;         // False while the last attempt to open an output failed
+  openOutputs: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}
+
+// Heartbeat published by this receiver on the health channel
+export interface ReceiverHealth extends ServiceHealth {
+  details: ServiceHealth['details'] & {
+    memoryLimit: number;
+    activeStreams: number;
+    circuitState: string;
+    outputDevice: OutputDeviceStatus;
+  };
+}
+
+export type DependencyState = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export interface DependencyStatus {
+  service: string;
+  state: DependencyState;
+  since: number;              // When the current state was entered
+  lastHeartbeat: number | null;
+  missedHeartbeats: number;
+  uptime: number | null;      // As reported by the service, in ms
+  transitions: number;
+}
+
+export interface DependencyConfig {
+  services: string[];         // Services expected to publish heartbeats
+  heartbeatIntervalMs: number;
+  degradedAfterMissed: number;
+  downAfterMissed: number;
+}
+
 export interface AudioPlayerConfig {
   type: 'speaker' | 'ffplay' | 'vlc' | 'file';
   device?: string;
 }
 
-export interface Config {
-  redis: {
-    host: string;
-    port: number;
-    password?: string;
+export type RedisMode = 'standalone' | 'sentinel' | 'cluster';
+
+export interface RedisNode {
+  host: string;
+  port: number;
+}
+
+export interface RedisTlsConfig {
+  enabled: boolean;
+  caFile?: string;            // PEM bundle used to verify the server
+  certFile?: string;          // Client certificate for mutual TLS
+  keyFile?: string;
+  servername?: string;        // SNI / certificate hostname override
+  rejectUnauthorized: boolean;
+}
+
+export interface RedisConfig {
+  mode: RedisMode;
+  host: string;
+  port: number;
+  username?: string;          // ACL user; password alone authenticates as "default"
+  password?: string;
+  tls: RedisTlsConfig;
+  sentinel: {
+    masterName: string;
+    nodes: RedisNode[];
+    password?: string;        // Sentinels are often secured separately from the data nodes
+  };
+  cluster: {
+    nodes: RedisNode[];
   };
+}
+
+export interface Config {
+  redis: RedisConfig;
   channels: {
     responses: string;
     health: string;
+    sessions: string;
+    sessionReplies: string;
   };
   audio: {
     output: AudioPlayerConfig;
     bufferSize: number;
     saveToFile: boolean;
   };
+  ingestion: IngestionConfig;
+  deadLetter: DeadLetterConfig;
+  dependencies: DependencyConfig;
   metrics: {
     port: number;
     enabled: boolean;
@@ -121,6 +230,8 @@ export interface Config {
     reconnectBaseDelay: number;
     reconnectMaxDelay: number;
     healthCheckInterval: number;
+    interruptedStreamPolicy: InterruptedStreamPolicy;
+    interruptedStreamGraceMs: number;
   };
   logging: {
     level: string;
@@ -130,6 +241,23 @@ export interface Config {
   udp?: {
     port: number;
     enabled: boolean;
+    bindAddress: string;      // Interface to listen on; an IPv6 address such as :: also accepts IPv4 unless ipv6Only
+    socket: UdpSocketConfig;
+    multicast?: UdpMulticastConfig; // Also receive sessions sent to a multicast group
+    receiverId: string;       // Names this receiver in session replies when several answer one SESSION_START
+    advertisedHost: string;   // Host announced to the voice service in SESSION_READY
+    acceptLegacyPackets: boolean; // Also accept datagrams without magic, version and CRC32
+    authSecret?: string;      // Shared secret session keys are derived from when SESSION_START has none
+    requireAuth: boolean;     // Refuse sessions that would run without datagram tags
+    requireEncryption: boolean; // Refuse sessions that would send plaintext audio
+    keyGraceMs: number;       // How long a rotated-out payload key still decrypts
+    nack: UdpNackConfig;
+    fecEnabled: boolean;      // Accept FEC parity when SESSION_START offers it
+    reassembly: UdpReassemblyConfig;
+    inactivity: UdpInactivityConfig;
+    sourcePolicy: UdpSourcePolicy; // Which datagram sources a session accepts
+    rtp: UdpRtpConfig;
+    tcp: UdpTcpConfig;
   };
   jitterBuffer?: JitterBufferConfig;
   vtubeStudio?: {
@@ -149,6 +277,51 @@ export interface Config {
   };
 }
 
+// What to do with streams cut off mid-stream by a Redis reconnect
+export type InterruptedStreamPolicy = 'finalize' | 'wait' | 'interrupt';
+
+export interface IngestionConfig {
+  mode: 'pubsub' | 'streams';
+  streamKey: string;          // Stream carrying voice responses in streams mode
+  consumerGroup: string;
+  consumerName: string;
+  batchSize: number;          // Entries read per XREADGROUP / XAUTOCLAIM
+  blockMs: number;            // XREADGROUP BLOCK timeout
+  claimIdleMs: number;        // Reclaim entries pending longer than this
+  reorderWindow: number;      // Sequenced chunks held while waiting for a missing one
+  reorderTimeoutMs: number;   // How long a gap may hold back later chunks
+}
+
+export interface DeadLetterConfig {
+  mode: 'off' | 'pubsub' | 'stream';
+  channel: string;            // Pub/sub destination
+  streamKey: string;          // Stream destination, inspectable with `npm run dead-letter`
+  maxStreamLength: number;    // Approximate MAXLEN for the stream
+  maxPayloadBytes: number;    // Larger payloads are truncated and can no longer be re-injected
+}
+
+export type DeadLetterReason =
+  | 'invalid_json'
+  | 'invalid_schema'
+  | 'unsupported_version'
+  | 'invalid_session_id'
+  | 'invalid_audio_data'
+  | 'processing_failed';
+
+export interface DeadLetterEntry {
+  reason: DeadLetterReason;
+  detail: string;
+  source: string;             // Channel or stream the message was read from
+  sourceType: 'pubsub' | 'stream';
+  sessionId: string | null;
+  messageId: string | null;
+  payload: string;
+  payloadBytes: number;       // Size of the original payload
+  truncated: boolean;
+  rejectedAt: string;
+  receiver: string;
+}
+
 export interface AudioStream {
   sessionId: string;
   format: string;
@@ -215,6 +388,103 @@ export interface AudioPacket {
   sampleRate: number;
   isLast: boolean;
   checksum?: string;          // For packet integrity
+  parity?: boolean;           // FEC parity over the group starting at sequenceNumber
+  fragment?: PacketFragment;  // Set on fragments of a frame too large for one datagram
+}
+
+export interface PacketFragment {
+  index: number;
+  count: number;
+}
+
+export type FecScheme = 'xor';
+
+export interface SessionFec {
+  scheme: FecScheme;
+  groupSize: number;          // Data packets covered by each parity packet
+}
+
+export interface UdpNackConfig {
+  enabled: boolean;           // Ask senders to retransmit missing sequence numbers
+  retryIntervalMs: number;    // Minimum time between NACKs for the same sequence
+  maxRetries: number;         // NACKs sent per sequence, including the first
+  maxWaitMs: number;          // Give up on a sequence this long after the gap was seen
+}
+
+export interface UdpSocketConfig {
+  ipv6Only: boolean;          // With an IPv6 bind address, refuse IPv4 senders instead of dual-stack
+  reuseAddr: boolean;         // Let several receivers bind the same address and port
+  receiveBufferSize?: number; // SO_RCVBUF in bytes; the OS default when unset
+  sendBufferSize?: number;    // SO_SNDBUF in bytes; the OS default when unset
+}
+
+export interface UdpMulticastConfig {
+  group: string;              // Group address, 224.0.0.0/4 or ff00::/8
+  interfaces: string[];       // Local interface addresses to join on; the default interface when empty
+  ttl: number;                // Hop limit for multicast this socket sends
+  loopback: boolean;          // Also receive group traffic sent from this host
+}
+
+export interface UdpReassemblyConfig {
+  timeoutMs: number;          // Drop a partial frame this long after its first fragment
+  maxBytes: number;           // Fragments buffered across all sessions before the oldest frames are dropped
+}
+
+export type IncompleteFrameReason = 'timeout' | 'evicted' | 'session_end';
+
+export interface UdpInactivityConfig {
+  idleTimeoutMs: number;        // End a session this long after its last packet; 0 to never
+  firstPacketTimeoutMs: number; // End a session that never received a packet this long after it was expected; 0 to never
+}
+
+// first_packet: nothing ever arrived; idle: the sender went quiet mid-session
+export type SessionTimeoutPhase = 'first_packet' | 'idle';
+
+// strict: the address and port of clientEndpoint; address: any port on that
+// address; learn: whatever source the first datagram comes from
+export type UdpSourcePolicy = 'strict' | 'address' | 'learn';
+
+export type SourceViolationReason = 'address' | 'port';
+
+export type RtpEncoding = 'L16' | 'PCMU' | 'opus';
+
+export interface RtpPayloadMapping {
+  encoding: RtpEncoding;
+  clockRate: number;          // RTP timestamp units per second, also the sample rate
+  channels: number;           // Interleaved channels; mixed down to mono for playback
+}
+
+export interface UdpRtpConfig {
+  enabled: boolean;           // Also accept sessions streamed as plain RTP
+  port: number;               // RTP port; RTCP uses the next one
+  payloadTypes: Record<number, RtpPayloadMapping>; // Dynamic payload types (96-127)
+  reportIntervalMs: number;   // How often RTCP receiver reports go out
+}
+
+export interface UdpTcpConfig {
+  enabled: boolean;           // Also accept our datagrams framed over TCP, for senders whose UDP is blocked
+  port: number;
+  maxFrameBytes: number;      // Connections announcing a larger frame are closed
+  maxConnections: number;     // Further connections are refused while this many are open
+  idleTimeoutMs: number;      // Connections that send nothing for this long are closed; 0 never
+  preferred: boolean;         // Pick TCP over UDP when a sender offers both
+}
+
+// How a session's audio reaches us: our own datagram format, the same framed
+// over TCP, or plain RTP
+export type SessionTransport = 'udp' | 'rtp' | 'tcp';
+
+export type UdpCipherAlgorithm = 'aes-256-gcm' | 'chacha20-poly1305';
+
+export type UdpAuthFailureReason = 'missing_tag' | 'invalid_tag';
+
+export interface UdpAuthFailureSource {
+  source: string;             // address:port the datagrams came from
+  failures: number;
+  lastReason: UdpAuthFailureReason;
+  lastSessionId: string;
+  firstFailureAt: number;
+  lastFailureAt: number;
 }
 
 export interface SubtitleData {
@@ -225,6 +495,11 @@ export interface SubtitleData {
   confidence?: number;        // TTS confidence score
 }
 
+export interface SubtitleDisplay {
+  show(sessionId: string, subtitle: SubtitleData): void;
+  hide(sessionId: string, subtitle: SubtitleData): void;
+}
+
 export interface TimedAudioChunk {
   sessionId: string;
   audio: Buffer;
@@ -236,6 +511,7 @@ export interface TimedAudioChunk {
 
 // Control Messages (via Redis)
 export interface SessionStartMessage {
+  version?: string;
   type: 'SESSION_START';
   sessionId: string;
   audioStreamPort: number;    // UDP port for direct audio streaming
@@ -243,6 +519,37 @@ export interface SessionStartMessage {
   expectedFormat: AudioFormat;
   sampleRate: number;
   estimatedDuration?: number; // Expected session duration (ms)
+  authKey?: string;           // Base64 per-session key for UDP datagram tags
+  encryption?: SessionEncryption;
+  fec?: SessionFec;           // Parity packets the sender offers to send
+  multicast?: boolean;        // The sender transmits once to the receivers' multicast group
+  receivers?: string[];       // Only these receiver IDs should take part; all when unset
+  transport?: SessionTransport; // 'udp' when unset
+  transports?: SessionTransport[]; // Offered in order of preference; replaces transport when set
+  ssrc?: number;              // RTP only: the sender's SSRC; the first seen from clientEndpoint when unset
+}
+
+export interface SessionEncryption {
+  algorithm: UdpCipherAlgorithm;
+  keyId: number;              // 0-255, sent in every encrypted datagram
+  key: string;                // Base64, 32 bytes
+}
+
+// Sender-initiated key rotation; the sender switches keys once SESSION_REKEYED arrives
+export interface SessionRekeyMessage {
+  version?: string;
+  type: 'SESSION_REKEY';
+  sessionId: string;
+  keyId: number;
+  key: string;
+}
+
+export interface SessionRekeyedMessage {
+  type: 'SESSION_REKEYED';
+  sessionId: string;
+  keyId: number;
+  accepted: boolean;
+  receiverId?: string;
 }
 
 export interface SessionReadyMessage {
@@ -250,19 +557,38 @@ export interface SessionReadyMessage {
   sessionId: string;
   receiverReady: boolean;
   udpEndpoint: string;        // Our UDP endpoint for audio
+  transport?: SessionTransport; // What udpEndpoint expects
+  encrypted?: boolean;        // Payloads must be encrypted with the SESSION_START key
+  fec?: SessionFec | null;    // Accepted FEC scheme; null means send no parity packets
+  multicast?: boolean;        // udpEndpoint is our multicast group rather than a unicast address
   bufferSize: number;         // Suggested buffer size
+  receiverId?: string;        // Which receiver answered
 }
 
 export interface SessionEndMessage {
+  version?: string;
   type: 'SESSION_END';
   sessionId: string;
-  reason: 'COMPLETED' | 'ERROR' | 'TIMEOUT' | 'CLIENT_DISCONNECT';
+  reason: SessionEndReason;
   statistics?: SessionStatistics;
+  receiverId?: string;        // Set on our replies
 }
 
+export type SessionEndReason = 'COMPLETED' | 'ERROR' | 'TIMEOUT' | 'CLIENT_DISCONNECT';
+
+export type SessionControlMessage = SessionStartMessage | SessionEndMessage | SessionRekeyMessage;
+
 export interface SessionStatistics {
   totalPackets: number;
   lostPackets: number;
+  retransmittedPackets: number; // Gaps filled by a retransmission, no longer counted as lost
+  fecRecoveredPackets: number;  // Gaps rebuilt from parity, no longer counted as lost
+  fecUnrecoverablePackets: number; // Missing from groups whose parity could not rebuild them
+  reorderedPackets: number;     // Arrived late on their own and filled their gap, no longer counted as lost
+  duplicatePackets: number;     // Dropped as already received
+  stalePackets: number;         // Dropped as older than the duplicate window, so too old to tell
+  incompleteFrames: number;     // Fragmented frames dropped before all fragments arrived
+  sourceViolations: number;     // Datagrams dropped for coming from the wrong source
   avgLatency: number;
   jitterMs: number;
   audioDuration: number;
@@ -13,6 +13,7 @@ declare module 'speaker' {
 
   class Speaker extends Writable {
     constructor(options?: SpeakerOptions);
+    close(flush: boolean): void;
   }
 
   export = Speaker;
@@ -1,6 +1,10 @@
-import { UDPAudioServer } from './udp-audio-server';
-import { AudioPacket, AudioFormat } from './types';
+import { PacketRecovery, UDPAudioServer } from './udp-audio-server';
+import { FecEncoder } from './fec';
+import { AudioPacket, AudioFormat, SessionStatistics } from './types';
 import * as dgram from 'dgram';
+import * as net from 'net';
+import { decodeNack, encodePacket, encodeLegacyPacket, fragmentPacket } from './packet-codec';
+import { encodeFrame } from './tcp-audio-transport';
 
 // Mock logger to avoid config dependency
 jest.mock('./logger', () => ({
@@ -117,6 +121,291 @@ describe('UDP Audio Server', () => {
       }).toThrow();
     });
 
+    it('should reject corrupt and legacy datagrams with counted reasons', async () => {
+      await udpServer.start();
+
+      const sessionId = 'reject-test';
+      udpServer.expectSession(sessionId, '127.0.0.1', 12345);
+
+      const reasons: string[] = [];
+      udpServer.on('packetRejected', (reason: string) => reasons.push(reason));
+
+      const corrupt = serializeAudioPacket(createTestAudioPacket(sessionId, 1));
+      corrupt[corrupt.length - 1] ^= 0xff;
+      const legacy = encodeLegacyPacket(createTestAudioPacket(sessionId, 2));
+
+      const client = dgram.createSocket('udp4');
+      const port = udpServer.getPort();
+      client.send(corrupt, port, '127.0.0.1');
+      client.send(legacy, port, '127.0.0.1');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      client.close();
+
+      expect(reasons.sort()).toEqual(['bad_magic', 'checksum_mismatch']);
+      expect(udpServer.getRejectedPackets()).toEqual({ bad_magic: 1, checksum_mismatch: 1 });
+      expect(udpServer.getSessionStatistics(sessionId)?.totalPackets).toBe(0);
+    });
+
+    it('should drop datagrams without a valid tag for authenticated sessions and track the source', async () => {
+      await udpServer.start();
+
+      const sessionId = 'auth-test';
+      const key = Buffer.alloc(32, 1);
+      udpServer.expectSession(sessionId, '127.0.0.1', 12345, { authKey: key });
+
+      const received: number[] = [];
+      const failures: string[] = [];
+      udpServer.on('audioPacket', (packet: AudioPacket) => received.push(packet.sequenceNumber));
+      udpServer.on('authFailure', (reason: string) => failures.push(reason));
+
+      const client = dgram.createSocket('udp4');
+      const port = udpServer.getPort();
+      client.send(encodePacket(createTestAudioPacket(sessionId, 0), { authKey: key }), port, '127.0.0.1');
+      client.send(encodePacket(createTestAudioPacket(sessionId, 1)), port, '127.0.0.1');
+      client.send(encodePacket(createTestAudioPacket(sessionId, 2), { authKey: Buffer.alloc(32, 2) }), port, '127.0.0.1');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const clientPort = client.address().port;
+      client.close();
+
+      expect(received).toEqual([0]);
+      expect(failures.sort()).toEqual(['invalid_tag', 'missing_tag']);
+      expect(udpServer.getSessionStatistics(sessionId)?.totalPackets).toBe(1);
+      expect(udpServer.getAuthFailures()).toEqual([expect.objectContaining({
+        source: `127.0.0.1:${clientPort}`,
+        failures: 2,
+        lastSessionId: sessionId,
+      })]);
+    });
+
+    it('should decrypt payloads with current and recently rotated keys only', async () => {
+      await udpServer.start();
+
+      const sessionId = 'encrypt-test';
+      const first = { algorithm: 'chacha20-poly1305' as const, keyId: 0, key: Buffer.alloc(32, 1) };
+      const second = { ...first, keyId: 1, key: Buffer.alloc(32, 2) };
+      udpServer.expectSession(sessionId, '127.0.0.1', 12345, { encryption: first });
+
+      const received: string[] = [];
+      const reasons: string[] = [];
+      udpServer.on('audioPacket', (packet: AudioPacket) => received.push(packet.audioData.toString()));
+      udpServer.on('packetRejected', (reason: string) => reasons.push(reason));
+
+      const send = (sequence: number, encryption?: typeof first): Buffer =>
+        encodePacket({ ...createTestAudioPacket(sessionId, sequence), audioData: Buffer.from(`chunk-${sequence}`) }, { encryption });
+      const client = dgram.createSocket('udp4');
+      const port = udpServer.getPort();
+      const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 50));
+
+      client.send(send(0, first), port, '127.0.0.1');
+      await flush();
+      expect(udpServer.rotateSessionKey(sessionId, second.keyId, second.key)).toBe(true);
+      client.send(send(1, first), port, '127.0.0.1');
+      await flush();
+      client.send(send(2, second), port, '127.0.0.1');
+      await flush();
+      client.send(send(3), port, '127.0.0.1');
+      await flush();
+      client.send(send(4, { ...second, keyId: 7 }), port, '127.0.0.1');
+      await flush();
+      client.close();
+
+      expect(received).toEqual(['chunk-0', 'chunk-1', 'chunk-2']);
+      expect(reasons).toEqual(['not_encrypted', 'unknown_key']);
+      expect(udpServer.rotateSessionKey('unknown', 1, second.key)).toBe(false);
+    });
+
+    it('should NACK gaps to the sender and credit retransmissions back', async () => {
+      const nackServer = new UDPAudioServer(0, { nack: { retryIntervalMs: 1000, maxRetries: 1, maxWaitMs: 1000 } });
+      await nackServer.start();
+
+      const sender = dgram.createSocket('udp4');
+      await new Promise<void>(resolve => sender.bind(0, '127.0.0.1', () => resolve()));
+      const nacks: Buffer[] = [];
+      sender.on('message', (message) => nacks.push(message));
+
+      const sessionId = 'nack-test';
+      nackServer.expectSession(sessionId, '127.0.0.1', sender.address().port);
+      const deliveries: [number, PacketRecovery][] = [];
+      nackServer.on('audioPacket', (packet: AudioPacket, _sync: unknown, _network: unknown, delivery: { recovery: PacketRecovery }) =>
+        deliveries.push([packet.sequenceNumber, delivery.recovery]));
+
+      const port = nackServer.getPort();
+      const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 50));
+      sender.send(serializeAudioPacket(createTestAudioPacket(sessionId, 0)), port, '127.0.0.1');
+      sender.send(serializeAudioPacket(createTestAudioPacket(sessionId, 3)), port, '127.0.0.1');
+      await flush();
+      sender.send(serializeAudioPacket(createTestAudioPacket(sessionId, 1)), port, '127.0.0.1');
+      await flush();
+
+      expect(nacks.map(nack => decodeNack(nack))).toEqual([{ sessionId, ranges: [{ start: 1, count: 2 }] }]);
+      expect(deliveries).toEqual([[0, null], [3, null], [1, 'retransmission']]);
+      expect(nackServer.getSessionStatistics(sessionId)).toEqual(expect.objectContaining({
+        totalPackets: 3,
+        lostPackets: 1,
+        retransmittedPackets: 1,
+      }));
+
+      const lost = jest.fn();
+      nackServer.on('packetsLost', lost);
+      nackServer.closeSession(sessionId);
+      expect(lost).toHaveBeenCalledWith(sessionId, 1);
+
+      sender.close();
+      await nackServer.stop();
+    });
+
+    it('should rebuild a lost packet from parity before delivering it', async () => {
+      await udpServer.start();
+      const sessionId = 'fec-test';
+      udpServer.expectSession(sessionId, '127.0.0.1', 0, { fec: { scheme: 'xor', groupSize: 4 } });
+
+      const deliveries: [number, string, PacketRecovery][] = [];
+      udpServer.on('audioPacket', (packet: AudioPacket, _sync: unknown, _network: unknown, delivery: { recovery: PacketRecovery }) =>
+        deliveries.push([packet.sequenceNumber, packet.audioData.toString(), delivery.recovery]));
+
+      const encoder = new FecEncoder(4);
+      const packets = [0, 1, 2, 3].map(sequence => ({
+        ...createTestAudioPacket(sessionId, sequence),
+        audioData: Buffer.from(`chunk-${sequence}`.repeat(sequence + 1)),
+      }));
+      const parity = packets.map(packet => encoder.push(packet)).find(packet => packet !== null);
+
+      const client = dgram.createSocket('udp4');
+      const port = udpServer.getPort();
+      const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 50));
+      for (const packet of [packets[0], packets[1], packets[3], parity!, packets[2]]) {
+        client.send(encodePacket(packet), port, '127.0.0.1');
+        await flush();
+      }
+      client.close();
+
+      expect(deliveries).toEqual([
+        [0, 'chunk-0', null],
+        [1, 'chunk-1chunk-1', null],
+        [3, 'chunk-3'.repeat(4), null],
+        [2, 'chunk-2'.repeat(3), 'fec'],
+      ]);
+      expect(udpServer.getSessionStatistics(sessionId)).toEqual(expect.objectContaining({
+        totalPackets: 3,
+        lostPackets: 0,
+        fecRecoveredPackets: 1,
+      }));
+    });
+
+    it('should wait for the last group\'s parity before ending the session', async () => {
+      await udpServer.start();
+      const sessionId = 'fec-last-group';
+      udpServer.expectSession(sessionId, '127.0.0.1', 0, { fec: { scheme: 'xor', groupSize: 4 } });
+
+      const delivered: [number, boolean][] = [];
+      const ended: SessionStatistics[] = [];
+      udpServer.on('audioPacket', (packet: AudioPacket) => delivered.push([packet.sequenceNumber, packet.isLast]));
+      udpServer.on('sessionEnd', (_sessionId: string, statistics: SessionStatistics) => ended.push(statistics));
+
+      const encoder = new FecEncoder(4);
+      const packets = [0, 1, 2].map(sequence => ({ ...createTestAudioPacket(sessionId, sequence), isLast: sequence === 2 }));
+      packets.forEach(packet => encoder.push(packet));
+      const parity = encoder.flush()!;
+
+      const client = dgram.createSocket('udp4');
+      const port = udpServer.getPort();
+      for (const packet of [packets[0], packets[2]]) {
+        client.send(encodePacket(packet), port, '127.0.0.1');
+        await new Promise(resolve => setTimeout(resolve, 30));
+      }
+      expect(udpServer.getActiveSessions()).toContain(sessionId);
+
+      client.send(encodePacket(parity), port, '127.0.0.1');
+      await new Promise(resolve => setTimeout(resolve, 30));
+      client.close();
+
+      expect(delivered).toEqual([[0, false], [2, true], [1, false]]);
+      expect(ended).toEqual([expect.objectContaining({ lostPackets: 0, fecRecoveredPackets: 1, fecUnrecoverablePackets: 0 })]);
+      expect(udpServer.getActiveSessions()).toEqual([]);
+    });
+
+    it('should end the session after a grace period when the last parity never comes', async () => {
+      await udpServer.start();
+      const sessionId = 'fec-no-parity';
+      udpServer.expectSession(sessionId, '127.0.0.1', 0, { fec: { scheme: 'xor', groupSize: 4 } });
+      const ended = jest.fn();
+      udpServer.on('sessionEnd', ended);
+
+      const client = dgram.createSocket('udp4');
+      client.send(encodePacket({ ...createTestAudioPacket(sessionId, 0), isLast: true }), udpServer.getPort(), '127.0.0.1');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      client.close();
+      expect(ended).not.toHaveBeenCalled();
+
+      await new Promise(resolve => setTimeout(resolve, 300));
+      expect(ended).toHaveBeenCalledWith(sessionId, expect.any(Object), 'COMPLETED');
+    });
+
+    it('should reject parity too short to read and still end the session', async () => {
+      await udpServer.start();
+      const sessionId = 'fec-short-parity';
+      udpServer.expectSession(sessionId, '127.0.0.1', 0, { fec: { scheme: 'xor', groupSize: 4 } });
+      const rejected: string[] = [];
+      const ended = jest.fn();
+      udpServer.on('packetRejected', (reason: string) => rejected.push(reason));
+      udpServer.on('sessionEnd', ended);
+
+      const client = dgram.createSocket('udp4');
+      const port = udpServer.getPort();
+      const shortParity = { ...createTestAudioPacket(sessionId, 0), audioData: Buffer.alloc(0), parity: true };
+      client.send(encodePacket(shortParity), port, '127.0.0.1');
+      client.send(encodePacket({ ...createTestAudioPacket(sessionId, 1), isLast: true }), port, '127.0.0.1');
+      await new Promise(resolve => setTimeout(resolve, 350));
+      client.close();
+
+      expect(rejected).toEqual(['bad_parity']);
+      expect(ended).toHaveBeenCalledWith(sessionId, expect.objectContaining({ fecUnrecoverablePackets: 0 }), 'COMPLETED');
+    });
+
+    it('should reassemble fragmented frames and count the ones left incomplete', async () => {
+      await udpServer.start();
+      const sessionId = 'fragment-test';
+      udpServer.expectSession(sessionId, '127.0.0.1', 0);
+
+      const frames: AudioPacket[] = [];
+      udpServer.on('audioPacket', (packet: AudioPacket) => frames.push(packet));
+      const incomplete = jest.fn();
+      udpServer.on('incompleteFrame', incomplete);
+
+      const large = { ...createTestAudioPacket(sessionId, 0), audioData: Buffer.alloc(4000, 3) };
+      const [first, second, third] = fragmentPacket(large, 1400);
+      const partial = fragmentPacket({ ...createTestAudioPacket(sessionId, 1), audioData: Buffer.alloc(3000, 5) }, 1400);
+
+      const client = dgram.createSocket('udp4');
+      const port = udpServer.getPort();
+      for (const fragment of [third, first, partial[0], second]) {
+        client.send(encodePacket(fragment), port, '127.0.0.1');
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+      client.close();
+
+      expect(frames).toHaveLength(1);
+      expect(frames[0].audioData).toEqual(large.audioData);
+      expect(frames[0].fragment).toBeUndefined();
+
+      const statistics = udpServer.closeSession(sessionId);
+      expect(incomplete).toHaveBeenCalledWith(sessionId, 1, 'session_end');
+      expect(statistics).toEqual(expect.objectContaining({ totalPackets: 1, incompleteFrames: 1 }));
+    });
+
+    it('should accept the legacy layout when enabled', async () => {
+      const legacyServer = new UDPAudioServer(0, { acceptLegacyPackets: true });
+      const packet = createTestAudioPacket('legacy-test', 7);
+
+      const decoded = legacyServer['deserializePacket'](encodeLegacyPacket(packet));
+      const versioned = legacyServer['deserializePacket'](encodePacket(packet));
+
+      expect(decoded.sequenceNumber).toBe(7);
+      expect(decoded.checksum).toBeUndefined();
+      expect(versioned.checksum).toMatch(/^[0-9a-f]{8}$/);
+      legacyServer['server'].close();
+    });
+
     it('should send events for received packets', async () => {
       await udpServer.start();
       
@@ -183,6 +472,76 @@ describe('UDP Audio Server', () => {
       client.close();
     });
 
+    it('should credit reordered packets against loss and drop duplicates', async () => {
+      await udpServer.start();
+      const sessionId = 'reorder-test';
+      udpServer.expectSession(sessionId, '127.0.0.1', 12345);
+      const delivered: number[] = [];
+      udpServer.on('audioPacket', (packet: AudioPacket) => delivered.push(packet.sequenceNumber));
+
+      const client = dgram.createSocket('udp4');
+      for (const sequence of [0, 2, 3, 1, 1, 3, 4]) {
+        client.send(serializeAudioPacket(createTestAudioPacket(sessionId, sequence)), udpServer.getPort(), '127.0.0.1');
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+      client.close();
+
+      expect(delivered).toEqual([0, 2, 3, 1, 4]);
+      expect(udpServer.getSessionStatistics(sessionId)).toEqual(expect.objectContaining({
+        totalPackets: 5,
+        lostPackets: 0,
+        reorderedPackets: 1,
+        duplicatePackets: 2,
+      }));
+    });
+
+    it('should count only the packets actually missing across the 32-bit wrap', async () => {
+      await udpServer.start();
+      const sessionId = 'wrap-test';
+      udpServer.expectSession(sessionId, '127.0.0.1', 12345);
+      // A long session that got close to the wrap
+      const sequences = udpServer['activeSessions'].get(sessionId)!.sequences;
+      sequences.record(0x7fffffff);
+      sequences.record(0xfffffffd);
+
+      const client = dgram.createSocket('udp4');
+      for (const sequence of [0xfffffffe, 1, 0xffffffff]) {
+        client.send(serializeAudioPacket(createTestAudioPacket(sessionId, sequence)), udpServer.getPort(), '127.0.0.1');
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+      client.close();
+
+      // 0 is still missing; 0xffffffff arrived late
+      expect(udpServer.getSessionStatistics(sessionId)).toEqual(expect.objectContaining({
+        totalPackets: 3,
+        lostPackets: 1,
+        reorderedPackets: 1,
+      }));
+    });
+
+    it('should count packets older than the window as stale, not duplicate', async () => {
+      await udpServer.start();
+      const sessionId = 'stale-test';
+      udpServer.expectSession(sessionId, '127.0.0.1', 12345);
+      udpServer['activeSessions'].get(sessionId)!.sequences.record(5000);
+
+      const client = dgram.createSocket('udp4');
+      for (const sequence of [10, 4999, 4999]) {
+        client.send(serializeAudioPacket(createTestAudioPacket(sessionId, sequence)), udpServer.getPort(), '127.0.0.1');
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+      client.close();
+
+      expect(udpServer.getSessionStatistics(sessionId)).toEqual(expect.objectContaining({
+        reorderedPackets: 1,
+        duplicatePackets: 1,
+        stalePackets: 1,
+      }));
+    });
+
     it('should handle session end packets', async () => {
       await udpServer.start();
       
@@ -238,6 +597,363 @@ describe('UDP Audio Server', () => {
     });
   });
 
+  describe('Source Address Policy', () => {
+    const sockets: dgram.Socket[] = [];
+
+    const bindClient = async (): Promise<dgram.Socket> => {
+      const socket = dgram.createSocket('udp4');
+      await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', () => resolve()));
+      sockets.push(socket);
+      return socket;
+    };
+
+    const sendFrom = async (socket: dgram.Socket, packet: Buffer, server: UDPAudioServer): Promise<void> => {
+      socket.send(packet, server.getPort(), '127.0.0.1');
+      await new Promise(resolve => setTimeout(resolve, 30));
+    };
+
+    afterEach(() => {
+      sockets.splice(0).forEach(socket => socket.close());
+    });
+
+    it('should drop datagrams from another port under the strict policy', async () => {
+      const strictServer = new UDPAudioServer(0, { sourcePolicy: 'strict' });
+      await strictServer.start();
+      const [sender, other] = [await bindClient(), await bindClient()];
+
+      const sessionId = 'strict-test';
+      strictServer.expectSession(sessionId, '127.0.0.1', sender.address().port);
+      const violations: [string, string][] = [];
+      strictServer.on('sourceViolation', (reason: string, source: string) => violations.push([reason, source]));
+
+      await sendFrom(sender, serializeAudioPacket(createTestAudioPacket(sessionId, 0)), strictServer);
+      await sendFrom(other, serializeAudioPacket(createTestAudioPacket(sessionId, 1)), strictServer);
+
+      expect(violations).toEqual([['port', `127.0.0.1:${other.address().port}`]]);
+      expect(strictServer.getSessionStatistics(sessionId)).toEqual(expect.objectContaining({
+        totalPackets: 1,
+        sourceViolations: 1,
+      }));
+      await strictServer.stop();
+    });
+
+    it('should accept any port but not another address under the address policy', async () => {
+      await udpServer.start();
+      const sender = await bindClient();
+      udpServer.expectSession('address-test', '127.0.0.1', 9001);
+      udpServer.expectSession('elsewhere-test', '10.0.0.9', 9001);
+      const violations = jest.fn();
+      udpServer.on('sourceViolation', violations);
+
+      await sendFrom(sender, serializeAudioPacket(createTestAudioPacket('address-test', 0)), udpServer);
+      await sendFrom(sender, serializeAudioPacket(createTestAudioPacket('elsewhere-test', 0)), udpServer);
+
+      expect(udpServer.getSessionStatistics('address-test')?.totalPackets).toBe(1);
+      expect(udpServer.getSessionStatistics('elsewhere-test')?.sourceViolations).toBe(1);
+      expect(violations).toHaveBeenCalledWith('address', `127.0.0.1:${sender.address().port}`, 'elsewhere-test');
+    });
+
+    it('should lock onto the first source under the learn policy', async () => {
+      const learnServer = new UDPAudioServer(0, { sourcePolicy: 'learn' });
+      await learnServer.start();
+      const [first, second] = [await bindClient(), await bindClient()];
+
+      const sessionId = 'learn-test';
+      learnServer.expectSession(sessionId, '192.0.2.1', 9001);
+      await sendFrom(first, serializeAudioPacket(createTestAudioPacket(sessionId, 0)), learnServer);
+      await sendFrom(second, serializeAudioPacket(createTestAudioPacket(sessionId, 1)), learnServer);
+      await sendFrom(first, serializeAudioPacket(createTestAudioPacket(sessionId, 2)), learnServer);
+
+      expect(learnServer.getSessionStatistics(sessionId)).toEqual(expect.objectContaining({
+        totalPackets: 2,
+        sourceViolations: 1,
+      }));
+      expect(learnServer['activeSessions'].get(sessionId)?.remotePort).toBe(first.address().port);
+      await learnServer.stop();
+    });
+
+    it('should follow an authenticated sender to a new source but not replays', async () => {
+      const strictServer = new UDPAudioServer(0, { sourcePolicy: 'strict' });
+      await strictServer.start();
+      const [sender, rebound, attacker] = [await bindClient(), await bindClient(), await bindClient()];
+
+      const sessionId = 'rebind-test';
+      const authKey = Buffer.alloc(32, 6);
+      strictServer.expectSession(sessionId, '127.0.0.1', sender.address().port, { authKey });
+      const rebinds: [string, string][] = [];
+      strictServer.on('sourceRebound', (_sessionId: string, previous: string, source: string) => rebinds.push([previous, source]));
+
+      const first = encodePacket(createTestAudioPacket(sessionId, 0), { authKey });
+      await sendFrom(sender, first, strictServer);
+      await sendFrom(rebound, encodePacket(createTestAudioPacket(sessionId, 1), { authKey }), strictServer);
+      await sendFrom(attacker, first, strictServer);
+
+      expect(rebinds).toEqual([[`127.0.0.1:${sender.address().port}`, `127.0.0.1:${rebound.address().port}`]]);
+      expect(strictServer.getSessionStatistics(sessionId)).toEqual(expect.objectContaining({
+        totalPackets: 2,
+        sourceViolations: 1,
+      }));
+      await strictServer.stop();
+    });
+
+    it('should learn and follow an encrypted sender only once its payload decrypts', async () => {
+      const learnServer = new UDPAudioServer(0, { sourcePolicy: 'learn' });
+      await learnServer.start();
+      const [attacker, sender, rebound] = [await bindClient(), await bindClient(), await bindClient()];
+
+      const sessionId = 'learn-encrypted';
+      const encryption = { algorithm: 'chacha20-poly1305' as const, keyId: 0, key: Buffer.alloc(32, 4) };
+      learnServer.expectSession(sessionId, '192.0.2.1', 9001, { encryption });
+      const rebinds: string[] = [];
+      learnServer.on('sourceRebound', (_sessionId: string, _previous: string, source: string) => rebinds.push(source));
+
+      const forged = { ...encryption, key: Buffer.alloc(32, 5) };
+      await sendFrom(attacker, encodePacket(createTestAudioPacket(sessionId, 0), { encryption: forged }), learnServer);
+      await sendFrom(sender, encodePacket(createTestAudioPacket(sessionId, 0), { encryption }), learnServer);
+      await sendFrom(rebound, encodePacket(createTestAudioPacket(sessionId, 1), { encryption }), learnServer);
+
+      expect(rebinds).toEqual([`127.0.0.1:${rebound.address().port}`]);
+      expect(learnServer.getSessionStatistics(sessionId)).toEqual(expect.objectContaining({
+        totalPackets: 2,
+        sourceViolations: 0,
+      }));
+      await learnServer.stop();
+    });
+  });
+
+  describe('Socket Configuration', () => {
+    it('should bind to the configured address with the requested buffer sizes', async () => {
+      const boundServer = new UDPAudioServer(0, {
+        bindAddress: '127.0.0.1',
+        socket: { receiveBufferSize: 262144, sendBufferSize: 131072 },
+      });
+      await boundServer.start();
+
+      expect(boundServer['server'].address().address).toBe('127.0.0.1');
+      expect(boundServer['server'].getRecvBufferSize()).toBeGreaterThanOrEqual(262144);
+      expect(boundServer['server'].getSendBufferSize()).toBeGreaterThanOrEqual(131072);
+      await boundServer.stop();
+    });
+
+    it('should serve IPv4 and IPv6 senders on a dual-stack socket', async () => {
+      const dualServer = new UDPAudioServer(0, {
+        bindAddress: '::',
+        sourcePolicy: 'strict',
+        nack: { retryIntervalMs: 1000, maxRetries: 1, maxWaitMs: 1000 },
+      });
+      await dualServer.start();
+
+      const ipv4 = dgram.createSocket('udp4');
+      const ipv6 = dgram.createSocket('udp6');
+      await new Promise<void>(resolve => ipv4.bind(0, '127.0.0.1', () => resolve()));
+      await new Promise<void>(resolve => ipv6.bind(0, '::1', () => resolve()));
+      const nacks: Buffer[] = [];
+      ipv4.on('message', (message) => nacks.push(message));
+
+      dualServer.expectSession('ipv4-session', '127.0.0.1', ipv4.address().port);
+      dualServer.expectSession('ipv6-session', '::1', ipv6.address().port);
+      const violations = jest.fn();
+      dualServer.on('sourceViolation', violations);
+
+      const port = dualServer.getPort();
+      ipv4.send(serializeAudioPacket(createTestAudioPacket('ipv4-session', 0)), port, '127.0.0.1');
+      ipv4.send(serializeAudioPacket(createTestAudioPacket('ipv4-session', 2)), port, '127.0.0.1');
+      ipv6.send(serializeAudioPacket(createTestAudioPacket('ipv6-session', 0)), port, '::1');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      ipv4.close();
+      ipv6.close();
+
+      expect(violations).not.toHaveBeenCalled();
+      expect(dualServer.getSessionStatistics('ipv4-session')?.totalPackets).toBe(2);
+      expect(dualServer.getSessionStatistics('ipv6-session')?.totalPackets).toBe(1);
+      expect(nacks.map(nack => decodeNack(nack).ranges)).toEqual([[{ start: 1, count: 1 }]]);
+      await dualServer.stop();
+    });
+  });
+
+  describe('Inactivity Timeouts', () => {
+    it('should end silent sessions with TIMEOUT, sooner when nothing ever arrived', async () => {
+      const timedOut = new UDPAudioServer(0, {
+        bindAddress: '127.0.0.1',
+        inactivity: { idleTimeoutMs: 300, firstPacketTimeoutMs: 100 },
+      });
+      await timedOut.start();
+      const ended: [string, string, number][] = [];
+      const phases: [string, string][] = [];
+      const started = Date.now();
+      timedOut.on('sessionEnd', (sessionId: string, _statistics: unknown, reason: string) => {
+        ended.push([sessionId, reason, Date.now() - started]);
+      });
+      timedOut.on('sessionTimeout', (sessionId: string, phase: string) => phases.push([sessionId, phase]));
+
+      timedOut.expectSession('never-sent', '127.0.0.1', 12345);
+      timedOut.expectSession('went-quiet', '127.0.0.1', 12345);
+      const client = dgram.createSocket('udp4');
+      client.send(serializeAudioPacket(createTestAudioPacket('went-quiet', 0)), timedOut.getPort(), '127.0.0.1');
+      await new Promise(resolve => setTimeout(resolve, 500));
+      client.close();
+
+      expect(phases).toEqual([['never-sent', 'first_packet'], ['went-quiet', 'idle']]);
+      expect(ended.map(([sessionId, reason]) => [sessionId, reason])).toEqual([['never-sent', 'TIMEOUT'], ['went-quiet', 'TIMEOUT']]);
+      expect(ended[0][2]).toBeLessThan(300);
+      expect(timedOut.getActiveSessions()).toEqual([]);
+      await timedOut.stop();
+    });
+
+    it('should keep sessions that are still receiving and end finished ones as COMPLETED', async () => {
+      const timedOut = new UDPAudioServer(0, {
+        bindAddress: '127.0.0.1',
+        inactivity: { idleTimeoutMs: 100, firstPacketTimeoutMs: 100 },
+      });
+      await timedOut.start();
+      const reasons: string[] = [];
+      timedOut.on('sessionEnd', (_sessionId: string, _statistics: unknown, reason: string) => reasons.push(reason));
+      timedOut.expectSession('streaming', '127.0.0.1', 12345);
+
+      const client = dgram.createSocket('udp4');
+      for (let i = 0; i < 5; i++) {
+        client.send(serializeAudioPacket(createTestAudioPacket('streaming', i)), timedOut.getPort(), '127.0.0.1');
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      const last = { ...createTestAudioPacket('streaming', 5), isLast: true };
+      client.send(serializeAudioPacket(last), timedOut.getPort(), '127.0.0.1');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      client.close();
+
+      expect(reasons).toEqual(['COMPLETED']);
+      await timedOut.stop();
+    });
+  });
+
+  describe('TCP Fallback', () => {
+    let tcpServer: UDPAudioServer;
+
+    const connect = async (): Promise<net.Socket> => {
+      const socket = net.connect(tcpServer.getTcpPort()!, '127.0.0.1');
+      await new Promise(resolve => socket.once('connect', resolve));
+      return socket;
+    };
+
+    beforeEach(async () => {
+      tcpServer = new UDPAudioServer(0, { bindAddress: '127.0.0.1', tcp: { port: 0, maxFrameBytes: 65536 } });
+      await tcpServer.start();
+    });
+
+    afterEach(async () => {
+      await tcpServer.stop();
+    });
+
+    it('should deliver frames split and joined across TCP writes', async () => {
+      const received: number[] = [];
+      tcpServer.on('audioPacket', (packet: AudioPacket) => received.push(packet.sequenceNumber));
+      tcpServer.expectSession('tcp-session', '127.0.0.1', 9000, { transport: 'tcp' });
+
+      const socket = await connect();
+      const stream = Buffer.concat([0, 1, 2].map(i => encodeFrame(serializeAudioPacket(createTestAudioPacket('tcp-session', i)))));
+      socket.write(stream.subarray(0, 3));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      socket.write(stream.subarray(3, 50));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      socket.write(stream.subarray(50));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      socket.destroy();
+
+      expect(received).toEqual([0, 1, 2]);
+      expect(tcpServer.getSessionStatistics('tcp-session')).toEqual(expect.objectContaining({ totalPackets: 3, sourceViolations: 0 }));
+    });
+
+    it('should close connections that announce an oversized frame', async () => {
+      const rejected: string[] = [];
+      const connections: number[] = [];
+      tcpServer.on('packetRejected', (reason: string) => rejected.push(reason));
+      tcpServer.on('tcpConnections', (count: number) => connections.push(count));
+
+      const socket = await connect();
+      const closed = new Promise(resolve => socket.once('close', resolve));
+      socket.write(Buffer.from([0x00, 0x01, 0x00, 0x01]));
+      await closed;
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(rejected).toEqual(['frame_too_large']);
+      expect(connections).toEqual([1, 0]);
+    });
+
+    it('should reject empty frames under their own reason', async () => {
+      const rejected: string[] = [];
+      tcpServer.on('packetRejected', (reason: string) => rejected.push(reason));
+
+      const socket = await connect();
+      const closed = new Promise(resolve => socket.once('close', resolve));
+      socket.write(Buffer.alloc(4));
+      await closed;
+
+      expect(rejected).toEqual(['empty_frame']);
+    });
+
+    it('should refuse connections over the limit and close idle ones', async () => {
+      await tcpServer.stop();
+      tcpServer = new UDPAudioServer(0, {
+        bindAddress: '127.0.0.1',
+        tcp: { port: 0, maxFrameBytes: 65536, maxConnections: 1, idleTimeoutMs: 150 },
+      });
+      await tcpServer.start();
+
+      const first = await connect();
+      const firstClosed = new Promise(resolve => first.once('close', resolve));
+      const second = await connect();
+      await new Promise(resolve => second.once('close', resolve));
+      expect(tcpServer['tcpTransport']!.getConnectionCount()).toBe(1);
+
+      const started = Date.now();
+      await firstClosed;
+      expect(Date.now() - started).toBeGreaterThanOrEqual(100);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(tcpServer['tcpTransport']!.getConnectionCount()).toBe(0);
+    });
+
+    it('should keep UDP datagrams out of TCP sessions', async () => {
+      const received = jest.fn();
+      tcpServer.on('audioPacket', received);
+      tcpServer.expectSession('tcp-only', '127.0.0.1', 9000, { transport: 'tcp' });
+
+      const client = dgram.createSocket('udp4');
+      client.send(serializeAudioPacket(createTestAudioPacket('tcp-only', 0)), tcpServer.getPort(), '127.0.0.1');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      client.close();
+
+      expect(received).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Multicast', () => {
+    it('should let several receivers on one port take the same group transmission', async () => {
+      const multicast = { group: '239.10.0.1', interfaces: ['127.0.0.1'], ttl: 1, loopback: true };
+      const first = new UDPAudioServer(0, { multicast, socket: { reuseAddr: true } });
+      await first.start();
+      const second = new UDPAudioServer(first.getPort(), { multicast, socket: { reuseAddr: true } });
+      await second.start();
+
+      const sessionId = 'multicast-test';
+      const received: string[] = [];
+      for (const [name, server] of [['first', first], ['second', second]] as const) {
+        server.expectSession(sessionId, '127.0.0.1', 9001);
+        server.on('audioPacket', () => received.push(name));
+      }
+
+      const sender = dgram.createSocket('udp4');
+      await new Promise<void>(resolve => sender.bind(0, () => resolve()));
+      sender.setMulticastInterface('127.0.0.1');
+      sender.send(serializeAudioPacket(createTestAudioPacket(sessionId, 0)), first.getPort(), '239.10.0.1');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      sender.close();
+
+      expect(received.sort()).toEqual(['first', 'second']);
+      expect(first.getMulticastGroup()).toBe('239.10.0.1');
+      await first.stop();
+      await second.stop();
+    });
+  });
+
   describe('Statistics and Monitoring', () => {
     it('should track network statistics accurately', async () => {
       await udpServer.start();
@@ -338,46 +1054,5 @@ function createTestAudioPacket(sessionId: string, sequenceNumber: number): Audio
 }
 
 function serializeAudioPacket(packet: AudioPacket): Buffer {
-  const sessionIdBuffer = Buffer.from(packet.sessionId, 'utf8');
-  const audioDataBuffer = packet.audioData;
-  
-  const totalLength = 1 + sessionIdBuffer.length + 4 + 8 + 8 + 1 + 4 + 1 + 4 + audioDataBuffer.length;
-  const buffer = Buffer.allocUnsafe(totalLength);
-  
-  let offset = 0;
-  
-  // Session ID length and data
-  buffer.writeUInt8(sessionIdBuffer.length, offset);
-  offset += 1;
-  sessionIdBuffer.copy(buffer, offset);
-  offset += sessionIdBuffer.length;
-  
-  // Sequence number
-  buffer.writeUInt32BE(packet.sequenceNumber, offset);
-  offset += 4;
-  
-  // Timestamps
-  buffer.writeBigUInt64BE(BigInt(packet.timestamp), offset);
-  offset += 8;
-  buffer.writeBigUInt64BE(BigInt(packet.playbackTime), offset);
-  offset += 8;
-  
-  // Format (0 = PCM)
-  buffer.writeUInt8(packet.format === AudioFormat.PCM ? 0 : 1, offset);
-  offset += 1;
-  
-  // Sample rate
-  buffer.writeUInt32BE(packet.sampleRate, offset);
-  offset += 4;
-  
-  // Is last
-  buffer.writeUInt8(packet.isLast ? 1 : 0, offset);
-  offset += 1;
-  
-  // Audio data length and data
-  buffer.writeUInt32BE(audioDataBuffer.length, offset);
-  offset += 4;
-  audioDataBuffer.copy(buffer, offset);
-  
-  return buffer;
-}
\ No newline at end of file
+  return encodePacket(packet);
+}
@@ -1,39 +1,172 @@
 import * as dgram from 'dgram';
 import { EventEmitter } from 'events';
+import * as net from 'net';
 import { logger } from './logger';
+import { NackOptions, NackTracker } from './nack-tracker';
+import { FecDecoder } from './fec';
+import { FragmentReassembler } from './fragment-reassembler';
+import { SequenceWindow } from './sequence-window';
+import { TCPAudioTransport, TCPAudioTransportOptions } from './tcp-audio-transport';
+import {
+  decodePacket,
+  encodeNack,
+  openPayload,
+  packetKeyId,
+  verifyPacketTag,
+  PacketDecodeError,
+  PacketRejectReason,
+  PayloadKey,
+  SequenceRange
+} from './packet-codec';
 import { 
   AudioPacket, 
+  IncompleteFrameReason,
   SessionStatistics, 
   NetworkConditions,
-  SyncTimestamps 
+  SessionEndReason,
+  SessionFec,
+  SessionTimeoutPhase,
+  SourceViolationReason,
+  SyncTimestamps,
+  UdpAuthFailureReason,
+  UdpAuthFailureSource,
+  UdpInactivityConfig,
+  UdpMulticastConfig,
+  UdpReassemblyConfig,
+  UdpSocketConfig,
+  UdpSourcePolicy
 } from './types';
 
 interface ActiveSession {
   sessionId: string;
+  transport: 'udp' | 'tcp';   // Over TCP nothing is lost in transit, so there is nothing to NACK
   remoteAddress: string;
   remotePort: number;
+  sourceLearned: boolean;     // False until the first datagram when the source is not known up front
   startTime: number;
   lastPacketTime: number;
-  expectedSequence: number;
+  sequences: SequenceWindow;  // Serial-number position and recently seen sequences
+  authKey: Buffer | null;     // Datagrams must carry a valid tag when set
+  payloadKeys: Map<number, SessionPayloadKey> | null;  // Payloads must be encrypted when set
+  fec: FecDecoder | null;     // Set when the session negotiated parity packets
+  lastSequence: number | null; // The last packet's, while the end waits for its group's parity
+  endTimer: NodeJS.Timeout | null;
   statistics: SessionStatistics;
   networkConditions: NetworkConditions;
 }
 
+// How a delivered packet got here when it did not simply arrive in order
+export type PacketRecovery = 'retransmission' | 'fec' | null;
+
+interface SessionPayloadKey {
+  key: PayloadKey;
+  expiresAt: number | null;   // Set once a newer key replaces it
+}
+
+export interface UDPAudioServerOptions {
+  bindAddress?: string;           // All IPv4 interfaces when unset; an IPv6 address makes the socket udp6
+  socket?: Partial<UdpSocketConfig>;
+  multicast?: UdpMulticastConfig; // Also receive datagrams sent to this group
+  acceptLegacyPackets?: boolean;  // Also decode the pre-versioning layout without magic or checksum
+  keyGraceMs?: number;            // How long a rotated-out payload key is still accepted
+  nack?: NackOptions;             // Ask senders to retransmit missing sequences
+  reassembly?: UdpReassemblyConfig; // Limits for putting fragmented frames back together
+  sourcePolicy?: UdpSourcePolicy; // Which datagram sources a session accepts
+  inactivity?: UdpInactivityConfig; // End sessions whose sender went silent
+  tcp?: TCPAudioTransportOptions & { port: number }; // Also take the same datagrams framed over TCP
+}
+
+/**
+ * Receives audio datagrams for negotiated sessions.
+ *
+ * Emits 'audioPacket' (packet, syncTimestamps, networkConditions), 'sessionEnd'
+ * (sessionId, statistics, reason), 'packetRejected' (reason, rinfo) for datagrams that
+ * could not be decoded and 'authFailure' (reason, source, sessionId) for datagrams
+ * of authenticated sessions without a valid tag.
+ *
+ * With NACKs enabled, missing sequences are requested from the sender ('nackSent'
+ * (sessionId, ranges)) and sequences given up on are reported as 'packetsLost'
+ * (sessionId, count). Sessions that negotiated FEC rebuild single losses per
+ * parity group before anything downstream sees the gap; their end waits for the
+ * last group's parity, or LAST_PARITY_WAIT_MS. 'audioPacket' carries a fourth
+ * { recovery } argument telling retransmitted and rebuilt packets apart.
+ *
+ * Fragmented frames are reassembled before any of that; frames dropped before
+ * all their fragments arrived are reported as 'incompleteFrame' (sessionId,
+ * sequenceNumber, reason).
+ *
+ * Datagrams from a source the policy does not allow are dropped and reported as
+ * 'sourceViolation' (reason, source, sessionId). Authenticated sessions follow
+ * a sender whose NAT mapping changed instead, reported as 'sourceRebound'
+ * (sessionId, previousSource, source).
+ *
+ * With the TCP fallback enabled, sessions negotiated with transport 'tcp' send
+ * the same datagrams framed over a TCP connection (tcp-audio-transport.ts) and
+ * go through the same checks. Only their address is compared with the source
+ * policy, since every connection has a new port. 'tcpConnections' (count)
+ * follows open connections.
+ *
+ * With inactivity timeouts set, sessions that never received a packet and
+ * sessions whose sender went silent are ended with 'sessionTimeout' (sessionId,
+ * phase) followed by 'sessionEnd' with reason 'TIMEOUT'. Sessions ended by
+ * their last packet or closeSession carry 'COMPLETED'.
+ */
 export class UDPAudioServer extends EventEmitter {
+  private static readonly MAX_TRACKED_SOURCES = 256;
+  private static readonly LAST_PARITY_WAIT_MS = 250;
+
   private server: dgram.Socket;
   private port: number;
+  private bindAddress: string | undefined;
+  private socketType: dgram.SocketType;
+  private socketOptions: Partial<UdpSocketConfig>;
+  private multicast: UdpMulticastConfig | null;
+  private acceptLegacyPackets: boolean;
+  private keyGraceMs: number;
+  private sourcePolicy: UdpSourcePolicy;
   private activeSessions = new Map<string, ActiveSession>();
-
-  constructor(port: number = 8001) {
+  private rejectedPackets: Partial<Record<PacketRejectReason, number>> = {};
+  private authFailures = new Map<string, UdpAuthFailureSource>();
+  private nackTracker: NackTracker | null = null;
+  private reassembler: FragmentReassembler;
+  private tcpTransport: TCPAudioTransport | null = null;
+  private inactivity: UdpInactivityConfig;
+  private inactivityTimer: NodeJS.Timeout | null = null;
+
+  constructor(port: number = 8001, options: UDPAudioServerOptions = {}) {
     super();
     this.port = port;
-    this.server = dgram.createSocket('udp4');
+    this.acceptLegacyPackets = options.acceptLegacyPackets ?? false;
+    this.keyGraceMs = options.keyGraceMs ?? 5000;
+    this.sourcePolicy = options.sourcePolicy ?? 'address';
+    this.bindAddress = options.bindAddress;
+    this.socketOptions = options.socket ?? {};
+    this.multicast = options.multicast ?? null;
+    this.inactivity = options.inactivity ?? { idleTimeoutMs: 0, firstPacketTimeoutMs: 0 };
+    this.socketType = this.bindAddress && net.isIPv6(this.bindAddress) ? 'udp6' : 'udp4';
+    this.server = dgram.createSocket({
+      type: this.socketType,
+      ipv6Only: this.socketOptions.ipv6Only ?? false,
+      reuseAddr: this.socketOptions.reuseAddr ?? false
+    });
+    this.reassembler = new FragmentReassembler(options.reassembly ?? { timeoutMs: 200, maxBytes: 4 * 1024 * 1024 });
+    if (options.nack) {
+      this.nackTracker = new NackTracker(options.nack);
+    }
+    if (options.tcp) {
+      this.tcpTransport = new TCPAudioTransport(options.tcp.port, {
+        bindAddress: this.bindAddress,
+        maxFrameBytes: options.tcp.maxFrameBytes,
+        maxConnections: options.tcp.maxConnections,
+        idleTimeoutMs: options.tcp.idleTimeoutMs
+      });
+    }
     this.setupEventHandlers();
   }
 
   private setupEventHandlers(): void {
     this.server.on('message', (msg, rinfo) => {
-      this.handleIncomingPacket(msg, rinfo);
+      this.handleIncomingPacket(msg, { ...rinfo, address: unmapAddress(rinfo.address) });
     });
 
     this.server.on('error', (err) => {
@@ -41,6 +174,38 @@ export class UDPAudioServer extends EventEmitter {
       this.emit('error', err);
     });
 
+    this.nackTracker?.on('nack', (sessionId: string, ranges: SequenceRange[]) => {
+      this.sendNack(sessionId, ranges);
+    });
+
+    this.nackTracker?.on('lost', (sessionId: string, count: number) => {
+      this.emit('packetsLost', sessionId, count);
+    });
+
+    this.reassembler.on('incomplete', (sessionId: string, sequenceNumber: number, reason: IncompleteFrameReason) => {
+      const session = this.activeSessions.get(sessionId);
+      if (session) {
+        session.statistics.incompleteFrames++;
+      }
+      this.emit('incompleteFrame', sessionId, sequenceNumber, reason);
+    });
+
+    this.tcpTransport?.on('frame', (datagram: Buffer, source: dgram.RemoteInfo) => {
+      this.handleIncomingPacket(datagram, { ...source, address: unmapAddress(source.address) }, 'tcp');
+    });
+
+    this.tcpTransport?.on('frameRejected', (error: PacketDecodeError, source: dgram.RemoteInfo) => {
+      this.rejectPacket(error, { ...source, address: unmapAddress(source.address) });
+    });
+
+    this.tcpTransport?.on('connections', (count: number) => {
+      this.emit('tcpConnections', count);
+    });
+
+    this.tcpTransport?.on('error', (err: Error) => {
+      this.emit('error', err);
+    });
+
     this.server.on('listening', () => {
       const address = this.server.address();
       logger.info('UDP audio server listening', { 
@@ -52,16 +217,78 @@ export class UDPAudioServer extends EventEmitter {
   }
 
   async start(): Promise<void> {
+    await this.bind();
+    await this.tcpTransport?.start();
+  }
+
+  private bind(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.server.on('error', reject);
-      this.server.bind(this.port, () => {
+      this.server.bind(this.port, this.bindAddress, () => {
         this.server.removeListener('error', reject);
+        try {
+          this.applySocketOptions();
+          this.joinMulticastGroup();
+        } catch (error) {
+          reject(error);
+          return;
+        }
         resolve();
       });
     });
   }
 
+  // Buffer sizes can only be set once the socket is bound
+  private applySocketOptions(): void {
+    const { receiveBufferSize, sendBufferSize } = this.socketOptions;
+    if (receiveBufferSize) {
+      this.server.setRecvBufferSize(receiveBufferSize);
+    }
+    if (sendBufferSize) {
+      this.server.setSendBufferSize(sendBufferSize);
+    }
+    if (receiveBufferSize || sendBufferSize) {
+      // The kernel may round or cap what was asked for
+      logger.info('UDP socket buffers configured', {
+        receiveBufferSize: this.server.getRecvBufferSize(),
+        sendBufferSize: this.server.getSendBufferSize()
+      });
+    }
+  }
+
+  private joinMulticastGroup(): void {
+    if (!this.multicast) return;
+
+    const { group, interfaces, ttl, loopback } = this.multicast;
+    this.server.setMulticastTTL(ttl);
+    this.server.setMulticastLoopback(loopback);
+    if (interfaces.length === 0) {
+      this.server.addMembership(group);
+    }
+    for (const iface of interfaces) {
+      this.server.addMembership(group, iface);
+    }
+    logger.info('Joined UDP multicast group', { group, interfaces: interfaces.length ? interfaces : 'default', ttl, loopback });
+  }
+
+  getMulticastGroup(): string | null {
+    return this.multicast?.group ?? null;
+  }
+
   async stop(): Promise<void> {
+    if (this.inactivityTimer) {
+      clearInterval(this.inactivityTimer);
+      this.inactivityTimer = null;
+    }
+    for (const session of this.activeSessions.values()) {
+      if (session.endTimer) {
+        clearTimeout(session.endTimer);
+        session.endTimer = null;
+      }
+    }
+    this.nackTracker?.stop();
+    this.reassembler.stop();
+    await this.tcpTransport?.stop();
     return new Promise((resolve) => {
       this.server.close(() => {
         logger.info('UDP audio server stopped');
@@ -70,17 +297,40 @@ export class UDPAudioServer extends EventEmitter {
     });
   }
 
-  expectSession(sessionId: string, remoteAddress: string, remotePort: number): void {
+  expectSession(
+    sessionId: string,
+    remoteAddress: string,
+    remotePort: number,
+    options: { authKey?: Buffer; encryption?: PayloadKey; fec?: SessionFec; transport?: 'udp' | 'tcp' } = {}
+  ): void {
     const session: ActiveSession = {
       sessionId,
+      transport: options.transport ?? 'udp',
       remoteAddress,
       remotePort,
+      // A host name in clientEndpoint cannot be compared with datagram sources
+      sourceLearned: this.sourcePolicy !== 'learn' && net.isIP(remoteAddress) !== 0,
       startTime: Date.now(),
       lastPacketTime: Date.now(),
-      expectedSequence: 0,
+      sequences: new SequenceWindow(),
+      authKey: options.authKey ?? null,
+      payloadKeys: options.encryption
+        ? new Map([[options.encryption.keyId, { key: options.encryption, expiresAt: null }]])
+        : null,
+      fec: options.fec ? new FecDecoder(options.fec.groupSize) : null,
+      lastSequence: null,
+      endTimer: null,
       statistics: {
         totalPackets: 0,
         lostPackets: 0,
+        retransmittedPackets: 0,
+        fecRecoveredPackets: 0,
+        fecUnrecoverablePackets: 0,
+        reorderedPackets: 0,
+        duplicatePackets: 0,
+        stalePackets: 0,
+        incompleteFrames: 0,
+        sourceViolations: 0,
         avgLatency: 0,
         jitterMs: 0,
         audioDuration: 0,
@@ -96,25 +346,23 @@ export class UDPAudioServer extends EventEmitter {
     };
 
     this.activeSessions.set(sessionId, session);
+    this.ensureInactivityTimer();
     logger.info('UDP session initialized', { 
       sessionId, 
       remoteAddress, 
-      remotePort 
+      remotePort,
+      transport: session.transport,
+      sourcePolicy: this.sourcePolicy,
+      authenticated: session.authKey !== null,
+      encrypted: session.payloadKeys !== null,
+      fec: options.fec ?? null
     });
   }
 
-  private handleIncomingPacket(buffer: Buffer, rinfo: dgram.RemoteInfo): void {
+  private handleIncomingPacket(buffer: Buffer, rinfo: dgram.RemoteInfo, via: 'udp' | 'tcp' = 'udp'): void {
     try {
-      const packet = this.deserializePacket(buffer);
+      let packet = this.deserializePacket(buffer);
       const receiveTime = Date.now();
-      
-      // Update sync timestamps
-      const syncTimestamps: SyncTimestamps = {
-        ttsGenerated: packet.timestamp,
-        packetSent: packet.timestamp, // Assume minimal processing time
-        packetReceived: receiveTime,
-        scheduledPlayback: packet.playbackTime
-      };
 
       const session = this.activeSessions.get(packet.sessionId);
       if (!session) {
@@ -124,97 +372,324 @@ export class UDPAudioServer extends EventEmitter {
         return;
       }
 
-      // Update session statistics
-      this.updateSessionStatistics(session, packet, receiveTime, rinfo);
-
-      // Check for packet loss
-      if (packet.sequenceNumber !== session.expectedSequence) {
-        const lostPackets = packet.sequenceNumber - session.expectedSequence;
-        if (lostPackets > 0) {
-          session.statistics.lostPackets += lostPackets;
-          logger.warn('Packet loss detected', {
-            sessionId: packet.sessionId,
-            expected: session.expectedSequence,
-            received: packet.sequenceNumber,
-            lostCount: lostPackets
-          });
+      if (via !== session.transport) {
+        logger.debug('Dropping packet sent over the other transport', {
+          sessionId: session.sessionId,
+          via,
+          transport: session.transport
+        });
+        return;
+      }
+
+      if (session.authKey) {
+        const tag = verifyPacketTag(buffer, session.authKey);
+        if (tag !== 'valid') {
+          this.recordAuthFailure(tag === 'missing' ? 'missing_tag' : 'invalid_tag', session.sessionId, rinfo);
+          return;
         }
       }
 
-      session.expectedSequence = packet.sequenceNumber + 1;
-      session.lastPacketTime = receiveTime;
+      // Decrypted first: a payload that opens under the session key proves the
+      // sender as well as a tag does, and a forged datagram must not move the source
+      if (session.payloadKeys) {
+        packet.audioData = this.decryptPayload(session, buffer, packet);
+      }
 
-      // Emit the packet for processing
-      this.emit('audioPacket', packet, syncTimestamps, session.networkConditions);
+      if (!this.checkSource(session, packet, rinfo)) {
+        return;
+      }
 
-      // Handle session end
-      if (packet.isLast) {
-        this.endSession(packet.sessionId);
+      // Parity shares its sequence number with the first packet of its group.
+      // Checked before reassembly so fragments of a frame already played do
+      // not start a new one.
+      if (!packet.parity && this.isDuplicate(session, packet)) {
+        return;
       }
 
+      if (packet.fragment) {
+        const frame = this.reassembler.add(packet);
+        if (!frame) return;
+        packet = frame;
+      }
+
+      if (packet.parity) {
+        this.handleParityPacket(session, packet, receiveTime);
+        return;
+      }
+
+      // Update session statistics
+      this.updateSessionStatistics(session, packet, receiveTime);
+      this.deliverPacket(session, packet, receiveTime, null);
+
+      const rebuilt = session.fec?.add(packet);
+      if (rebuilt && this.activeSessions.has(session.sessionId)) {
+        this.deliverPacket(session, rebuilt, receiveTime, 'fec');
+      }
+      this.endAfterLastParity(session);
+
     } catch (error) {
+      if (error instanceof PacketDecodeError) {
+        this.rejectPacket(error, rinfo);
+        return;
+      }
       logger.error('Failed to process UDP packet', { error, rinfo });
     }
   }
 
-  private deserializePacket(buffer: Buffer): AudioPacket {
-    // Simple binary protocol:
-    // [sessionId length:1][sessionId:variable][sequenceNumber:4][timestamp:8]
-    // [playbackTime:8][format:1][sampleRate:4][isLast:1][audioData length:4][audioData:variable]
-    
-    let offset = 0;
-
-    // Session ID
-    const sessionIdLength = buffer.readUInt8(offset);
-    offset += 1;
-    const sessionId = buffer.subarray(offset, offset + sessionIdLength).toString('utf8');
-    offset += sessionIdLength;
-
-    // Sequence number
-    const sequenceNumber = buffer.readUInt32BE(offset);
-    offset += 4;
-
-    // Timestamps
-    const timestamp = Number(buffer.readBigUInt64BE(offset));
-    offset += 8;
-    const playbackTime = Number(buffer.readBigUInt64BE(offset));
-    offset += 8;
-
-    // Format
-    const formatByte = buffer.readUInt8(offset);
-    offset += 1;
-    const format = formatByte === 0 ? 'pcm' : formatByte === 1 ? 'mp3' : 'unknown';
-
-    // Sample rate
-    const sampleRate = buffer.readUInt32BE(offset);
-    offset += 4;
-
-    // Is last
-    const isLast = buffer.readUInt8(offset) === 1;
-    offset += 1;
-
-    // Audio data
-    const audioDataLength = buffer.readUInt32BE(offset);
-    offset += 4;
-    const audioData = buffer.subarray(offset, offset + audioDataLength);
-
-    return {
-      sessionId,
-      sequenceNumber,
-      timestamp,
-      playbackTime,
-      audioData,
-      format: format as any,
-      sampleRate,
-      isLast
+  private isDuplicate(session: ActiveSession, packet: AudioPacket): boolean {
+    if (session.fec?.wasRebuilt(packet.sequenceNumber)) {
+      logger.debug('Dropping packet already rebuilt from parity', {
+        sessionId: session.sessionId,
+        sequenceNumber: packet.sequenceNumber
+      });
+      return true;
+    }
+
+    const { kind } = session.sequences.classify(packet.sequenceNumber);
+    if (kind !== 'duplicate' && kind !== 'stale') {
+      return false;
+    }
+    if (kind === 'stale') {
+      session.statistics.stalePackets++;
+    } else {
+      session.statistics.duplicatePackets++;
+    }
+    logger.debug('Dropping duplicate packet', {
+      sessionId: session.sessionId,
+      sequenceNumber: packet.sequenceNumber,
+      kind
+    });
+    return true;
+  }
+
+  private rejectPacket(error: PacketDecodeError, rinfo: dgram.RemoteInfo): void {
+    this.rejectedPackets[error.reason] = (this.rejectedPackets[error.reason] || 0) + 1;
+    logger.warn('Rejected UDP packet', {
+      reason: error.reason,
+      error: error.message,
+      from: formatSource(rinfo.address, rinfo.port),
+      size: rinfo.size
+    });
+    this.emit('packetRejected', error.reason, rinfo);
+  }
+
+  private handleParityPacket(session: ActiveSession, parity: AudioPacket, receiveTime: number): void {
+    if (!session.fec) {
+      logger.debug('Ignoring parity packet for session without FEC', { sessionId: session.sessionId });
+      return;
+    }
+
+    const rebuilt = session.fec.add(parity);
+    if (rebuilt) {
+      this.deliverPacket(session, rebuilt, receiveTime, 'fec');
+    }
+    this.endAfterLastParity(session);
+  }
+
+  /**
+   * Loss accounting and hand-off of a data packet, received or rebuilt.
+   */
+  private deliverPacket(
+    session: ActiveSession,
+    packet: AudioPacket,
+    receiveTime: number,
+    recovery: PacketRecovery
+  ): void {
+    const syncTimestamps: SyncTimestamps = {
+      ttsGenerated: packet.timestamp,
+      packetSent: packet.timestamp, // Assume minimal processing time
+      packetReceived: receiveTime,
+      scheduledPlayback: packet.playbackTime
+    };
+
+    // Check for packet loss
+    const expected = session.sequences.getNext();
+    const arrival = session.sequences.record(packet.sequenceNumber);
+    if (arrival.kind === 'duplicate' || arrival.kind === 'stale') {
+      return; // Rebuilt from parity after the packet itself got in
+    }
+    if (arrival.skipped > 0) {
+      session.statistics.lostPackets += arrival.skipped;
+      logger.warn('Packet loss detected', {
+        sessionId: packet.sessionId,
+        expected,
+        received: packet.sequenceNumber,
+        lostCount: arrival.skipped
+      });
+      if (session.transport === 'udp') {
+        this.nackTracker?.missing(session.sessionId, expected, expected + arrival.skipped);
+      }
+    }
+
+    // A retransmitted, rebuilt or merely reordered packet fills an earlier gap,
+    // which is no longer lost
+    const requested = this.nackTracker?.received(session.sessionId, packet.sequenceNumber) ?? false;
+    if (recovery === 'fec') {
+      session.statistics.fecRecoveredPackets++;
+      if (arrival.kind === 'reordered') {
+        session.statistics.lostPackets--;
+      }
+    } else if (requested) {
+      recovery = 'retransmission';
+      session.statistics.lostPackets--;
+      session.statistics.retransmittedPackets++;
+    } else if (arrival.kind === 'reordered') {
+      session.statistics.lostPackets--;
+      session.statistics.reorderedPackets++;
+    }
+
+    session.lastPacketTime = receiveTime;
+
+    // Emit the packet for processing
+    this.emit('audioPacket', packet, syncTimestamps, session.networkConditions, { recovery });
+
+    // Handle session end
+    if (packet.isLast) {
+      this.finishSession(session, packet.sequenceNumber);
+    }
+  }
+
+  // The last group's parity follows the last packet, so the end waits a little
+  // for it to rebuild a loss in that group. Callers end the session once the
+  // parity is in, after the packet itself went to the decoder.
+  private finishSession(session: ActiveSession, lastSequence: number): void {
+    if (!session.fec) {
+      this.endSession(session.sessionId);
+      return;
+    }
+    if (session.endTimer) return;
+
+    session.lastSequence = lastSequence;
+    session.endTimer = setTimeout(() => this.endSession(session.sessionId), UDPAudioServer.LAST_PARITY_WAIT_MS);
+  }
+
+  private endAfterLastParity(session: ActiveSession): void {
+    if (session.lastSequence !== null && session.fec?.hasParity(session.lastSequence)) {
+      this.endSession(session.sessionId);
+    }
+  }
+
+  private sendNack(sessionId: string, ranges: SequenceRange[]): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    const nack = encodeNack(sessionId, ranges, { authKey: session.authKey ?? undefined });
+    this.server.send(nack, session.remotePort, this.socketAddress(session.remoteAddress), (error) => {
+      if (error) {
+        logger.warn('Failed to send NACK', { sessionId, error: error.message });
+      }
+    });
+
+    logger.debug('NACK sent', { sessionId, ranges });
+    this.emit('nackSent', sessionId, ranges);
+  }
+
+  // A dual-stack socket reaches IPv4 senders through their IPv4-mapped address
+  private socketAddress(address: string): string {
+    return this.socketType === 'udp6' && net.isIPv4(address) ? `::ffff:${address}` : address;
+  }
+
+  private decryptPayload(session: ActiveSession, buffer: Buffer, packet: AudioPacket): Buffer {
+    const keyId = packetKeyId(buffer);
+    if (keyId === null) {
+      throw new PacketDecodeError('not_encrypted', `Plaintext datagram for encrypted session ${session.sessionId}`);
+    }
+
+    const entry = session.payloadKeys?.get(keyId);
+    if (!entry || (entry.expiresAt !== null && entry.expiresAt < Date.now())) {
+      throw new PacketDecodeError('unknown_key', `Key ${keyId} is not current for session ${session.sessionId}`);
+    }
+
+    return openPayload(entry.key, buffer, packet);
+  }
+
+  /**
+   * Applies the source-address policy to a datagram that passed authentication
+   * and decryption. Returns false when it must be dropped.
+   */
+  private checkSource(session: ActiveSession, packet: AudioPacket, rinfo: dgram.RemoteInfo): boolean {
+    const source = formatSource(rinfo.address, rinfo.port);
+    if (!session.sourceLearned) {
+      session.remoteAddress = rinfo.address;
+      session.remotePort = rinfo.port;
+      session.sourceLearned = true;
+      logger.info('UDP session source learned', { sessionId: session.sessionId, source });
+      return true;
+    }
+
+    const reason: SourceViolationReason | null = rinfo.address !== session.remoteAddress
+      ? 'address'
+      : this.sourcePolicy !== 'address' && session.transport === 'udp' && rinfo.port !== session.remotePort ? 'port' : null;
+    if (!reason) return true;
+
+    // A valid tag or payload key proves the datagram is the sender's, so a new
+    // source means its NAT mapping changed. Old sequence numbers could be replays
+    // and do not count.
+    const { kind } = session.sequences.classify(packet.sequenceNumber);
+    const authenticated = Boolean(session.authKey || session.payloadKeys);
+    if (authenticated && (kind === 'in_order' || kind === 'gap')) {
+      const previousSource = formatSource(session.remoteAddress, session.remotePort);
+      session.remoteAddress = rinfo.address;
+      session.remotePort = rinfo.port;
+      logger.info('UDP session source rebound', { sessionId: session.sessionId, previousSource, source });
+      this.emit('sourceRebound', session.sessionId, previousSource, source);
+      return true;
+    }
+
+    session.statistics.sourceViolations++;
+    // Logged once per session and then at powers of ten to keep floods out of the logs
+    if (Math.log10(session.statistics.sourceViolations) % 1 === 0) {
+      logger.warn('UDP packet from unexpected source', {
+        sessionId: session.sessionId,
+        reason,
+        source,
+        expected: formatSource(session.remoteAddress, session.remotePort),
+        violations: session.statistics.sourceViolations
+      });
+    }
+    this.emit('sourceViolation', reason, source, session.sessionId);
+    return false;
+  }
+
+  private recordAuthFailure(reason: UdpAuthFailureReason, sessionId: string, rinfo: dgram.RemoteInfo): void {
+    const source = formatSource(rinfo.address, rinfo.port);
+    const now = Date.now();
+
+    const entry = this.authFailures.get(source) ?? {
+      source,
+      failures: 0,
+      lastReason: reason,
+      lastSessionId: sessionId,
+      firstFailureAt: now,
+      lastFailureAt: now
     };
+    entry.failures++;
+    entry.lastReason = reason;
+    entry.lastSessionId = sessionId;
+    entry.lastFailureAt = now;
+
+    // Most recent offenders last, so the quietest are forgotten first
+    this.authFailures.delete(source);
+    this.authFailures.set(source, entry);
+    if (this.authFailures.size > UDPAudioServer.MAX_TRACKED_SOURCES) {
+      this.authFailures.delete(this.authFailures.keys().next().value as string);
+    }
+
+    // Logged once per source and then at powers of ten to keep floods out of the logs
+    if (Math.log10(entry.failures) % 1 === 0) {
+      logger.warn('UDP packet failed authentication', { reason, sessionId, source, failures: entry.failures });
+    }
+    this.emit('authFailure', reason, source, sessionId);
+  }
+
+  private deserializePacket(buffer: Buffer): AudioPacket {
+    return decodePacket(buffer, { acceptLegacy: this.acceptLegacyPackets });
   }
 
   private updateSessionStatistics(
     session: ActiveSession,
     packet: AudioPacket,
-    receiveTime: number,
-    _rinfo: dgram.RemoteInfo
+    receiveTime: number
   ): void {
     session.statistics.totalPackets++;
     
@@ -251,21 +726,79 @@ export class UDPAudioServer extends EventEmitter {
     });
   }
 
-  private endSession(sessionId: string): void {
+  private ensureInactivityTimer(): void {
+    const timeouts = [this.inactivity.idleTimeoutMs, this.inactivity.firstPacketTimeoutMs].filter(ms => ms > 0);
+    if (this.inactivityTimer || timeouts.length === 0) return;
+    this.inactivityTimer = setInterval(() => this.sweepInactiveSessions(), Math.max(5, Math.floor(Math.min(...timeouts) / 2)));
+  }
+
+  private sweepInactiveSessions(): void {
+    const now = Date.now();
+    for (const session of Array.from(this.activeSessions.values())) {
+      // lastPacketTime starts out as the time the session was expected
+      const phase: SessionTimeoutPhase = session.statistics.totalPackets === 0 ? 'first_packet' : 'idle';
+      const timeoutMs = phase === 'first_packet' ? this.inactivity.firstPacketTimeoutMs : this.inactivity.idleTimeoutMs;
+      if (timeoutMs > 0 && now - session.lastPacketTime >= timeoutMs) {
+        logger.warn('UDP session timed out', { sessionId: session.sessionId, phase, silentMs: now - session.lastPacketTime });
+        this.emit('sessionTimeout', session.sessionId, phase);
+        this.endSession(session.sessionId, 'TIMEOUT');
+      }
+    }
+
+    if (this.activeSessions.size === 0 && this.inactivityTimer) {
+      clearInterval(this.inactivityTimer);
+      this.inactivityTimer = null;
+    }
+  }
+
+  private endSession(sessionId: string, reason: SessionEndReason = 'COMPLETED'): void {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
 
+    if (session.endTimer) {
+      clearTimeout(session.endTimer);
+      session.endTimer = null;
+    }
+    this.reassembler.clearSession(sessionId);
     session.statistics.endTime = Date.now();
+    if (session.fec) {
+      session.statistics.fecUnrecoverablePackets = session.fec.close().unrecoverable;
+    }
     session.statistics.audioDuration = session.statistics.endTime - session.statistics.startTime;
 
     logger.info('UDP session ended', {
       sessionId,
+      reason,
       statistics: session.statistics,
       networkConditions: session.networkConditions
     });
 
-    this.emit('sessionEnd', sessionId, session.statistics);
+    this.emit('sessionEnd', sessionId, session.statistics, reason);
     this.activeSessions.delete(sessionId);
+    this.nackTracker?.clearSession(sessionId);
+  }
+
+  closeSession(sessionId: string): SessionStatistics | null {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return null;
+
+    this.endSession(sessionId);
+    return { ...session.statistics };
+  }
+
+  getPort(): number {
+    try {
+      return this.server.address().port;
+    } catch {
+      return this.port; // Not bound yet
+    }
+  }
+
+  /**
+   * The TCP fallback port, or null when the fallback is not enabled.
+   */
+  getTcpPort(): number | null {
+    return this.tcpTransport?.getPort() ?? null;
   }
 
   getSessionStatistics(sessionId: string): SessionStatistics | null {
@@ -278,6 +811,39 @@ export class UDPAudioServer extends EventEmitter {
     return session ? { ...session.networkConditions } : null;
   }
 
+  /**
+   * Installs a new payload key for an encrypted session, using the algorithm
+   * negotiated at the start. Keys it replaces keep decrypting for the grace
+   * period so datagrams already in flight still play.
+   */
+  rotateSessionKey(sessionId: string, keyId: number, key: Buffer): boolean {
+    const session = this.activeSessions.get(sessionId);
+    if (!session?.payloadKeys) return false;
+
+    const [current] = session.payloadKeys.values();
+    const { algorithm } = current.key;
+    const now = Date.now();
+    for (const [installedKeyId, entry] of session.payloadKeys) {
+      if (entry.expiresAt !== null && entry.expiresAt < now) {
+        session.payloadKeys.delete(installedKeyId);
+      } else if (entry.expiresAt === null) {
+        entry.expiresAt = now + this.keyGraceMs;
+      }
+    }
+    session.payloadKeys.set(keyId, { key: { algorithm, keyId, key }, expiresAt: null });
+
+    logger.info('UDP session key rotated', { sessionId, keyId });
+    return true;
+  }
+
+  getRejectedPackets(): Partial<Record<PacketRejectReason, number>> {
+    return { ...this.rejectedPackets };
+  }
+
+  getAuthFailures(): UdpAuthFailureSource[] {
+    return Array.from(this.authFailures.values()).map(entry => ({ ...entry }));
+  }
+
   getActiveSessions(): string[] {
     return Array.from(this.activeSessions.keys());
   }
@@ -285,4 +851,15 @@ export class UDPAudioServer extends EventEmitter {
   isSessionActive(sessionId: string): boolean {
     return this.activeSessions.has(sessionId);
   }
-}
\ No newline at end of file
+}
+
+// Dual-stack sockets report IPv4 senders as ::ffff:a.b.c.d, while clientEndpoint
+// carries the plain IPv4 address
+export function unmapAddress(address: string): string {
+  const match = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return match ? match[1] : address;
+}
+
+export function formatSource(address: string, port: number): string {
+  return net.isIPv6(address) ? `[${address}]:${port}` : `${address}:${port}`;
+}